@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+'use strict';
+
+const { runCli } = require('../dist/src/cli');
+
+runCli(process.argv.slice(2), process.stdout, process.stderr).then(exitCode => {
+	process.exitCode = exitCode;
+}, err => {
+	console.error(err);
+	process.exitCode = 1;
+});
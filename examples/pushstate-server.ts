@@ -1,32 +1,19 @@
-
 import { join } from 'path';
 
 import { fastify } from 'fastify';
 
-import { FileSystemStorage, FileSystemStorageError } from '../src/send-stream';
+import { FileSystemStorage } from '../src/send-stream';
 
 const app = fastify();
 
-const storage = new FileSystemStorage(join(__dirname, 'assets'));
+// if path is not found then serve root index.html (with a 404 status if the path has a known extension)
+const storage = new FileSystemStorage(join(__dirname, 'assets'), { spaFallback: { index: 'index.html' } });
 
 app.route({
 	method: ['HEAD', 'GET'],
 	url: '*',
 	handler: async (request, reply) => {
-		let result = await storage.prepareResponse(request.url, request.raw);
-		// if path is not found then rewrite to root index.html
-		if (result.error instanceof FileSystemStorageError) {
-			result.stream.destroy();
-			const { error: { pathParts } } = result;
-			result = await storage.prepareResponse(
-				['', 'index.html'],
-				request.raw,
-				// if the mime type can be determined from path then this is probably an error so add 404 status
-				storage.mimeTypeLookup(pathParts[pathParts.length - 1])
-					? { statusCode: 404 }
-					: {},
-			);
-		}
+		const result = await storage.prepareResponse(request.url, request.raw);
 		await result.send(reply.raw);
 	},
 });
@@ -0,0 +1,17 @@
+import { StorageError } from './error';
+
+/**
+ * Invalid archive error
+ */
+export class InvalidArchiveError extends StorageError<string> {
+	/**
+	 * Create invalid archive error
+	 *
+	 * @param message - error message
+	 * @param archivePath - archive path
+	 */
+	constructor(message: string, archivePath: string) {
+		super(message, archivePath);
+		this.name = 'InvalidArchiveError';
+	}
+}
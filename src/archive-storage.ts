@@ -0,0 +1,500 @@
+import type { Dirent, Stats } from 'fs';
+import { createReadStream, promises as fsPromises } from 'fs';
+import { posix } from 'path';
+import { Readable, pipeline } from 'stream';
+import { once } from 'events';
+import { createInflateRaw } from 'zlib';
+
+import { GenericFileSystemStorage } from './file-system-storage';
+import type { StorageRequestHeaders, StorageInfo } from './types';
+import type { FilePath, GenericFileData } from './file-system-types';
+import { acceptEncodings } from './utils';
+import type {
+	ArchiveEntry,
+	ArchiveIndexEntry,
+	ArchiveFileDescriptor,
+	ArchiveStorageOptions,
+} from './archive-types';
+import { InvalidArchiveError } from './archive-errors';
+
+// zlib header without preset dictionary (RFC 1950)
+const ZLIB_HEADER = Buffer.from([0x78, 0x9C]);
+const ADLER32_TRAILER_LENGTH = 4;
+const ADLER32_MODULO = 65_521;
+// biggest number of bytes that can be summed before the adler32 sums overflow
+const ADLER32_MAX_CHUNK_LENGTH = 5552;
+
+const DEFLATE_ENCODING_PREFERENCE = { order: 0 };
+const IDENTITY_ENCODING_PREFERENCE = { order: 1 };
+const ENCODING_PREFERENCES = new Map([
+	['deflate', DEFLATE_ENCODING_PREFERENCE],
+	['identity', IDENTITY_ENCODING_PREFERENCE],
+]);
+
+/**
+ * Function reading bytes from an archive
+ */
+export type ArchiveReader = (position: number, length: number) => Promise<Buffer>;
+
+/**
+ * Compute adler32 checksum
+ *
+ * @param data - data to add to the checksum
+ * @param previous - previous checksum
+ * @returns the new checksum
+ */
+export function adler32(data: Uint8Array, previous = 1) {
+	let a = previous % 65_536;
+	let b = Math.floor(previous / 65_536);
+	for (let start = 0; start < data.length; start += ADLER32_MAX_CHUNK_LENGTH) {
+		const end = Math.min(start + ADLER32_MAX_CHUNK_LENGTH, data.length);
+		for (let index = start; index < end; index++) {
+			a += data[index];
+			b += a;
+		}
+		a %= ADLER32_MODULO;
+		b %= ADLER32_MODULO;
+	}
+	return (b * 65_536) + a;
+}
+
+/**
+ * Wrap raw deflate data with the zlib header and adler32 trailer (the data is inflated to compute the checksum)
+ *
+ * @param rawDeflate - raw deflate data
+ * @yields zlib data
+ */
+async function *wrapDeflateStream(rawDeflate: Readable) {
+	const inflate = createInflateRaw();
+	let checksum = 1;
+	inflate.on('data', (chunk: Buffer) => {
+		checksum = adler32(chunk, checksum);
+	});
+	const inflated = once(inflate, 'end');
+	// errors are thrown when awaited
+	inflated.catch(() => undefined);
+	try {
+		yield ZLIB_HEADER;
+		for await (const chunk of rawDeflate) {
+			inflate.write(chunk);
+			yield <Buffer> chunk;
+		}
+		inflate.end();
+		await inflated;
+	} finally {
+		inflate.destroy();
+	}
+	const trailer = Buffer.alloc(ADLER32_TRAILER_LENGTH);
+	trailer.writeUInt32BE(checksum);
+	yield trailer;
+}
+
+/**
+ * Slice a stream
+ *
+ * @param stream - the stream to slice
+ * @param start - start offset
+ * @param end - end offset (inclusive)
+ * @yields sliced chunks
+ */
+async function *sliceStream(stream: Readable, start: number, end: number) {
+	let position = 0;
+	for await (const chunk of stream) {
+		const buffer = <Buffer> chunk;
+		const chunkEnd = position + buffer.byteLength;
+		if (chunkEnd > start) {
+			yield buffer.subarray(Math.max(start - position, 0), Math.min(end + 1 - position, buffer.byteLength));
+		}
+		position = chunkEnd;
+		if (position > end) {
+			break;
+		}
+	}
+}
+
+/**
+ * Stats of an archive entry
+ */
+class ArchiveStats implements Stats {
+	dev = 0;
+	ino = 0;
+	mode: number;
+	nlink = 1;
+	uid = 0;
+	gid = 0;
+	rdev = 0;
+	size: number;
+	blksize = 0;
+	blocks = 0;
+	atimeMs: number;
+	mtimeMs: number;
+	ctimeMs: number;
+	birthtimeMs: number;
+	atime: Date;
+	mtime: Date;
+	ctime: Date;
+	birthtime: Date;
+
+	private readonly directory: boolean;
+
+	constructor(entry: ArchiveIndexEntry) {
+		this.directory = entry.isDirectory;
+		// eslint-disable-next-line unicorn/numeric-separators-style
+		this.mode = entry.isDirectory ? 0o40755 : 0o100644;
+		this.size = entry.size;
+		this.atimeMs = entry.mtimeMs;
+		this.mtimeMs = entry.mtimeMs;
+		this.ctimeMs = entry.mtimeMs;
+		this.birthtimeMs = entry.mtimeMs;
+		this.atime = new Date(entry.mtimeMs);
+		this.mtime = new Date(entry.mtimeMs);
+		this.ctime = new Date(entry.mtimeMs);
+		this.birthtime = new Date(entry.mtimeMs);
+	}
+
+	isFile() {
+		return !this.directory;
+	}
+
+	isDirectory() {
+		return this.directory;
+	}
+
+	// eslint-disable-next-line class-methods-use-this
+	isBlockDevice() {
+		return false;
+	}
+
+	// eslint-disable-next-line class-methods-use-this
+	isCharacterDevice() {
+		return false;
+	}
+
+	// eslint-disable-next-line class-methods-use-this
+	isSymbolicLink() {
+		return false;
+	}
+
+	// eslint-disable-next-line class-methods-use-this
+	isFIFO() {
+		return false;
+	}
+
+	// eslint-disable-next-line class-methods-use-this
+	isSocket() {
+		return false;
+	}
+}
+
+/**
+ * Directory entry of an archive directory
+ */
+class ArchiveDirent extends ArchiveStats implements Dirent {
+	name: string;
+
+	constructor(name: string, entry: ArchiveIndexEntry) {
+		super(entry);
+		this.name = name;
+	}
+}
+
+/**
+ * Storage serving the entries of an archive file (without extracting them)
+ */
+export abstract class ArchiveStorage extends GenericFileSystemStorage<ArchiveFileDescriptor> {
+	/**
+	 * Archive file path
+	 */
+	readonly archivePath: string;
+
+	/**
+	 * Archive index (entries by path) once loading started
+	 */
+	index: Promise<ReadonlyMap<string, ArchiveIndexEntry>> | undefined;
+
+	/**
+	 * Archive modification time and size (`mtimeMs:size`) when the index loading started
+	 */
+	indexVersion: string | undefined;
+
+	/**
+	 * Create archive storage
+	 *
+	 * @param archivePath - archive file path
+	 * @param opts - archive storage options
+	 */
+	constructor(archivePath: string, opts: ArchiveStorageOptions = {}) {
+		super('/', {
+			...opts,
+			fsModule: {
+				constants: {
+					// eslint-disable-next-line @typescript-eslint/naming-convention
+					O_RDONLY: 0,
+				},
+				open: (path, _flags, callback) => {
+					this.openEntry(path).then(
+						fd => {
+							callback(null, fd);
+						},
+						(err: Error) => {
+							callback(err, <ArchiveFileDescriptor> <unknown> undefined);
+						},
+					);
+				},
+				fstat: (fd, callback) => {
+					callback(null, new ArchiveStats(fd.entry));
+				},
+				close: (_fd, callback) => {
+					callback(null);
+				},
+				createReadStream: (_path, { fd, start, end }) => this.createEntryStream(
+					<ArchiveFileDescriptor> fd,
+					start,
+					end,
+				),
+				readdir: (path, _options, callback) => {
+					this.getIndex().then(
+						index => {
+							const entry = index.get(path);
+							callback(
+								null,
+								entry ? [...entry.children].map(([name, child]) => new ArchiveDirent(name, child)) : [],
+							);
+						},
+						(err: Error) => {
+							callback(err, []);
+						},
+					);
+				},
+			},
+		});
+		this.archivePath = archivePath;
+	}
+
+	/**
+	 * Open the archive and call readContent with a function reading bytes from the archive
+	 *
+	 * @param readContent - function called with the reader and the archive size
+	 * @returns the readContent result
+	 * @throws InvalidArchiveError when the archive is shorter than expected
+	 */
+	async readArchive<T>(readContent: (read: ArchiveReader, archiveSize: number) => Promise<T>) {
+		const { archivePath } = this;
+		const handle = await fsPromises.open(archivePath, 'r');
+		try {
+			const { size } = await handle.stat();
+			return await readContent(
+				async (position, length) => {
+					const buffer = Buffer.alloc(length);
+					const { bytesRead } = await handle.read(buffer, 0, length, position);
+					if (bytesRead !== length) {
+						throw new InvalidArchiveError(`${ archivePath } ended unexpectedly`, archivePath);
+					}
+					return buffer;
+				},
+				size,
+			);
+		} finally {
+			await handle.close();
+		}
+	}
+
+	/**
+	 * Read the archive entries and build the archive index (directories implied by entry names are added)
+	 *
+	 * @returns the archive index (entries by path)
+	 */
+	async loadIndex() {
+		const entries = await this.readArchive(async (read, archiveSize) => this.readEntries(read, archiveSize));
+		const createDirectory = (path: string): ArchiveIndexEntry => ({
+			name: `${ path.slice(1) }/`,
+			isDirectory: true,
+			mtimeMs: 0,
+			size: 0,
+			compression: 'stored',
+			compressedSize: 0,
+			headerOffset: 0,
+			path,
+			children: new Map(),
+			dataOffset: undefined,
+		});
+		const root = createDirectory('/');
+		const index = new Map<string, ArchiveIndexEntry>([['/', root]]);
+		for (const entry of entries) {
+			const parts = entry.name.split('/').filter(part => part !== '' && part !== '.');
+			if (parts.length === 0 || parts.includes('..')) {
+				continue;
+			}
+			let parent = root;
+			for (const part of parts.slice(0, -1)) {
+				let directory = parent.children.get(part);
+				if (!directory?.isDirectory) {
+					directory = createDirectory(posix.join(parent.path, part));
+					parent.children.set(part, directory);
+					index.set(directory.path, directory);
+				}
+				parent = directory;
+			}
+			const [name] = parts.slice(-1);
+			const existing = parent.children.get(name);
+			const indexEntry: ArchiveIndexEntry = {
+				...entry,
+				path: posix.join(parent.path, name),
+				children: existing?.isDirectory && entry.isDirectory
+					? existing.children
+					: new Map<string, ArchiveIndexEntry>(),
+				dataOffset: undefined,
+			};
+			parent.children.set(name, indexEntry);
+			index.set(indexEntry.path, indexEntry);
+		}
+		return index;
+	}
+
+	/**
+	 * Get the archive index, loading it on first call (and on next calls if loading failed or if the archive
+	 * modification time or size changed)
+	 *
+	 * @returns the archive index (entries by path)
+	 * @throws when the archive can not be read
+	 */
+	async getIndex() {
+		const { mtimeMs, size } = await fsPromises.stat(this.archivePath);
+		const version = `${ mtimeMs }:${ size }`;
+		const { indexVersion } = this;
+		let { index } = this;
+		if (!index || version !== indexVersion) {
+			index = this.loadIndex();
+			this.index = index;
+			this.indexVersion = version;
+		}
+		try {
+			return await index;
+		} catch (err: unknown) {
+			this.index = undefined;
+			throw err;
+		}
+	}
+
+	/**
+	 * Open archive entry
+	 *
+	 * @param path - entry path
+	 * @returns the file descriptor
+	 * @throws when the entry does not exist
+	 */
+	async openEntry(path: string): Promise<ArchiveFileDescriptor> {
+		const index = await this.getIndex();
+		const entry = index.get(path);
+		if (!entry) {
+			throw new Error(`${ path } does not exist in ${ this.archivePath }`);
+		}
+		if (!entry.isDirectory && entry.dataOffset === undefined) {
+			entry.dataOffset = await this.readDataOffset(entry);
+		}
+		return { entry, deflate: false };
+	}
+
+	/**
+	 * Create readable stream of an archive entry
+	 *
+	 * @param fd - file descriptor
+	 * @param start - start offset
+	 * @param end - end offset (inclusive)
+	 * @returns readable stream
+	 */
+	createEntryStream(fd: ArchiveFileDescriptor, start: number | undefined, end: number | undefined): Readable {
+		const { archivePath } = this;
+		const { entry, deflate } = fd;
+		const dataOffset = <number> entry.dataOffset;
+		if (entry.compression === 'stored') {
+			return createReadStream(archivePath, {
+				start: dataOffset + (start ?? 0),
+				end: dataOffset + (end ?? entry.size - 1),
+			});
+		}
+		const data = createReadStream(archivePath, {
+			start: dataOffset,
+			end: dataOffset + entry.compressedSize - 1,
+		});
+		let content: Readable;
+		if (deflate) {
+			content = Readable.from(wrapDeflateStream(data), { objectMode: false, autoDestroy: true });
+		} else {
+			const inflate = createInflateRaw();
+			pipeline(data, inflate, () => {
+				// errors are forwarded to the inflate stream by pipeline
+			});
+			content = inflate.on('end', () => {
+				// force destroy on end (not destroyed by default on Node.js 12)
+				inflate.destroy();
+			});
+		}
+		if (start === undefined || end === undefined) {
+			return content;
+		}
+		return Readable.from(sliceStream(content, start, end), { objectMode: false, autoDestroy: true });
+	}
+
+	/**
+	 * Open file and serve deflated entries with the deflate content encoding when accepted
+	 *
+	 * @param path - file path
+	 * @param requestHeaders - request headers
+	 * @returns StorageInfo object
+	 */
+	override async open(
+		path: FilePath,
+		requestHeaders: StorageRequestHeaders,
+	): Promise<StorageInfo<GenericFileData<ArchiveFileDescriptor>>> {
+		const storageInfo = await super.open(path, requestHeaders);
+		const { attachedData, contentEncoding } = storageInfo;
+		const { fd: { entry } } = attachedData;
+		if (entry.compression !== 'deflate' || contentEncoding !== undefined) {
+			return storageInfo;
+		}
+		const [[encoding] = ['identity']] = acceptEncodings(
+			requestHeaders['accept-encoding'],
+			ENCODING_PREFERENCES,
+			IDENTITY_ENCODING_PREFERENCE,
+		);
+		if (encoding !== 'deflate') {
+			return { ...storageInfo, vary: 'Accept-Encoding' };
+		}
+		return {
+			...storageInfo,
+			attachedData: { ...attachedData, fd: { entry, deflate: true } },
+			size: ZLIB_HEADER.byteLength + entry.compressedSize + ADLER32_TRAILER_LENGTH,
+			vary: 'Accept-Encoding',
+			contentEncoding: 'deflate',
+		};
+	}
+
+	/**
+	 * Create the key used to cache the content hash (resolved path and content encoding)
+	 *
+	 * @param storageInfo - storage information
+	 * @returns the cache key
+	 */
+	// eslint-disable-next-line class-methods-use-this
+	override createContentHashCacheKey(storageInfo: StorageInfo<GenericFileData<ArchiveFileDescriptor>>) {
+		return JSON.stringify([storageInfo.attachedData.resolvedPath, storageInfo.contentEncoding]);
+	}
+
+	/**
+	 * Read the entries of the archive
+	 *
+	 * @param read - function reading bytes from the archive
+	 * @param archiveSize - archive size
+	 * @returns archive entries
+	 */
+	abstract readEntries(read: ArchiveReader, archiveSize: number): Promise<ArchiveEntry[]>;
+
+	/**
+	 * Read the offset of the entry data in the archive
+	 *
+	 * @param entry - archive entry
+	 * @returns the entry data offset
+	 */
+	abstract readDataOffset(entry: ArchiveIndexEntry): Promise<number>;
+}
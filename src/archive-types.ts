@@ -0,0 +1,97 @@
+import type { Readable } from 'stream';
+
+import type { GenericFileSystemStorageOptions } from './file-system-types';
+
+/**
+ * Archive entry read from an archive index (zip central directory or tar headers)
+ */
+export interface ArchiveEntry {
+	/**
+	 * Entry name in the archive (e.g. `'docs/index.html'`)
+	 */
+	name: string;
+	/**
+	 * True if the entry is a directory
+	 */
+	isDirectory: boolean;
+	/**
+	 * Modification time in milliseconds
+	 */
+	mtimeMs: number;
+	/**
+	 * Uncompressed size
+	 */
+	size: number;
+	/**
+	 * Compression method of the entry data
+	 */
+	compression: 'stored' | 'deflate';
+	/**
+	 * Size of the entry data in the archive
+	 */
+	compressedSize: number;
+	/**
+	 * Offset of the entry header in the archive
+	 */
+	headerOffset: number;
+}
+
+/**
+ * Archive entry with its location in the archive tree
+ */
+export interface ArchiveIndexEntry extends ArchiveEntry {
+	/**
+	 * Entry path from the archive root (e.g. `'/docs/index.html'`, `'/'` for the root directory)
+	 */
+	path: string;
+	/**
+	 * Directory entries by name (empty for files)
+	 */
+	children: Map<string, ArchiveIndexEntry>;
+	/**
+	 * Offset of the entry data in the archive (undefined until read from the entry header)
+	 */
+	dataOffset: number | undefined;
+}
+
+/**
+ * File descriptor used by archive storages
+ */
+export interface ArchiveFileDescriptor {
+	/**
+	 * Opened archive entry
+	 */
+	entry: ArchiveIndexEntry;
+	/**
+	 * True if the deflated entry data is served as is with the deflate content encoding
+	 */
+	deflate: boolean;
+}
+
+/**
+ * Entry written by createZipStream
+ */
+export interface ZipStreamEntry {
+	/**
+	 * Entry name in the archive (`'/'` separated, directory names end with `'/'`)
+	 */
+	name: string;
+	/**
+	 * Modification time in milliseconds
+	 */
+	mtimeMs: number;
+	/**
+	 * File size (0 for directories), the written content must have this size
+	 */
+	size: number;
+	/**
+	 * Create the readable stream of the file content (undefined for directories)
+	 */
+	createContent: (() => Promise<Readable>) | undefined;
+}
+
+/**
+ * Archive storage options
+ */
+// eslint-disable-next-line @typescript-eslint/no-type-alias
+export type ArchiveStorageOptions = Omit<GenericFileSystemStorageOptions<ArchiveFileDescriptor>, 'fsModule'>;
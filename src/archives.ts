@@ -0,0 +1,6 @@
+export * from './archive-types';
+export * from './archive-errors';
+export * from './archive-storage';
+export * from './zip-stream';
+export { ZipStorage } from './zip-storage';
+export { TarStorage } from './tar-storage';
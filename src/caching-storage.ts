@@ -0,0 +1,234 @@
+import type { Readable } from 'stream';
+
+import { Storage } from './storage';
+import { BufferStream } from './streams';
+import { LRUCache } from './lru-cache';
+import { StreamRange, readAll } from './utils';
+import type { StorageOptions, StorageRequestHeaders, StorageInfo } from './types';
+
+const DEFAULT_MAX_SIZE = 64 * 1024 * 1024;
+
+/**
+ * CachingStorage options
+ */
+export interface CachingStorageOptions extends StorageOptions {
+	/**
+	 * Maximum total size in bytes of the cached contents (bigger files are never cached)
+	 *
+	 * Defaults to 64 MiB
+	 */
+	maxSize?: number;
+	/**
+	 * Maximum number of cached contents
+	 *
+	 * Defaults to `Infinity`
+	 */
+	maxEntries?: number;
+	/**
+	 * Time to live of the cached contents in milliseconds
+	 *
+	 * Defaults to `Infinity`
+	 */
+	ttl?: number;
+}
+
+/**
+ * Cached data used by caching storage
+ */
+export interface CachedData<AttachedData> {
+	/**
+	 * Storage information from the wrapped storage
+	 */
+	storageInfo: StorageInfo<AttachedData>;
+	/**
+	 * Cached content (undefined if the content is not cached and will be read from the wrapped storage)
+	 */
+	content: Buffer | undefined;
+}
+
+/**
+ * Cached content with the information used to check its freshness
+ */
+interface CachedContent {
+	content: Buffer;
+	size: number;
+	mtimeMs: number;
+}
+
+/**
+ * Storage keeping the contents of a wrapped storage in memory
+ * (contents are refreshed when modification time or size change)
+ */
+export class CachingStorage<Reference, AttachedData> extends Storage<Reference, CachedData<AttachedData>> {
+	/**
+	 * Wrapped storage
+	 */
+	readonly storage: Storage<Reference, AttachedData>;
+
+	/**
+	 * Contents cache
+	 */
+	readonly cache: LRUCache<string, CachedContent>;
+
+	/**
+	 * Number of contents served from the cache
+	 */
+	hits = 0;
+
+	/**
+	 * Number of contents read from the wrapped storage
+	 */
+	misses = 0;
+
+	/**
+	 * Create caching storage
+	 *
+	 * @param storage - the storage to wrap
+	 * @param opts - caching storage options
+	 */
+	constructor(storage: Storage<Reference, AttachedData>, opts: CachingStorageOptions = {}) {
+		super(opts);
+		this.storage = storage;
+		this.cache = new LRUCache({
+			maxSize: opts.maxSize ?? DEFAULT_MAX_SIZE,
+			maxEntries: opts.maxEntries,
+			ttl: opts.ttl,
+			sizeOf: ({ size }) => size,
+		});
+	}
+
+	/**
+	 * Create the cache key from the reference and the wrapped storage information
+	 * (content hash cache key of the wrapped storage, e.g. the resolved path, or reference when the wrapped storage
+	 * has none, and content encoding serialized as JSON by default)
+	 *
+	 * @param reference - file reference
+	 * @param storageInfo - wrapped storage information
+	 * @returns the cache key
+	 */
+	createCacheKey(reference: Reference, storageInfo: StorageInfo<AttachedData>) {
+		const key = this.storage.createContentHashCacheKey(storageInfo);
+		return JSON.stringify([key === false ? reference : key, storageInfo.contentEncoding]);
+	}
+
+	/**
+	 * Create the key used to cache the content hash (delegated to the wrapped storage)
+	 *
+	 * @param storageInfo - storage information
+	 * @returns the cache key or false if the content hash should not be cached
+	 */
+	override createContentHashCacheKey(storageInfo: StorageInfo<CachedData<AttachedData>>) {
+		return this.storage.createContentHashCacheKey(storageInfo.attachedData.storageInfo);
+	}
+
+	/**
+	 * Get the url path of a file, used as key of the preloadAssets manifest (delegated to the wrapped storage)
+	 *
+	 * @param storageInfo - storage information
+	 * @returns the url path or undefined if the wrapped storage has no url paths
+	 */
+	override getPreloadAssetsPath(storageInfo: StorageInfo<CachedData<AttachedData>>) {
+		return this.storage.getPreloadAssetsPath(storageInfo.attachedData.storageInfo);
+	}
+
+	/**
+	 * Get content from cache or read it from the wrapped storage and cache it
+	 *
+	 * @param reference - file reference
+	 * @param storageInfo - wrapped storage information
+	 * @returns the content or undefined if it can not be cached
+	 */
+	async getContent(reference: Reference, storageInfo: StorageInfo<AttachedData>) {
+		const { size, mtimeMs } = storageInfo;
+		if (size === undefined || mtimeMs === undefined || size > this.cache.maxSize) {
+			return undefined;
+		}
+		const key = this.createCacheKey(reference, storageInfo);
+		const cached = this.cache.get(key);
+		if (cached && cached.size === size && cached.mtimeMs === mtimeMs) {
+			this.hits++;
+			return cached.content;
+		}
+		this.misses++;
+		const content = size === 0
+			? Buffer.alloc(0)
+			: await readAll(this.storage.createReadableStream(storageInfo, new StreamRange(0, size - 1), false));
+		if (content.byteLength !== size) {
+			// content changed while being read
+			this.cache.delete(key);
+			return undefined;
+		}
+		this.cache.set(key, { content, size, mtimeMs });
+		return content;
+	}
+
+	/**
+	 * Open file from the wrapped storage and retrieve its content from the cache when possible
+	 *
+	 * @param reference - file reference
+	 * @param requestHeaders - request headers
+	 * @returns StorageInfo object
+	 * @throws when the file can not be opened or read
+	 */
+	async open(
+		reference: Reference,
+		requestHeaders: StorageRequestHeaders,
+	): Promise<StorageInfo<CachedData<AttachedData>>> {
+		const storageInfo = await this.storage.open(reference, requestHeaders);
+		let content;
+		try {
+			content = await this.getContent(reference, storageInfo);
+		} catch (err: unknown) {
+			await this.storage.close(storageInfo);
+			throw err;
+		}
+		if (content) {
+			await this.storage.close(storageInfo);
+		}
+		return {
+			...storageInfo,
+			attachedData: { storageInfo, content },
+		};
+	}
+
+	/**
+	 * Create readable stream from the cached content or from the wrapped storage
+	 *
+	 * @param storageInfo - storage information
+	 * @param range - range to use or undefined if size is unknown
+	 * @param autoClose - true if stream should close itself
+	 * @returns readable stream
+	 */
+	createReadableStream(
+		storageInfo: StorageInfo<CachedData<AttachedData>>,
+		range: StreamRange | undefined,
+		autoClose: boolean,
+	): Readable {
+		const { attachedData: { storageInfo: wrappedStorageInfo, content } } = storageInfo;
+		if (!content) {
+			return this.storage.createReadableStream(wrappedStorageInfo, range, autoClose);
+		}
+		return new BufferStream(range ? content.subarray(range.start, range.end + 1) : content);
+	}
+
+	/**
+	 * Close the wrapped storage information (if the content is not cached)
+	 *
+	 * @param storageInfo - storage information
+	 */
+	async close(storageInfo: StorageInfo<CachedData<AttachedData>>): Promise<void> {
+		const { attachedData: { storageInfo: wrappedStorageInfo, content } } = storageInfo;
+		if (!content) {
+			await this.storage.close(wrappedStorageInfo);
+		}
+	}
+
+	/**
+	 * Delete all cached contents and reset hit/miss counters
+	 */
+	clear() {
+		this.cache.clear();
+		this.hits = 0;
+		this.misses = 0;
+	}
+}
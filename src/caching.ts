@@ -0,0 +1,4 @@
+export * from './lru-cache';
+export * from './compression-cache';
+export { CachingStorage } from './caching-storage';
+export type { CachingStorageOptions, CachedData } from './caching-storage';
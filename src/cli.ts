@@ -0,0 +1,115 @@
+import { relative } from 'path';
+
+import { precompress, formatContentEncodingMappings } from './precompress';
+import type { PrecompressOptions } from './precompress';
+
+const USAGE = `Usage: send-stream precompress <root> [options]
+
+Write pre-compressed files (.br, .gz and .zst) next to the compressible files of <root>
+and print the matching contentEncodingMappings configuration.
+
+Options:
+  --encodings <list>         comma separated encodings (br, gzip, zstd)
+  --min-length <bytes>       minimum file size to compress (defaults to 20)
+  --ignore-pattern <regexp>  pattern of the ignored file names (defaults to ^\\.)
+  --no-ignore-pattern        do not ignore any file
+`;
+
+/**
+ * Parse precompress command arguments
+ *
+ * @param args - command arguments (after the command name)
+ * @returns the root path and the precompress options
+ * @throws when the arguments are invalid
+ */
+function parsePrecompressArguments(args: readonly string[]) {
+	const opts: PrecompressOptions = {};
+	const roots: string[] = [];
+	const remainingArgs = [...args];
+	for (let arg = remainingArgs.shift(); arg !== undefined; arg = remainingArgs.shift()) {
+		if (arg === '--no-ignore-pattern') {
+			opts.ignorePattern = false;
+			continue;
+		}
+		if (!arg.startsWith('--')) {
+			roots.push(arg);
+			continue;
+		}
+		const value = remainingArgs.shift();
+		if (value === undefined) {
+			throw new Error(`missing value for ${ arg }`);
+		}
+		switch (arg) {
+		case '--encodings':
+			opts.encodings = value.split(',').map(encoding => encoding.trim());
+			break;
+		case '--min-length':
+			if (!/^\d+$/u.test(value)) {
+				throw new Error(`invalid value for --min-length: ${ value }`);
+			}
+			opts.dynamicCompressionMinLength = Number(value);
+			break;
+		case '--ignore-pattern':
+			opts.ignorePattern = value;
+			break;
+		default:
+			throw new Error(`unknown option ${ arg }`);
+		}
+	}
+	if (roots.length !== 1) {
+		throw new Error('precompress expects exactly one root folder');
+	}
+	const [root] = roots;
+	return { root, opts };
+}
+
+/**
+ * Run the precompress command and print the result
+ *
+ * @param args - command arguments (after the command name)
+ * @param stdout - output stream
+ */
+async function runPrecompress(args: readonly string[], stdout: NodeJS.WritableStream) {
+	const { root, opts } = parsePrecompressArguments(args);
+	const { files, contentEncodingMappings } = await precompress(root, opts);
+	for (const { compressedPath, size, compressedSize, status } of files) {
+		const sizes = compressedSize === undefined ? `${ size }` : `${ size } -> ${ compressedSize }`;
+		stdout.write(`${ status.padEnd(11) } ${ relative(root, compressedPath) } (${ sizes })\n`);
+	}
+	if (contentEncodingMappings.length === 0) {
+		stdout.write('\nNo pre-compressed files, contentEncodingMappings is not needed\n');
+		return;
+	}
+	stdout.write(`\nFileSystemStorage options:\n${ formatContentEncodingMappings(contentEncodingMappings) }\n`);
+}
+
+/**
+ * Run send-stream command line
+ *
+ * @param args - command line arguments (without node and script paths)
+ * @param stdout - output stream
+ * @param stderr - error stream
+ * @returns the exit code
+ */
+export async function runCli(
+	args: readonly string[],
+	stdout: NodeJS.WritableStream,
+	stderr: NodeJS.WritableStream,
+) {
+	const [command, ...commandArgs] = args;
+	if (command === '--help' || command === '-h') {
+		stdout.write(USAGE);
+		return 0;
+	}
+	if (command !== 'precompress') {
+		stderr.write(USAGE);
+		return 1;
+	}
+	try {
+		await runPrecompress(commandArgs, stdout);
+		return 0;
+	} catch (error: unknown) {
+		stderr.write(`send-stream: ${ (<Error> error).message }\n`);
+		return 1;
+	}
+}
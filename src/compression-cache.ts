@@ -0,0 +1,166 @@
+import { createHash } from 'crypto';
+import { createReadStream, promises as fsPromises } from 'fs';
+import { join } from 'path';
+
+import { BufferStream } from './streams';
+import { LRUCache } from './lru-cache';
+import { randomBytes } from './utils';
+import type { CompressionCache, CompressionCacheEntry } from './types';
+
+const DEFAULT_MAX_SIZE = 64 * 1024 * 1024;
+
+/**
+ * MemoryCompressionCache options
+ */
+export interface MemoryCompressionCacheOptions {
+	/**
+	 * Maximum total size in bytes of the compressed contents (bigger contents are never cached)
+	 *
+	 * Defaults to 64 MiB
+	 */
+	maxSize?: number;
+	/**
+	 * Maximum number of compressed contents
+	 *
+	 * Defaults to `Infinity`
+	 */
+	maxEntries?: number;
+	/**
+	 * Time to live of the compressed contents in milliseconds
+	 *
+	 * Defaults to `Infinity`
+	 */
+	ttl?: number;
+}
+
+/**
+ * Compression cache keeping the compressed contents in memory
+ */
+export class MemoryCompressionCache implements CompressionCache {
+	/**
+	 * Compressed contents (by key)
+	 */
+	readonly contents: LRUCache<string, Buffer>;
+
+	/**
+	 * Create memory compression cache
+	 *
+	 * @param opts - memory compression cache options
+	 */
+	constructor(opts: MemoryCompressionCacheOptions = {}) {
+		this.contents = new LRUCache({
+			maxSize: opts.maxSize ?? DEFAULT_MAX_SIZE,
+			maxEntries: opts.maxEntries,
+			ttl: opts.ttl,
+			sizeOf: content => content.byteLength,
+		});
+	}
+
+	/**
+	 * Get a compressed content
+	 *
+	 * @param key - cache key
+	 * @returns the compressed content or undefined if not cached
+	 */
+	// eslint-disable-next-line @typescript-eslint/require-await
+	async get(key: string): Promise<CompressionCacheEntry | undefined> {
+		const content = this.contents.get(key);
+		if (!content) {
+			return undefined;
+		}
+		return {
+			size: content.byteLength,
+			createReadableStream: range => new BufferStream(content.subarray(range.start, range.end + 1)),
+		};
+	}
+
+	/**
+	 * Store a compressed content
+	 *
+	 * @param key - cache key
+	 * @param content - compressed content
+	 */
+	// eslint-disable-next-line @typescript-eslint/require-await
+	async set(key: string, content: Buffer) {
+		this.contents.set(key, content);
+	}
+}
+
+/**
+ * Compression cache storing the compressed contents in a directory
+ * (files are never removed, the directory can be cleaned when the contents change)
+ */
+export class FileSystemCompressionCache implements CompressionCache {
+	/**
+	 * Directory of the compressed contents
+	 */
+	readonly directory: string;
+
+	/**
+	 * Create file system compression cache
+	 *
+	 * @param directory - directory of the compressed contents (created if missing)
+	 */
+	constructor(directory: string) {
+		this.directory = directory;
+	}
+
+	/**
+	 * Get the path of a compressed content
+	 *
+	 * @param key - cache key
+	 * @returns the file path
+	 */
+	getPath(key: string) {
+		return join(
+			this.directory,
+			createHash('sha1')
+				.update(key)
+				.digest('hex'),
+		);
+	}
+
+	/**
+	 * Get a compressed content
+	 *
+	 * @param key - cache key
+	 * @returns the compressed content or undefined if not cached
+	 * @throws when the file can not be read
+	 */
+	async get(key: string): Promise<CompressionCacheEntry | undefined> {
+		const path = this.getPath(key);
+		let size;
+		try {
+			({ size } = await fsPromises.stat(path));
+		} catch (error: unknown) {
+			if ((<NodeJS.ErrnoException> error).code === 'ENOENT') {
+				return undefined;
+			}
+			throw error;
+		}
+		return {
+			size,
+			createReadableStream: range => createReadStream(path, { start: range.start, end: range.end }),
+		};
+	}
+
+	/**
+	 * Store a compressed content (written to a temporary file then renamed)
+	 *
+	 * @param key - cache key
+	 * @param content - compressed content
+	 * @throws when the file can not be written
+	 */
+	async set(key: string, content: Buffer) {
+		const path = this.getPath(key);
+		const temporaryPath = `${ path }.${ (await randomBytes(8)).toString('hex') }.tmp`;
+		await fsPromises.mkdir(this.directory, { recursive: true });
+		await fsPromises.writeFile(temporaryPath, content);
+		try {
+			await fsPromises.rename(temporaryPath, path);
+		} catch (error: unknown) {
+			await fsPromises.unlink(temporaryPath);
+			throw error;
+		}
+	}
+}
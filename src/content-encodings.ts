@@ -0,0 +1,54 @@
+import type { ContentEncodingMapping, RegexpContentEncodingMapping } from './file-system-types';
+
+/**
+ * File extensions of the pre-compressed files by encoding
+ */
+export const PRECOMPRESSED_EXTENSIONS: Readonly<Record<string, string>> = {
+	br: '.br',
+	gzip: '.gz',
+	zstd: '.zst',
+};
+
+/**
+ * Create content encoding mapping with regexp matcher and encoding preferences
+ *
+ * @param encodingConfig - content encoding mapping
+ * @returns the content encoding mapping with regexp matcher
+ */
+export function createRegexpContentEncodingMapping(
+	encodingConfig: ContentEncodingMapping,
+): RegexpContentEncodingMapping {
+	const encodingPreferences = new Map(
+		encodingConfig.encodings.map(({ name, path }, order) => [name, { path, order }]),
+	);
+	let identityEncodingPreference = encodingPreferences.get('identity');
+	if (!identityEncodingPreference) {
+		identityEncodingPreference = { path: '$&', order: encodingConfig.encodings.length };
+		encodingPreferences.set('identity', identityEncodingPreference);
+	}
+	const matcher = encodingConfig.matcher instanceof RegExp
+		? encodingConfig.matcher
+		: new RegExp(encodingConfig.matcher, 'u');
+	return { matcher, encodingPreferences, identityEncodingPreference };
+}
+
+/**
+ * Create the content encoding mapping of the pre-compressed files next to the files (see precompressed option)
+ *
+ * @param precompressed - content encodings of the pre-compressed files
+ * @returns the content encoding mapping with regexp matcher or false if no content encoding is given
+ * @throws when a content encoding is not supported
+ */
+export function createPrecompressedContentEncodingMapping(precompressed: readonly string[] | false | undefined) {
+	return precompressed && precompressed.length > 0
+		? createRegexpContentEncodingMapping({
+			matcher: /^.+$/su,
+			encodings: precompressed.map(name => {
+				if (!Object.prototype.hasOwnProperty.call(PRECOMPRESSED_EXTENSIONS, name)) {
+					throw new Error(`${ name } is not supported as pre-compressed encoding`);
+				}
+				return { name, path: `$&${ PRECOMPRESSED_EXTENSIONS[name] }` };
+			}),
+		})
+		: false;
+}
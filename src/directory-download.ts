@@ -0,0 +1,146 @@
+import type { Stats } from 'fs';
+import { Readable } from 'stream';
+
+import type { StorageInfo } from './types';
+import { createZipStream } from './zip-stream';
+import { statDirectoryEntry } from './directory-listing-entries';
+import type { ZipStreamEntry } from './archive-types';
+import type { GenericFileData, DirectoryReader } from './file-system-types';
+
+/**
+ * Create the storage information of a directory downloaded as an archive
+ *
+ * @param pathParts - path parts of the directory
+ * @param resolvedPath - resolved path of the directory
+ * @param fd - closed file descriptor of the directory
+ * @param stats - stats of the directory
+ * @returns StorageInfo object
+ */
+export function createDirectoryDownloadStorageInfo<FileDescriptor>(
+	pathParts: readonly string[],
+	resolvedPath: string,
+	fd: FileDescriptor,
+	stats: Stats,
+): StorageInfo<GenericFileData<FileDescriptor>> {
+	return {
+		attachedData: {
+			pathParts,
+			resolvedPath,
+			fd,
+			stats,
+			directoryDownload: 'zip',
+		},
+		fileName: `${ pathParts.length > 1 ? pathParts[pathParts.length - 1] : '_' }.zip`,
+		mtimeMs: undefined,
+		size: undefined,
+		vary: undefined,
+		link: undefined,
+		contentEncoding: undefined,
+		mimeType: 'application/zip',
+		mimeTypeCharset: undefined,
+		lastModified: undefined,
+		etag: undefined,
+		cacheControl: undefined,
+		contentDispositionType: 'attachment',
+		contentDispositionFilename: undefined,
+	};
+}
+
+/**
+ * Create the readable stream of a file written in a directory archive
+ *
+ * @param reader - file system storage reading the directory
+ * @param resolvedPath - resolved path of the file
+ * @param size - file size when the file was listed (only this size is read)
+ * @returns readable stream
+ * @throws an Error when the file can not be opened anymore
+ */
+export async function createDirectoryArchiveFileStream<FileDescriptor>(
+	reader: DirectoryReader<FileDescriptor>,
+	resolvedPath: string,
+	size: number,
+) {
+	if (size === 0) {
+		return Readable.from([]);
+	}
+	const fd = await reader.safeOpen(resolvedPath);
+	if (fd === undefined) {
+		throw new Error(`${ resolvedPath } can not be opened`);
+	}
+	return reader.fsCreateReadStream(resolvedPath, { fd, autoClose: true, start: 0, end: size - 1 });
+}
+
+/**
+ * Async generator function to return the files of a directory tree as zip stream entries
+ * (files are skipped like in directory listings and links to parent directories are not followed)
+ *
+ * @param reader - file system storage reading the directory
+ * @param storageInfo - storage information of the directory
+ * @param prefix - prefix of the entry names (the directory name in the archive)
+ * @param ancestors - devices and inodes of the parent directories
+ * @yields zip stream entries
+ */
+export async function *getDirectoryArchiveEntries<FileDescriptor>(
+	reader: DirectoryReader<FileDescriptor>,
+	storageInfo: StorageInfo<GenericFileData<FileDescriptor>>,
+	prefix = '',
+	ancestors: ReadonlySet<string> = new Set(),
+): AsyncGenerator<ZipStreamEntry> {
+	const { attachedData } = storageInfo;
+	const { stats: { dev, ino }, pathParts } = attachedData;
+	// archive entries have no inode
+	const parents = ino === 0 ? ancestors : new Set([...ancestors, `${ dev }:${ ino }`]);
+	for await (const { dirent, resolvedPath } of reader.getDirectoryEntries(storageInfo)) {
+		// special files (fifos, sockets, ...) are not opened
+		if (!dirent.isFile() && !dirent.isDirectory() && !dirent.isSymbolicLink()) {
+			continue;
+		}
+		const stats = await statDirectoryEntry(reader, resolvedPath);
+		const name = `${ prefix }${ dirent.name }`;
+		if (stats?.isDirectory()) {
+			if (parents.has(`${ stats.dev }:${ stats.ino }`)) {
+				continue;
+			}
+			yield { name: `${ name }/`, mtimeMs: stats.mtimeMs, size: 0, createContent: undefined };
+			yield* getDirectoryArchiveEntries(
+				reader,
+				{
+					...storageInfo,
+					attachedData: {
+						...attachedData,
+						pathParts: [...pathParts, dirent.name],
+						resolvedPath,
+						stats,
+					},
+				},
+				`${ name }/`,
+				parents,
+			);
+		} else if (stats?.isFile()) {
+			const { size, mtimeMs } = stats;
+			yield {
+				name,
+				mtimeMs,
+				size,
+				createContent: async () => createDirectoryArchiveFileStream(reader, resolvedPath, size),
+			};
+		}
+	}
+}
+
+/**
+ * Create the readable stream of a directory downloaded as a zip archive
+ *
+ * @param reader - file system storage reading the directory
+ * @param storageInfo - storage information of the directory
+ * @returns readable stream
+ */
+export function createDirectoryArchiveStream<FileDescriptor>(
+	reader: DirectoryReader<FileDescriptor>,
+	storageInfo: StorageInfo<GenericFileData<FileDescriptor>>,
+) {
+	return Readable.from(
+		createZipStream(getDirectoryArchiveEntries(reader, storageInfo)),
+		{ objectMode: false, highWaterMark: 65_536, autoDestroy: true },
+	);
+}
@@ -0,0 +1,325 @@
+import { join } from 'path';
+
+import type { StorageRequestHeaders, StorageInfo } from './types';
+import { acceptMimeType } from './utils';
+import {
+	DIRECTORY_LISTING_MIME_TYPES,
+	DIRECTORY_LISTING_EXTENSIONS,
+	getDirectoryListingSort,
+	getDirectoryListingPageRange,
+	createDirectoryListingPage,
+	createDirectoryListingLinkHeader,
+	createDirectoryListingEtag,
+	compareDirectoryListingEntries,
+} from './directory-listing';
+import type {
+	FilePath,
+	GenericFileData,
+	DirectoryListingEntry,
+	DirectoryListingSort,
+	DirectoryEntry,
+	DirectoryReader,
+} from './file-system-types';
+
+/**
+ * Maximum number of directory listing entries whose stats are read concurrently
+ */
+const STAT_CONCURRENCY = 16;
+
+/**
+ * Get the directory listing format from the Accept header
+ *
+ * @param directoryListingFormats - directory listing formats
+ * @param requestHeaders - request headers
+ * @returns the directory listing format
+ */
+export function getDirectoryListingFormat(
+	directoryListingFormats: readonly ('html' | 'json' | 'text')[],
+	requestHeaders: StorageRequestHeaders,
+) {
+	if (directoryListingFormats.length === 1) {
+		return directoryListingFormats[0];
+	}
+	const mimeTypes = directoryListingFormats.map(format => DIRECTORY_LISTING_MIME_TYPES[format]);
+	// the accepted mime type is always one of the mime types of the formats
+	return directoryListingFormats[mimeTypes.indexOf(acceptMimeType(requestHeaders.accept, mimeTypes))];
+}
+
+/**
+ * Get the stats of a directory entry
+ *
+ * @param reader - file system storage reading the directory
+ * @param resolvedPath - resolved path of the directory entry
+ * @returns the stats or undefined if the entry can not be opened
+ */
+export async function statDirectoryEntry<FileDescriptor>(
+	reader: DirectoryReader<FileDescriptor>,
+	resolvedPath: string,
+) {
+	const fd = await reader.safeOpen(resolvedPath);
+	if (fd === undefined) {
+		return undefined;
+	}
+	try {
+		return await reader.stat(fd, resolvedPath);
+	} finally {
+		await reader.earlyClose(fd, resolvedPath);
+	}
+}
+
+/**
+ * Read the stats of directory listing entries (a limited number of entries are read concurrently)
+ *
+ * @param reader - file system storage reading the directory
+ * @param entries - directory listing entries
+ */
+async function statDirectoryListingEntries<FileDescriptor>(
+	reader: DirectoryReader<FileDescriptor>,
+	entries: readonly DirectoryListingEntry[],
+) {
+	for (let index = 0; index < entries.length; index += STAT_CONCURRENCY) {
+		// eslint-disable-next-line no-await-in-loop
+		await Promise.all(entries.slice(index, index + STAT_CONCURRENCY).map(async entry => {
+			entry.stats = await statDirectoryEntry(reader, entry.resolvedPath);
+		}));
+	}
+}
+
+/**
+ * Sort new directory listing entries with the already sorted ones and keep the first ones
+ * (the stats of the new entries are read first to sort by size or mtime)
+ *
+ * @param reader - file system storage reading the directory
+ * @param sortedEntries - already sorted entries
+ * @param newEntries - new entries
+ * @param sort - requested sort
+ * @param length - number of entries to keep
+ * @returns the first sorted entries
+ */
+async function sortDirectoryListingEntries<FileDescriptor>(
+	reader: DirectoryReader<FileDescriptor>,
+	sortedEntries: readonly DirectoryListingEntry[],
+	newEntries: readonly DirectoryListingEntry[],
+	sort: DirectoryListingSort,
+	length: number,
+) {
+	if (sort.by !== 'name') {
+		await statDirectoryListingEntries(reader, newEntries);
+	}
+	return [...sortedEntries, ...newEntries]
+		.sort((a, b) => compareDirectoryListingEntries(a, b, sort))
+		.slice(0, length);
+}
+
+/**
+ * Get storage information of the same directory in another root
+ *
+ * @param reader - file system storage reading the directory
+ * @param storageInfo - storage information of the directory
+ * @param root - other root directory
+ * @returns storage information or undefined if the directory does not exist in this root
+ * (or is forbidden by the symbolic links policy)
+ */
+export async function getDirectoryInRoot<FileDescriptor>(
+	reader: DirectoryReader<FileDescriptor>,
+	storageInfo: StorageInfo<GenericFileData<FileDescriptor>>,
+	root: string,
+): Promise<StorageInfo<GenericFileData<FileDescriptor>> | undefined> {
+	const { attachedData } = storageInfo;
+	const resolvedPath = join(root, ...attachedData.pathParts);
+	const fd = await reader.safeOpen(resolvedPath);
+	if (fd === undefined) {
+		return undefined;
+	}
+	let stats;
+	try {
+		stats = await reader.stat(fd, resolvedPath);
+	} finally {
+		await reader.earlyClose(fd, resolvedPath);
+	}
+	if (!stats.isDirectory() || !await reader.isSymlinkAllowed(root, resolvedPath)) {
+		return undefined;
+	}
+	return { ...storageInfo, attachedData: { ...attachedData, resolvedPath, fd, stats } };
+}
+
+/**
+ * Async generator function to return the files of a directory and of the same directory in the next roots
+ * (files of the first roots shadow the files with the same name of the next roots)
+ *
+ * @param reader - file system storage reading the directory
+ * @param storageInfo - storage information
+ * @yields directory entries with their root and resolved path
+ */
+export async function *readDirectories<FileDescriptor>(
+	reader: DirectoryReader<FileDescriptor>,
+	storageInfo: StorageInfo<GenericFileData<FileDescriptor>>,
+): AsyncGenerator<DirectoryEntry> {
+	const { attachedData: { pathParts, resolvedPath } } = storageInfo;
+	const { roots } = reader;
+	const rootIndex = roots.findIndex(root => join(root, ...pathParts) === resolvedPath);
+	const names = new Set<string>();
+	for (let index = rootIndex; index < roots.length; index++) {
+		const directoryStorageInfo = index === rootIndex
+			? storageInfo
+			// eslint-disable-next-line no-await-in-loop
+			: await getDirectoryInRoot(reader, storageInfo, roots[index]);
+		if (!directoryStorageInfo) {
+			continue;
+		}
+		const { attachedData: { resolvedPath: directoryPath } } = directoryStorageInfo;
+		// eslint-disable-next-line no-await-in-loop
+		for await (const file of await reader.opendir(directoryStorageInfo)) {
+			if (!names.has(file.name)) {
+				names.add(file.name);
+				yield { dirent: file, root: roots[index], resolvedPath: join(directoryPath, file.name) };
+			}
+		}
+	}
+}
+
+/**
+ * Get the modification time of a directory (the latest one of the same directory in all the roots)
+ *
+ * @param reader - file system storage reading the directory
+ * @param storageInfo - storage information
+ * @returns the modification time in milliseconds
+ */
+export async function getDirectoryMtimeMs<FileDescriptor>(
+	reader: DirectoryReader<FileDescriptor>,
+	storageInfo: StorageInfo<GenericFileData<FileDescriptor>>,
+) {
+	const { attachedData: { pathParts, resolvedPath, stats } } = storageInfo;
+	const { roots } = reader;
+	const rootIndex = roots.findIndex(root => join(root, ...pathParts) === resolvedPath);
+	let { mtimeMs } = stats;
+	for (const root of roots.slice(rootIndex + 1)) {
+		// eslint-disable-next-line no-await-in-loop
+		const directoryStorageInfo = await getDirectoryInRoot(reader, storageInfo, root);
+		if (directoryStorageInfo) {
+			mtimeMs = Math.max(mtimeMs, directoryStorageInfo.attachedData.stats.mtimeMs);
+		}
+	}
+	return mtimeMs;
+}
+
+/**
+ * Get the listed files of a directory with their stats, sorted when a sort is requested
+ * (in directory order otherwise) and limited to the requested page
+ * (the entries read when the directory listing was opened are returned if any)
+ *
+ * @param reader - file system storage reading the directory
+ * @param storageInfo - storage information
+ * @param withStats - true if the stats of the files are needed (they are always read to sort by size or mtime)
+ * @returns directory listing entries
+ */
+export async function getDirectoryListingEntries<FileDescriptor>(
+	reader: DirectoryReader<FileDescriptor>,
+	storageInfo: StorageInfo<GenericFileData<FileDescriptor>>,
+	withStats: boolean,
+) {
+	const {
+		attachedData: { directoryListingSort: sort, directoryListingPage: page, directoryListingEntries },
+	} = storageInfo;
+	if (directoryListingEntries) {
+		return directoryListingEntries;
+	}
+	const sortWithStats = sort !== undefined && sort.by !== 'name';
+	const keptLength = page?.limit === undefined ? Number.POSITIVE_INFINITY : page.offset + page.limit;
+	let entries: DirectoryListingEntry[] = [];
+	let unsortedEntries: DirectoryListingEntry[] = [];
+	let skipped = 0;
+	for await (const { dirent, resolvedPath } of reader.getDirectoryEntries(storageInfo)) {
+		// without sort, the files out of the page are not read
+		if (!sort && page && skipped < page.offset) {
+			skipped++;
+			continue;
+		}
+		if (!sort && page?.limit !== undefined && entries.length === page.limit) {
+			break;
+		}
+		const entry = { name: dirent.name, resolvedPath, isDirectory: dirent.isDirectory(), stats: undefined };
+		if (!sort) {
+			entries.push(entry);
+			continue;
+		}
+		unsortedEntries.push(entry);
+		// the sorted entries after the page are dropped while reading the directory
+		if (unsortedEntries.length >= Math.max(keptLength, STAT_CONCURRENCY)) {
+			entries = await sortDirectoryListingEntries(reader, entries, unsortedEntries, sort, keptLength);
+			unsortedEntries = [];
+		}
+	}
+	if (sort) {
+		entries = await sortDirectoryListingEntries(reader, entries, unsortedEntries, sort, keptLength);
+		if (page) {
+			entries = entries.slice(page.offset);
+		}
+	}
+	if (withStats && !sortWithStats) {
+		await statDirectoryListingEntries(reader, entries);
+	}
+	return entries;
+}
+
+/**
+ * Create the storage information of a directory listing
+ * (with the requested format, sort and page, the listed entries, the Link header, the modification time and the etag)
+ *
+ * @param reader - file system storage reading the directory
+ * @param directoryData - path parts, resolved path, closed file descriptor and stats of the directory
+ * @param path - requested path
+ * @param requestHeaders - request headers
+ * @returns StorageInfo object
+ */
+export async function createDirectoryListingStorageInfo<FileDescriptor>(
+	reader: DirectoryReader<FileDescriptor>,
+	directoryData: GenericFileData<FileDescriptor>,
+	path: FilePath,
+	requestHeaders: StorageRequestHeaders,
+) {
+	const { directoryListingFormats, directoryListingPageSize } = reader;
+	const { pathParts } = directoryData;
+	const directoryListingFormat = getDirectoryListingFormat(directoryListingFormats, requestHeaders);
+	const attachedData: GenericFileData<FileDescriptor> = {
+		...directoryData,
+		directoryListingFormat,
+		directoryListingSort: getDirectoryListingSort(path),
+	};
+	const storageInfo: StorageInfo<GenericFileData<FileDescriptor>> = {
+		attachedData,
+		fileName: `${
+			pathParts.length > 1 ? pathParts[pathParts.length - 1] : '_'
+		}${
+			DIRECTORY_LISTING_EXTENSIONS[directoryListingFormat]
+		}`,
+		mtimeMs: undefined,
+		size: undefined,
+		vary: directoryListingFormats.length > 1 ? 'Accept' : undefined,
+		link: undefined,
+		contentEncoding: undefined,
+		mimeType: DIRECTORY_LISTING_MIME_TYPES[directoryListingFormat],
+		mimeTypeCharset: 'UTF-8',
+		lastModified: undefined,
+		etag: undefined,
+		cacheControl: undefined,
+		contentDispositionType: undefined,
+		contentDispositionFilename: undefined,
+	};
+	const pageRange = getDirectoryListingPageRange(path, directoryListingPageSize);
+	if (pageRange) {
+		const entries = reader.getDirectoryEntries(storageInfo);
+		attachedData.directoryListingPage = await createDirectoryListingPage(path, pageRange, entries);
+		storageInfo.link = createDirectoryListingLinkHeader(attachedData.directoryListingPage);
+	}
+	const listedEntries = await getDirectoryListingEntries(reader, storageInfo, directoryListingFormat !== 'text');
+	attachedData.directoryListingEntries = listedEntries;
+	// the modification times of the listed entries are included since they are listed
+	const mtimeMs = listedEntries.reduce(
+		(max, { stats }) => Math.max(max, stats?.mtimeMs ?? 0),
+		await getDirectoryMtimeMs(reader, storageInfo),
+	);
+	storageInfo.mtimeMs = mtimeMs;
+	storageInfo.etag = createDirectoryListingEtag(mtimeMs, attachedData);
+	return storageInfo;
+}
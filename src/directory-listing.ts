@@ -0,0 +1,425 @@
+import { createHash } from 'crypto';
+// eslint-disable-next-line node/prefer-global/url-search-params
+import { URLSearchParams } from 'url';
+
+import { millisecondsToUTCString } from './utils';
+import type {
+	FilePath,
+	DirectoryListingEntry,
+	DirectoryListingSort,
+	DirectoryListingPage,
+} from './file-system-types';
+
+/**
+ * Escape HTML in path for this library (only replace & character since ", < and > are already excluded)
+ *
+ * @param path - the path to escape
+ * @returns the escaped path
+ */
+export function escapeHTMLInPath(path: string) {
+	// & is the only character to escape. '<', '>' and '"' are already excluded from listing
+	return path.replace(/&/ug, '&amp;');
+}
+
+/**
+ * Mime types of the directory listing formats
+ */
+export const DIRECTORY_LISTING_MIME_TYPES: Readonly<Record<string, string>> = {
+	html: 'text/html',
+	json: 'application/json',
+	text: 'text/plain',
+};
+
+/**
+ * File extensions of the directory listing formats
+ */
+export const DIRECTORY_LISTING_EXTENSIONS: Readonly<Record<string, string>> = {
+	html: '.html',
+	json: '.json',
+	text: '.txt',
+};
+
+/**
+ * Check the directory listing formats option
+ *
+ * @param formats - directory listing formats option
+ * @returns the directory listing formats (html if the option is not given)
+ * @throws when no format is given or when a format is not supported
+ */
+export function checkDirectoryListingFormats(formats: readonly ('html' | 'json' | 'text')[] | undefined) {
+	const directoryListingFormats = formats ? [...formats] : <('html' | 'json' | 'text')[]> ['html'];
+	if (directoryListingFormats.length === 0) {
+		throw new Error('at least one directory listing format is required');
+	}
+	for (const format of directoryListingFormats) {
+		if (!Object.prototype.hasOwnProperty.call(DIRECTORY_LISTING_MIME_TYPES, format)) {
+			throw new Error(`${ String(format) } is not supported as directory listing format`);
+		}
+	}
+	return directoryListingFormats;
+}
+
+/**
+ * Check the directory listing page size option
+ *
+ * @param pageSize - directory listing page size option
+ * @returns the page size (false if the option is not given)
+ * @throws when the page size is not a positive integer
+ */
+export function checkDirectoryListingPageSize(pageSize: number | false | undefined) {
+	if (pageSize !== undefined && pageSize !== false && (!Number.isInteger(pageSize) || pageSize <= 0)) {
+		throw new Error('directory listing page size must be a positive integer');
+	}
+	return pageSize ?? false;
+}
+
+/**
+ * Directory listing sort keys
+ */
+const DIRECTORY_LISTING_SORT_KEYS: readonly DirectoryListingSort['by'][] = ['name', 'size', 'mtime'];
+
+/**
+ * Style of the default directory listing template
+ */
+const DIRECTORY_LISTING_STYLE = 'body{font-family:sans-serif}table{border-collapse:collapse}'
+	+ 'th,td{padding:.25em 1em;text-align:left}'
+	+ 'tr.directory td:first-child a::before{content:"\\1F4C1  "}'
+	+ 'tr.file td:first-child a::before{content:"\\1F4C4  "}';
+
+/**
+ * Get the query string of a path
+ *
+ * @param path - url encoded path or path parts
+ * @returns the query string (starting with '?') or an empty string
+ */
+export function getQueryString(path: FilePath) {
+	const queryIndex = typeof path === 'string' ? path.indexOf('?') : -1;
+	return queryIndex === -1 ? '' : (<string> path).slice(queryIndex);
+}
+
+/**
+ * Get the directory listing sort from the sort and order query parameters of a path
+ *
+ * @param path - url encoded path or path parts
+ * @returns the directory listing sort or undefined if no valid sort is requested
+ */
+export function getDirectoryListingSort(path: FilePath): DirectoryListingSort | undefined {
+	if (typeof path !== 'string') {
+		return undefined;
+	}
+	const queryIndex = path.indexOf('?');
+	if (queryIndex === -1) {
+		return undefined;
+	}
+	const query = new URLSearchParams(path.slice(queryIndex));
+	const by = DIRECTORY_LISTING_SORT_KEYS.find(key => key === query.get('sort'));
+	if (!by) {
+		return undefined;
+	}
+	return { by, order: query.get('order') === 'desc' ? 'desc' : 'asc' };
+}
+
+/**
+ * Get the archive format requested with the download query parameter of a path
+ *
+ * @param path - url encoded path or path parts
+ * @returns the archive format or undefined if the directory is not downloaded
+ */
+export function getDirectoryDownloadFormat(path: FilePath): 'zip' | undefined {
+	return new URLSearchParams(getQueryString(path)).get('download') === 'zip' ? 'zip' : undefined;
+}
+
+/**
+ * Get the directory listing page range from the offset and limit query parameters of a path
+ * (invalid values are ignored and the limit is capped by the page size)
+ *
+ * @param path - url encoded path or path parts
+ * @param pageSize - default and maximum number of files per page (or false if unlimited)
+ * @returns the offset and limit of the page or undefined if all the files should be listed
+ */
+export function getDirectoryListingPageRange(
+	path: FilePath,
+	pageSize: number | false,
+): { offset: number; limit: number | undefined } | undefined {
+	const query = new URLSearchParams(getQueryString(path));
+	const offsetParameter = query.get('offset');
+	const limitParameter = query.get('limit');
+	const offset = offsetParameter !== null && /^\d+$/u.test(offsetParameter) ? Number(offsetParameter) : 0;
+	let limit = limitParameter !== null && /^[1-9]\d*$/u.test(limitParameter) ? Number(limitParameter) : undefined;
+	if (pageSize !== false && (limit === undefined || limit > pageSize)) {
+		limit = pageSize;
+	}
+	if (offset === 0 && limit === undefined) {
+		return undefined;
+	}
+	return { offset, limit };
+}
+
+/**
+ * Create the url of a directory listing page relative to the directory url
+ * (the other query parameters of the path are kept)
+ *
+ * @param path - url encoded path or path parts
+ * @param offset - number of skipped files
+ * @param limit - maximum number of listed files (or undefined if unlimited)
+ * @returns the url of the page (query string only)
+ */
+function createDirectoryListingPageUrl(path: FilePath, offset: number, limit: number | undefined) {
+	const query = new URLSearchParams(getQueryString(path));
+	query.set('offset', String(offset));
+	if (limit === undefined) {
+		query.delete('limit');
+	} else {
+		query.set('limit', String(limit));
+	}
+	return `?${ query.toString() }`;
+}
+
+/**
+ * Check if an async iterable has more entries than a given count (stops iterating once found)
+ *
+ * @param entries - async iterable
+ * @param count - number of entries
+ * @returns true if there are more entries than count
+ */
+async function hasMoreEntries(entries: AsyncIterable<unknown>, count: number) {
+	const iterator = entries[Symbol.asyncIterator]();
+	try {
+		for (let index = 0; index <= count; index++) {
+			// eslint-disable-next-line no-await-in-loop
+			if ((await iterator.next()).done) {
+				return false;
+			}
+		}
+		return true;
+	} finally {
+		await iterator.return?.();
+	}
+}
+
+/**
+ * Create a directory listing page with the urls of the previous and next pages
+ *
+ * @param path - url encoded path or path parts
+ * @param pageRange - offset and limit of the page
+ * @param pageRange.offset - number of skipped files
+ * @param pageRange.limit - maximum number of listed files (or undefined if unlimited)
+ * @param entries - listed files of the directory (only read to find out if there is a next page)
+ * @returns the directory listing page
+ */
+export async function createDirectoryListingPage(
+	path: FilePath,
+	{ offset, limit }: { offset: number; limit: number | undefined },
+	entries: AsyncIterable<unknown>,
+): Promise<DirectoryListingPage> {
+	const hasNext = limit !== undefined && await hasMoreEntries(entries, offset + limit);
+	return {
+		offset,
+		limit,
+		previous: offset > 0
+			? createDirectoryListingPageUrl(path, limit === undefined ? 0 : Math.max(0, offset - limit), limit)
+			: undefined,
+		next: hasNext && limit !== undefined
+			? createDirectoryListingPageUrl(path, offset + limit, limit)
+			: undefined,
+	};
+}
+
+/**
+ * Create the Link header of a directory listing page
+ *
+ * @param page - directory listing page
+ * @returns the Link header with the previous and next pages or undefined if there is none
+ */
+export function createDirectoryListingLinkHeader(page: DirectoryListingPage) {
+	const links = [];
+	if (page.previous !== undefined) {
+		links.push(`<${ page.previous }>; rel="prev"`);
+	}
+	if (page.next !== undefined) {
+		links.push(`<${ page.next }>; rel="next"`);
+	}
+	return links.length > 0 ? links.join(', ') : undefined;
+}
+
+/**
+ * Compare directory listing entries (by name when the sort keys are equal, directories are smaller than files by size)
+ *
+ * @param a - first entry
+ * @param b - second entry
+ * @param sort - directory listing sort
+ * @returns negative if a is before b, positive if a is after b
+ */
+export function compareDirectoryListingEntries(
+	a: DirectoryListingEntry,
+	b: DirectoryListingEntry,
+	sort: DirectoryListingSort,
+) {
+	let diff = 0;
+	if (sort.by === 'size') {
+		diff = (a.isDirectory ? -1 : a.stats?.size ?? -1) - (b.isDirectory ? -1 : b.stats?.size ?? -1);
+	} else if (sort.by === 'mtime') {
+		diff = (a.stats?.mtimeMs ?? 0) - (b.stats?.mtimeMs ?? 0);
+	}
+	if (diff === 0 && a.name !== b.name) {
+		diff = a.name < b.name ? -1 : 1;
+	}
+	return sort.order === 'desc' ? -diff : diff;
+}
+
+/**
+ * Create the weak ETag of a directory listing from the modification time of the directory
+ * (the format, sort and page are included since they change the content, as well as a hash of the names, sizes and
+ * modification times of the listed entries since the directory modification time does not change with them)
+ *
+ * @param mtimeMs - directory modification time in milliseconds
+ * @param attachedData - directory listing format, sort, page and entries
+ * @param attachedData.directoryListingFormat - directory listing format
+ * @param attachedData.directoryListingSort - directory listing sort
+ * @param attachedData.directoryListingPage - directory listing page
+ * @param attachedData.directoryListingEntries - listed entries
+ * @returns the etag
+ */
+export function createDirectoryListingEtag(
+	mtimeMs: number,
+	{ directoryListingFormat, directoryListingSort, directoryListingPage, directoryListingEntries }: {
+		directoryListingFormat?: string;
+		directoryListingSort?: DirectoryListingSort;
+		directoryListingPage?: DirectoryListingPage;
+		directoryListingEntries?: readonly DirectoryListingEntry[];
+	},
+) {
+	const parts = [Math.floor(mtimeMs * 1000).toString(16), directoryListingFormat ?? 'html'];
+	if (directoryListingSort) {
+		parts.push(directoryListingSort.by, directoryListingSort.order);
+	}
+	if (directoryListingPage) {
+		parts.push(String(directoryListingPage.offset), String(directoryListingPage.limit ?? ''));
+	}
+	if (directoryListingEntries) {
+		parts.push(
+			createHash('sha1')
+				.update(JSON.stringify(directoryListingEntries.map(
+					({ name, isDirectory, stats }) => [name, isDirectory, stats?.size, stats?.mtimeMs],
+				)))
+				.digest('hex')
+				.slice(0, 16),
+		);
+	}
+	return `W/"${ parts.join('-') }"`;
+}
+
+/**
+ * Render the JSON directory listing
+ * (name, type, size, mtime and mimeType of each file, size and mimeType are null for directories)
+ *
+ * @param entries - directory listing entries with their stats
+ * @param mimeTypeLookup - function returning the mime type of a file name
+ * @returns json
+ */
+export function renderDirectoryListingJSON(
+	entries: readonly DirectoryListingEntry[],
+	mimeTypeLookup: (name: string) => string | false,
+) {
+	return JSON.stringify(entries.map(({ name, isDirectory, stats }) => ({
+		name,
+		type: isDirectory ? 'directory' : 'file',
+		size: isDirectory || !stats ? null : stats.size,
+		mtime: stats ? new Date(stats.mtimeMs).toISOString() : null,
+		mimeType: isDirectory ? null : mimeTypeLookup(name) || null,
+	})));
+}
+
+/**
+ * Format a file size for directory listings
+ *
+ * @param size - size in bytes
+ * @returns the formatted size
+ */
+export function formatSize(size: number) {
+	const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
+	let value = size;
+	let unitIndex = 0;
+	while (value >= 1024 && unitIndex < units.length - 1) {
+		value /= 1024;
+		unitIndex++;
+	}
+	return `${ unitIndex === 0 ? String(value) : value.toFixed(1) } ${ units[unitIndex] }`;
+}
+
+/**
+ * Render the default HTML directory listing template
+ * with breadcrumbs, sizes, modification dates and links to sort by name, size or modification date
+ *
+ * @param pathParts - path parts of the directory
+ * @param entries - directory listing entries with their stats
+ * @param sort - requested sort (or undefined if the entries are in directory order)
+ * @param page - requested page (or undefined if all the entries are listed)
+ * @returns html
+ */
+export function renderDirectoryListingHTML(
+	pathParts: readonly string[],
+	entries: readonly DirectoryListingEntry[],
+	sort: DirectoryListingSort | undefined,
+	page?: DirectoryListingPage,
+) {
+	const isNotRoot = pathParts.length > 1;
+	const displayName = isNotRoot ? escapeHTMLInPath(pathParts[pathParts.length - 1]) : '/';
+	const display = `${ isNotRoot ? escapeHTMLInPath(pathParts.join('/')) : '' }/`;
+
+	// breadcrumbs links are relative to the directory url
+	const depth = pathParts.length - 1;
+	const breadcrumbs = pathParts.map((part, index) => {
+		const href = index === depth ? './' : '../'.repeat(depth - index);
+		return `<a href="${ href }">${ index === 0 ? '/' : `${ escapeHTMLInPath(part) }/` }</a>`;
+	}).join('');
+
+	const sortHeader = (by: DirectoryListingSort['by'], label: string) => {
+		if (sort?.by !== by) {
+			return `<th><a href="?sort=${ by }&amp;order=asc">${ label }</a></th>`;
+		}
+		return `<th aria-sort="${ sort.order === 'asc' ? 'ascending' : 'descending' }"><a href="?sort=${
+			by
+		}&amp;order=${ sort.order === 'asc' ? 'desc' : 'asc' }">${ label }</a></th>`;
+	};
+
+	const pagination = page && (page.previous !== undefined || page.next !== undefined)
+		? `<nav aria-label="Pagination">${
+			page.previous === undefined ? '' : `<a href="${ escapeHTMLInPath(page.previous) }" rel="prev">Previous</a> `
+		}${
+			page.next === undefined ? '' : `<a href="${ escapeHTMLInPath(page.next) }" rel="next">Next</a>`
+		}</nav>`
+		: '';
+
+	const rows = entries.map(({ name, isDirectory, stats }) => {
+		const escapedFilename = `${ escapeHTMLInPath(name) }${ isDirectory ? '/' : '' }`;
+		const href = escapeHTMLInPath(`./${ encodeURIComponent(name) }${ isDirectory ? '/' : '' }`);
+		const size = stats && !isDirectory ? escapeHTMLInPath(formatSize(stats.size)) : '-';
+		const mtime = stats ? escapeHTMLInPath(millisecondsToUTCString(stats.mtimeMs)) : '-';
+		return `<tr class="${ isDirectory ? 'directory' : 'file' }"><td><a href="${ href }">${
+			escapedFilename
+		}</a></td><td>${ size }</td><td>${ mtime }</td></tr>`;
+	}).join('');
+
+	return `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><title>${
+		displayName
+	}</title><meta name="viewport" content="width=device-width"><meta name="description" content="Content of ${
+		display
+	} directory"><style>${
+		DIRECTORY_LISTING_STYLE
+	}</style></head><body><h1>Directory: <nav aria-label="Breadcrumbs">${
+		breadcrumbs
+	}</nav></h1><table><thead><tr>${
+		sortHeader('name', 'Name')
+	}${
+		sortHeader('size', 'Size')
+	}${
+		sortHeader('mtime', 'Modified')
+	}</tr></thead><tbody>${
+		isNotRoot ? '<tr class="directory"><td><a href="..">..</a></td><td>-</td><td>-</td></tr>' : ''
+	}${
+		rows
+	}</tbody></table>${
+		pagination
+	}</body></html>`;
+}
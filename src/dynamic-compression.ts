@@ -0,0 +1,153 @@
+import type { Readable } from 'stream';
+import { pipeline, Transform } from 'stream';
+import * as zlib from 'zlib';
+
+import type {
+	StorageOptions,
+	DynamicCompressionEncodingOptions,
+	ZstdCompressOptions,
+	CompressionCache,
+} from './types';
+
+/**
+ * Merge compression options (params are merged too)
+ *
+ * @param defaults - default compression options
+ * @param overrides - compression options overrides, ordered by priority
+ * @returns merged compression options
+ */
+function mergeCompressionOptions<T extends zlib.ZlibOptions | zlib.BrotliOptions | ZstdCompressOptions>(
+	defaults: T,
+	overrides: readonly (T | undefined)[],
+) {
+	let merged = defaults;
+	for (const override of overrides) {
+		if (override) {
+			const { params } = <ZstdCompressOptions> merged;
+			const { params: overrideParams } = <ZstdCompressOptions> override;
+			merged = { ...merged, ...override, params: { ...params, ...overrideParams } };
+		}
+	}
+	return merged;
+}
+
+/**
+ * Compress a stream with gzip, brotli or zstd
+ *
+ * @param stream - stream to compress
+ * @param contentEncoding - 'br' for brotli encoding, 'gzip' for gzip encoding or 'zstd' for zstd encoding
+ * (when available), other values are not supported
+ * @param compressionOptions - dynamic compression options, ordered by priority
+ * @param zstdCompress - zstd compression stream function (undefined if zstd compression is not available)
+ * @param [expectedSize] - expected stream size
+ * @returns compressed stream
+ * @throws if content encoding is not supported
+ */
+export function compressStream(
+	stream: Readable,
+	contentEncoding: string,
+	compressionOptions: readonly DynamicCompressionEncodingOptions[],
+	zstdCompress: StorageOptions['zstdCompress'],
+	expectedSize?: number,
+) {
+	switch (contentEncoding) {
+	case 'br': {
+		const res = pipeline(
+			stream,
+			zlib.createBrotliCompress(mergeCompressionOptions<zlib.BrotliOptions>(
+				{
+					params: {
+						[zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
+						[zlib.constants.BROTLI_PARAM_QUALITY]: 4,
+						[zlib.constants.BROTLI_PARAM_SIZE_HINT]: expectedSize ?? 0,
+					},
+				},
+				compressionOptions.map(({ br }) => br),
+			)),
+			err => {
+				if (err) {
+					console.error('Broti compress failed.', err);
+				}
+			},
+		);
+		return res.on('end', () => {
+			// force destroy on end
+			res.destroy();
+		});
+	}
+	case 'gzip': {
+		const res = pipeline(
+			stream,
+			zlib.createGzip(mergeCompressionOptions<zlib.ZlibOptions>(
+				{ level: 6 },
+				compressionOptions.map(({ gzip }) => gzip),
+			)),
+			err => {
+				if (err) {
+					console.error('Gzip failed.', err);
+				}
+			},
+		);
+		return res.on('end', () => {
+			// force destroy on end
+			res.destroy();
+		});
+	}
+	case 'zstd': {
+		if (!zstdCompress) {
+			throw new Error('zstd compression is not available (you can use zstdCompress option to handle it)');
+		}
+		const res = pipeline(
+			stream,
+			zstdCompress(expectedSize, mergeCompressionOptions({}, compressionOptions.map(({ zstd }) => zstd))),
+			err => {
+				if (err) {
+					console.error('Zstd compress failed.', err);
+				}
+			},
+		);
+		return res.on('end', () => {
+			// force destroy on end
+			res.destroy();
+		});
+	}
+	default:
+		throw new Error(`${
+			contentEncoding
+		} is not supported as dynamic compression encoding (you can override createCompressedStream to handle it)`);
+	}
+}
+
+/**
+ * Create a stream storing the compressed content in the compression cache once fully read
+ *
+ * @param stream - compressed stream
+ * @param compressionCache - compression cache
+ * @param key - compression cache key
+ * @returns the compressed stream
+ */
+export function cacheCompressedStream(stream: Readable, compressionCache: CompressionCache, key: string) {
+	const chunks: Buffer[] = [];
+	const res = pipeline(
+		stream,
+		new Transform({
+			transform(chunk: Buffer, _encoding, callback) {
+				chunks.push(chunk);
+				callback(null, chunk);
+			},
+			flush(callback) {
+				compressionCache.set(key, Buffer.concat(chunks)).catch(err => {
+					console.error('Compression cache failed.', err);
+				});
+				callback();
+			},
+		}),
+		() => {
+			// errors are already logged by compressed stream
+		},
+	);
+	return res.on('end', () => {
+		// force destroy on end
+		res.destroy();
+	});
+}
@@ -0,0 +1,87 @@
+import * as http from 'http';
+
+import type { StorageError } from './error';
+
+/**
+ * Status codes of the storage errors by error name used when the errorStatusCodes option is true
+ * (malformed paths are Bad Request errors and ignored files are Forbidden errors)
+ */
+export const DEFAULT_ERROR_STATUS_CODES: Readonly<Record<string, number>> = {
+	/* eslint-disable @typescript-eslint/naming-convention */
+	MalformedPathError: 400,
+	InvalidPathError: 400,
+	ConsecutiveSlashesError: 400,
+	ForbiddenCharacterError: 400,
+	S3KeyNotNormalizedError: 400,
+	IgnoredFileError: 403,
+	ForbiddenSymlinkError: 403,
+	DoesNotExistError: 404,
+	/* eslint-enable @typescript-eslint/naming-convention */
+};
+
+/**
+ * Mime types of the error response formats
+ */
+export const ERROR_FORMAT_MIME_TYPES: Readonly<Record<string, string>> = {
+	text: 'text/plain',
+	html: 'text/html',
+	json: 'application/problem+json',
+};
+
+/**
+ * Get the status message of a status code
+ *
+ * @param statusCode - status code
+ * @returns the status message
+ */
+function getStatusMessage(statusCode: number) {
+	return http.STATUS_CODES[statusCode] ?? 'Error';
+}
+
+/**
+ * Render an error response body as plain text (the status message)
+ *
+ * @param statusCode - status code
+ * @returns the text
+ */
+export function renderErrorText(statusCode: number) {
+	return getStatusMessage(statusCode);
+}
+
+/**
+ * Render an error response body as HTML
+ *
+ * @param statusCode - status code
+ * @returns the html
+ */
+export function renderErrorHTML(statusCode: number) {
+	const title = `${ statusCode } ${ getStatusMessage(statusCode) }`;
+	return `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><title>${
+		title
+	}</title></head><body><h1>${
+		title
+	}</h1></body></html>`;
+}
+
+/**
+ * Render an error response body as JSON problem details (RFC 9457)
+ * (the detail of the storage errors is the error name to not disclose the resolved paths of the error messages)
+ *
+ * @param statusCode - status code
+ * @param error - the error causing the response
+ * @param [detail] - detail of the responses without error (Method Not Allowed, Precondition Failed
+ * and Range Not Satisfiable errors)
+ * @returns the json
+ */
+export function renderErrorProblemDetails(
+	statusCode: number,
+	error: StorageError<unknown> | undefined,
+	detail?: string,
+) {
+	return JSON.stringify({
+		type: 'about:blank',
+		title: getStatusMessage(statusCode),
+		status: statusCode,
+		detail: error ? error.name : detail,
+	});
+}
@@ -20,3 +20,33 @@ export class StorageError<T> extends Error {
 		this.reference = reference;
 	}
 }
+
+/**
+ * Redirect error (the storage responds with a redirection to another location instead of the requested resource)
+ */
+export class RedirectError<T> extends StorageError<T> {
+	/**
+	 * Redirect location (url encoded, relative to the requested url)
+	 */
+	readonly location: string;
+
+	/**
+	 * Redirect status code
+	 */
+	readonly statusCode: number;
+
+	/**
+	 * Create a redirect error
+	 *
+	 * @param message - error message
+	 * @param reference - error storage reference
+	 * @param location - redirect location (url encoded, relative to the requested url)
+	 * @param statusCode - redirect status code
+	 */
+	constructor(message: string, reference: T, location: string, statusCode = 301) {
+		super(message, reference);
+		this.name = 'RedirectError';
+		this.location = location;
+		this.statusCode = statusCode;
+	}
+}
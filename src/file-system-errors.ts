@@ -1,5 +1,5 @@
 import { StorageError } from './error';
-import type { FilePath } from './file-system-types';
+import type { FilePath, HiddenFileRule } from './file-system-types';
 
 /**
  * File system storage error
@@ -102,16 +102,32 @@ export class ConsecutiveSlashesError extends FileSystemStorageError {
  * File system storage error
  */
 export class IgnoredFileError extends FileSystemStorageError {
+	/**
+	 * Matched hidden file rule or ignore pattern (undefined if not given)
+	 */
+	readonly rule: HiddenFileRule | RegExp | undefined;
+
+	/**
+	 * Error status code (403 for the 'forbid' hidden file rules, 404 for the 'deny' hidden file rules
+	 * and undefined for the ignore pattern or without rule, the errorStatusCodes option applies then, 404 by default)
+	 */
+	readonly statusCode: 403 | 404 | undefined;
+
 	/**
 	 * Create file system storage error
 	 *
 	 * @param message - error message
 	 * @param path - encoded path or path parts
 	 * @param pathParts - path parts relative to root
+	 * @param rule - matched hidden file rule or ignore pattern
 	 */
-	constructor(message: string, path: FilePath, pathParts: readonly string[]) {
+	constructor(message: string, path: FilePath, pathParts: readonly string[], rule?: HiddenFileRule | RegExp) {
 		super(message, path, pathParts);
 		this.name = 'IgnoredFileError';
+		this.rule = rule;
+		this.statusCode = rule === undefined || rule instanceof RegExp
+			? undefined
+			: rule.action === 'forbid' ? 403 : 404;
 	}
 }
 
@@ -1,6 +1,6 @@
-
 import type { Dir, Dirent, Stats } from 'fs';
-import { open, fstat, close, createReadStream, opendir, readdir, constants } from 'fs';
+import { open, fstat, close, createReadStream, opendir, readdir, realpath, constants } from 'fs';
+import type * as http2 from 'http2';
 import { join } from 'path';
 import { Readable } from 'stream';
 import { promisify } from 'util';
@@ -8,17 +8,40 @@ import { promisify } from 'util';
 import { URL } from 'url';
 
 import { Storage } from './storage';
-import type { StorageRequestHeaders, StorageInfo } from './types';
-import { StorageError } from './error';
+import type { StorageRequest, StorageRequestHeaders, StorageInfo, PrepareResponseOptions } from './types';
+import type { StreamResponse } from './response';
+import { StorageError, RedirectError } from './error';
 import type { StreamRange } from './utils';
-import { acceptEncodings } from './utils';
+import { acceptEncodings, getRequestHeaders } from './utils';
+import { LRUCache } from './lru-cache';
+import { createFunctionHiddenFileRule, findHiddenFileRule } from './hidden-files';
+import {
+	getQueryString,
+	checkDirectoryListingFormats,
+	checkDirectoryListingPageSize,
+	getDirectoryDownloadFormat,
+	renderDirectoryListingJSON,
+	renderDirectoryListingHTML,
+} from './directory-listing';
+import {
+	createDirectoryListingStorageInfo,
+	getDirectoryListingEntries,
+	readDirectories,
+} from './directory-listing-entries';
+import { createDirectoryDownloadStorageInfo, createDirectoryArchiveStream } from './directory-download';
+import { createRegexpContentEncodingMapping, createPrecompressedContentEncodingMapping } from './content-encodings';
 import type {
 	FilePath,
 	FileSystemStorageOptions,
 	RegexpContentEncodingMapping,
 	GenericFileSystemStorageOptions,
 	GenericFileData,
+	HiddenFileRule,
+	FunctionHiddenFileRule,
 	GenericFSModule,
+	DirectoryListingEntry,
+	DirectoryListingSort,
+	DirectoryEntry,
 } from './file-system-types';
 import {
 	MalformedPathError,
@@ -31,17 +54,7 @@ import {
 	IsDirectoryError,
 	DoesNotExistError,
 } from './file-system-errors';
-
-/**
- * Escape HTML in path for this library (only replace & character since ", < and > are already excluded)
- *
- * @param path - the path to escape
- * @returns the escaped path
- */
-export function escapeHTMLInPath(path: string) {
-	// & is the only character to escape. '<', '>' and '"' are already excluded from listing
-	return path.replace(/&/ug, '&amp;');
-}
+import { ForbiddenSymlinkError, isSymlinkAllowedByPolicy } from './symlinks';
 
 // eslint-disable-next-line no-control-regex
 export const FORBIDDEN_CHARACTERS = /[/?<>\\:*|":\u0000-\u001F\u0080-\u009F]/u;
@@ -51,29 +64,112 @@ export const FORBIDDEN_CHARACTERS = /[/?<>\\:*|":\u0000-\u001F\u0080-\u009F]/u;
  */
 export class GenericFileSystemStorage<FileDescriptor> extends Storage<FilePath, GenericFileData<FileDescriptor>> {
 	/**
-	 * Root directory
+	 * Root directory (first root directory when several roots are given)
 	 */
 	readonly root: string;
 
+	/**
+	 * Root directories ordered by priority
+	 */
+	readonly roots: readonly string[];
+
 	/**
 	 * Content encoding mappings array (or false if disabled)
 	 */
 	readonly contentEncodingMappings: readonly RegexpContentEncodingMapping[] | false;
 
+	/**
+	 * Content encoding mapping of the pre-compressed files (or false if disabled)
+	 */
+	readonly precompressed: RegexpContentEncodingMapping | false;
+
+	/**
+	 * Missing pre-compressed file paths
+	 */
+	readonly precompressedMissingCache: LRUCache<string, true>;
+
 	/**
 	 * Ignore pattern (or false if disabled)
 	 */
 	readonly ignorePattern: RegExp | false;
 
+	/**
+	 * Hidden file rules evaluated in order before the ignore pattern
+	 */
+	readonly hiddenFiles: readonly FunctionHiddenFileRule[];
+
+	/**
+	 * Symbolic links policy
+	 *
+	 * - 'follow' to follow all the symbolic links
+	 * - 'deny' to refuse the paths going through a symbolic link
+	 * - 'within-root' to follow only the symbolic links resolved inside the root directory
+	 */
+	readonly symlinks: 'follow' | 'deny' | 'within-root';
+
 	/**
 	 * On directory action
 	 *
-	 * - 'serve-index' to serve directory's index.html
+	 * - 'serve-index' to serve directory's index file
 	 * - 'list-files' to list directory files
 	 * - (or false if disabled)
 	 */
 	readonly onDirectory: 'serve-index' | 'list-files' | false;
 
+	/**
+	 * Directory listing formats ordered by priority
+	 */
+	readonly directoryListingFormats: readonly ('html' | 'json' | 'text')[];
+
+	/**
+	 * Archive format of the downloaded directories (or false if disabled)
+	 */
+	readonly directoryDownload: 'zip' | false;
+
+	/**
+	 * Default and maximum number of files listed per page (or false if unlimited)
+	 */
+	readonly directoryListingPageSize: number | false;
+
+	/**
+	 * Index file names tried in order on directory requests
+	 */
+	readonly indexFiles: readonly string[];
+
+	/**
+	 * File extensions tried in order when the requested file does not exist (or false if disabled)
+	 */
+	readonly extensions: readonly string[] | false;
+
+	/**
+	 * Resolve mode of index files and files with an extension
+	 *
+	 * - 'rewrite' to serve the found file at the requested url
+	 * - 'redirect' to redirect to the url of the found file
+	 */
+	readonly resolveMode: 'rewrite' | 'redirect';
+
+	/**
+	 * Redirect status code of directories requested without trailing slash
+	 * and of files requested with a trailing slash (or false if disabled)
+	 */
+	readonly redirectDirectories: 301 | 308 | false;
+
+	/**
+	 * Redirect status code of the paths which are not normalized (or false if disabled)
+	 */
+	readonly redirectNotNormalized: 301 | 308 | false;
+
+	/**
+	 * Single-page application fallback (or false if disabled)
+	 */
+	readonly spaFallback: { indexPathParts: readonly string[]; excludeExtensions: boolean } | false;
+
+	/**
+	 * Path parts of the error pages by status code (or false if disabled)
+	 */
+	readonly errorPages: ReadonlyMap<number, readonly string[]> | false;
+
 	/**
 	 * fs.open function
 	 */
@@ -104,6 +200,11 @@ export class GenericFileSystemStorage<FileDescriptor> extends Storage<FilePath,
 	 */
 	readonly fsReaddir: (path: string, options: { withFileTypes: true }) => Promise<Dirent[]>;
 
+	/**
+	 * fs.realpath function
+	 */
+	readonly fsRealpath?: (path: string) => Promise<string>;
+
 	/**
 	 * fs.constants constants
 	 */
@@ -112,44 +213,96 @@ export class GenericFileSystemStorage<FileDescriptor> extends Storage<FilePath,
 	/**
 	 * Create file system storage
 	 *
-	 * @param root - root folder path
+	 * @param root - root folder path or root folder paths ordered by priority
+	 * (files of the first roots shadow the files of the next ones)
 	 * @param opts - file system storage options
+	 * @throws when no root, no index file name or no directory listing format is given
+	 * or when the symbolic links are not followed and the "fs" module has no realpath function
 	 */
 	constructor(
-		root: string,
+		root: string | readonly string[],
 		opts: GenericFileSystemStorageOptions<FileDescriptor>,
 	) {
 		super(opts);
-		const { contentEncodingMappings, ignorePattern, onDirectory, fsModule } = opts;
-		this.root = root;
+		const {
+			contentEncodingMappings,
+			precompressed,
+			precompressedMissingCacheSize,
+			precompressedMissingCacheTTL,
+			ignorePattern,
+			hiddenFiles,
+			symlinks,
+			onDirectory,
+			directoryListingFormats,
+			directoryListingPageSize,
+			directoryDownload,
+			indexFiles,
+			extensions,
+			resolveMode,
+			redirectDirectories,
+			redirectNotNormalized,
+			spaFallback,
+			errorPages,
+			fsModule,
+		} = opts;
+		this.roots = typeof root === 'string' ? [root] : [...root];
+		if (this.roots.length === 0) {
+			throw new Error('at least one root is required');
+		}
+		[this.root] = this.roots;
 		this.contentEncodingMappings = contentEncodingMappings
-			? contentEncodingMappings.map(encodingConfig => {
-				const encodingPreferences = new Map(
-					encodingConfig.encodings.map(({ name, path }, order) => [name, { path, order }]),
-				);
-				let identityEncodingPreference = encodingPreferences.get('identity');
-				if (!identityEncodingPreference) {
-					identityEncodingPreference = { path: '$&', order: encodingConfig.encodings.length };
-					encodingPreferences.set('identity', identityEncodingPreference);
-				}
-				const matcher = encodingConfig.matcher instanceof RegExp
-					? encodingConfig.matcher
-					: new RegExp(encodingConfig.matcher, 'u');
-				return { matcher, encodingPreferences, identityEncodingPreference };
-			})
+			? contentEncodingMappings.map(createRegexpContentEncodingMapping)
 			: false;
+		this.precompressed = createPrecompressedContentEncodingMapping(precompressed);
+		this.precompressedMissingCache = new LRUCache({
+			maxEntries: precompressedMissingCacheSize ?? 10_000,
+			ttl: precompressedMissingCacheTTL ?? 60_000,
+		});
 		this.ignorePattern = ignorePattern === undefined
 			? /^\./u
 			: ignorePattern === false || ignorePattern instanceof RegExp
 				? ignorePattern
 				: new RegExp(ignorePattern, 'u');
+		this.hiddenFiles = hiddenFiles ? hiddenFiles.map(createFunctionHiddenFileRule) : [];
+		this.symlinks = symlinks ?? 'follow';
+		if (this.symlinks !== 'follow' && !fsModule.realpath) {
+			throw new Error('the fs module must have a realpath function when symbolic links are not followed');
+		}
 		this.onDirectory = onDirectory ?? false;
+		this.directoryListingFormats = checkDirectoryListingFormats(directoryListingFormats);
+		this.directoryListingPageSize = checkDirectoryListingPageSize(directoryListingPageSize);
+		this.directoryDownload = directoryDownload ?? false;
+		this.indexFiles = indexFiles ? [...indexFiles] : ['index.html'];
+		if (this.indexFiles.length === 0) {
+			throw new Error('at least one index file name is required');
+		}
+		this.extensions = extensions && extensions.length > 0 ? [...extensions] : false;
+		this.resolveMode = resolveMode ?? 'rewrite';
+		this.redirectDirectories = redirectDirectories === true ? 301 : redirectDirectories ?? false;
+		this.redirectNotNormalized = redirectNotNormalized === true ? 301 : redirectNotNormalized ?? false;
+		if (spaFallback) {
+			const { index = 'index.html', excludeExtensions = false } = spaFallback === true ? {} : spaFallback;
+			this.spaFallback = {
+				indexPathParts: ['', ...index.split('/').filter(part => part !== '')],
+				excludeExtensions,
+			};
+		} else {
+			this.spaFallback = false;
+		}
+		this.errorPages = errorPages
+			? new Map(
+				Object.entries(errorPages === true ? { 403: '403.html', 404: '404.html' } : errorPages).map(
+					([statusCode, page]) => [Number(statusCode), ['', ...page.split('/').filter(part => part !== '')]],
+				),
+			)
+			: false;
 		this.fsOpen = promisify(fsModule.open);
 		this.fsFstat = promisify(fsModule.fstat);
 		this.fsClose = promisify(fsModule.close);
 		this.fsCreateReadStream = fsModule.createReadStream;
 		this.fsOpendir = fsModule.opendir ? promisify(fsModule.opendir) : undefined;
 		this.fsReaddir = promisify(fsModule.readdir);
+		this.fsRealpath = fsModule.realpath ? promisify(fsModule.realpath) : undefined;
 		this.fsConstants = fsModule.constants;
 	}
 
@@ -157,11 +310,12 @@ export class GenericFileSystemStorage<FileDescriptor> extends Storage<FilePath,
 	 * Parse and check url encoded path or path array
 	 *
 	 * @param path - url encoded path or path array to be accessed from root
-	 * @returns path array
+	 * @returns path array (with the first index file name when the directory index should be served)
 	 * @throws when the path can not be parsed
 	 */
 	parsePath(path: FilePath) {
 		let pathParts;
+		let servesIndex = false;
 
 		if (typeof path === 'string') {
 			if (!path.startsWith('/')) {
@@ -181,7 +335,14 @@ export class GenericFileSystemStorage<FileDescriptor> extends Storage<FilePath,
 					pathParts,
 				);
 			}
-			const normalizedPath = pathname + search;
+			// percent-encoded unreserved characters are decoded (RFC 3986 section 6.2.2.2)
+			// only when the paths which are not normalized are redirected
+			const normalizedPath = (this.redirectNotNormalized
+				? pathname.replace(/%[\dA-F]{2}/giu, encoded => {
+					const character = String.fromCharCode(Number.parseInt(encoded.slice(1), 16));
+					return /^[\w.~-]$/u.test(character) ? character : encoded;
+				})
+				: pathname) + search;
 			if (path !== normalizedPath) {
 				throw new NotNormalizedError(
 					`${ String(path) } is not normalized`,
@@ -232,24 +393,28 @@ export class GenericFileSystemStorage<FileDescriptor> extends Storage<FilePath,
 		}
 
 		// ignored files
-		const { ignorePattern } = this;
-		if (ignorePattern && pathParts.find(v => ignorePattern.test(v)) !== undefined) {
+		const hiddenFileRule = this.getHiddenFileRule(pathParts);
+		if (hiddenFileRule) {
 			throw new IgnoredFileError(
-				`${ String(path) } is ignored`,
+				hiddenFileRule instanceof RegExp || hiddenFileRule.action === 'deny'
+					? `${ String(path) } is ignored`
+					: `${ String(path) } is forbidden`,
 				path,
 				pathParts,
+				hiddenFileRule,
 			);
 		}
 
 		// trailing slash
 		if (haveTrailingSlash) {
 			const untrailedPathParts = pathParts.slice(0, -1);
-			const { onDirectory } = this;
+			const { onDirectory, indexFiles: [indexFile] } = this;
 			if (onDirectory === 'list-files') {
 				pathParts = untrailedPathParts;
 			} else if (onDirectory === 'serve-index') {
-				pathParts = [...untrailedPathParts, 'index.html'];
+				pathParts = [...untrailedPathParts, indexFile];
 				haveTrailingSlash = false;
+				servesIndex = true;
 			} else {
 				throw new TrailingSlashError(
 					`${ String(path) } have a trailing slash`,
@@ -260,7 +425,70 @@ export class GenericFileSystemStorage<FileDescriptor> extends Storage<FilePath,
 			}
 		}
 
-		return { pathParts, haveTrailingSlash };
+		return { pathParts, haveTrailingSlash, servesIndex };
+	}
+
+	/**
+	 * Get the hidden file rule (or the ignore pattern) hiding a path
+	 * (the path and each of its parent paths are tested, starting from the root)
+	 *
+	 * @param pathParts - path parts (starting with '')
+	 * @returns the first rule matching the path or one of its parent paths if it is not an 'allow' rule,
+	 * the ignore pattern if it matches a path part without matching rule, undefined otherwise
+	 */
+	getHiddenFileRule(pathParts: readonly string[]): HiddenFileRule | RegExp | undefined {
+		return findHiddenFileRule(this.hiddenFiles, this.ignorePattern, pathParts);
+	}
+
+	/**
+	 * Get the path parts to try in order for a parsed path
+	 * (index file names or file extensions, the files with an extension hidden by the hidden file rules are skipped)
+	 *
+	 * @param parsedPath - parsed path
+	 * @param parsedPath.pathParts - path parts
+	 * @param parsedPath.haveTrailingSlash - true if the path have a trailing slash
+	 * @param parsedPath.servesIndex - true if the directory index should be served
+	 * @returns the path parts to try
+	 */
+	getCandidatePathParts(
+		{ pathParts, haveTrailingSlash, servesIndex }: {
+			pathParts: readonly string[];
+			haveTrailingSlash: boolean;
+			servesIndex: boolean;
+		},
+	): (readonly string[])[] {
+		const directoryPathParts = pathParts.slice(0, -1);
+		if (servesIndex) {
+			return this.indexFiles.map(indexFile => [...directoryPathParts, indexFile]);
+		}
+		const { extensions } = this;
+		if (!extensions || haveTrailingSlash || pathParts.length < 2) {
+			return [pathParts];
+		}
+		return [
+			pathParts,
+			...extensions.map(
+				extension => [...directoryPathParts, `${ pathParts[pathParts.length - 1] }.${ extension }`],
+			).filter(candidatePathParts => !this.getHiddenFileRule(candidatePathParts)),
+		];
+	}
+
+	/**
+	 * Get the content encoding mapping used to look up the pre-compressed files of a file
+	 *
+	 * @param pathParts - path parts of the file
+	 * @returns the pre-compressed content encoding mapping or undefined if the mime type is not compressible
+	 */
+	getPrecompressedMapping(pathParts: readonly string[]) {
+		const { precompressed, defaultMimeType } = this;
+		if (!precompressed) {
+			return undefined;
+		}
+		const mimeType = this.mimeTypeLookup(pathParts[pathParts.length - 1]) || defaultMimeType;
+		if (!mimeType || !this.mimeTypeCompressible(mimeType)) {
+			return undefined;
+		}
+		return precompressed;
 	}
 
 	/**
@@ -301,26 +529,357 @@ export class GenericFileSystemStorage<FileDescriptor> extends Storage<FilePath,
 		return this.fsClose(fd);
 	}
 
+	/**
+	 * Check if a file path is allowed by the symbolic links policy
+	 * (the real paths are resolved on each call as the root can be a symbolic link changed on deployments)
+	 *
+	 * @param root - root directory of the file
+	 * @param filePath - file path
+	 * @returns true if the file path is allowed
+	 */
+	async isSymlinkAllowed(root: string, filePath: string) {
+		return isSymlinkAllowedByPolicy(this.symlinks, this.fsRealpath, root, filePath);
+	}
+
+	/**
+	 * Check that an opened file path is allowed by the symbolic links policy
+	 *
+	 * @param root - root directory of the file
+	 * @param path - file path
+	 * @param pathParts - path parts
+	 * @param filePath - opened file path
+	 * @throws a ForbiddenSymlinkError when the file path is not allowed
+	 */
+	async checkSymlinks(root: string, path: FilePath, pathParts: readonly string[], filePath: string) {
+		if (!await this.isSymlinkAllowed(root, filePath)) {
+			throw new ForbiddenSymlinkError(
+				`${ filePath } is resolved through a symbolic link forbidden by the '${ this.symlinks }' policy`,
+				path,
+				pathParts,
+				filePath,
+			);
+		}
+	}
+
+	/**
+	 * Prepare to send file, serving the spaFallback index file instead of the paths which can not be served
+	 * (the index file is served with a 404 status for the paths with a known extension)
+	 * and the error pages instead of the error responses
+	 *
+	 * @param path - file path
+	 * @param req - request headers or request objects
+	 * @param [opts] - options
+	 * @returns status, response headers and body to use (with fallbackError set when the index file
+	 * or an error page is served)
+	 * @throws when method is incorrect or when storage can not create the storage stream
+	 */
+	override async prepareResponse(
+		path: FilePath,
+		req: StorageRequest,
+		opts: PrepareResponseOptions = {},
+	): Promise<StreamResponse<GenericFileData<FileDescriptor>>> {
+		const response = await this.prepareSpaFallbackResponse(
+			await super.prepareResponse(path, req, opts),
+			req,
+			opts,
+		);
+		return this.prepareErrorPageResponse(response, req, opts);
+	}
+
+	/**
+	 * Serve the spaFallback index file instead of an error response
+	 *
+	 * @param response - the response of the requested path
+	 * @param req - request headers or request objects
+	 * @param opts - options
+	 * @returns the index file response (with fallbackError set) or the given response
+	 */
+	async prepareSpaFallbackResponse(
+		response: StreamResponse<GenericFileData<FileDescriptor>>,
+		req: StorageRequest,
+		opts: PrepareResponseOptions,
+	) {
+		const { spaFallback } = this;
+		const { error } = response;
+		// only the missing paths are client routes (redirected, ignored or forbidden paths keep their response)
+		if (!spaFallback || !(error instanceof DoesNotExistError)) {
+			return response;
+		}
+		const { pathParts } = error;
+		const hasExtension = pathParts.length > 1 && this.mimeTypeLookup(pathParts[pathParts.length - 1]) !== false;
+		if (hasExtension && spaFallback.excludeExtensions) {
+			return response;
+		}
+		const fallbackResponse = await super.prepareResponse(
+			spaFallback.indexPathParts,
+			req,
+			hasExtension ? { ...opts, statusCode: 404 } : opts,
+		);
+		if (fallbackResponse.error) {
+			fallbackResponse.dispose();
+			return response;
+		}
+		response.dispose();
+		fallbackResponse.fallbackError = error;
+		return fallbackResponse;
+	}
+
+	/**
+	 * Serve the error page of the status code of an error response (see errorPages option)
+	 *
+	 * @param response - the error response
+	 * @param req - request headers or request objects
+	 * @param opts - options
+	 * @returns the error page response (with fallbackError set) or the given response
+	 */
+	async prepareErrorPageResponse(
+		response: StreamResponse<GenericFileData<FileDescriptor>>,
+		req: StorageRequest,
+		opts: PrepareResponseOptions,
+	) {
+		const { errorPages } = this;
+		const { error, statusCode } = response;
+		const pagePathParts = errorPages ? errorPages.get(statusCode) : undefined;
+		if (!pagePathParts || !error || error instanceof RedirectError) {
+			return response;
+		}
+		// problem details are kept
+		if (this.getErrorFormat(getRequestHeaders(req)) === 'json') {
+			return response;
+		}
+		const pageResponse = await super.prepareResponse(
+			pagePathParts,
+			req,
+			{ ...opts, statusCode, cacheControl: 'no-store' },
+		);
+		if (pageResponse.error) {
+			pageResponse.dispose();
+			return response;
+		}
+		response.dispose();
+		pageResponse.fallbackError = error;
+		return pageResponse;
+	}
+
+	/**
+	 * Create the key used to cache the content hash (resolved path)
+	 *
+	 * @param storageInfo - storage information
+	 * @returns the cache key
+	 */
+	// eslint-disable-next-line class-methods-use-this
+	override createContentHashCacheKey(storageInfo: StorageInfo<GenericFileData<FileDescriptor>>): string | false {
+		return storageInfo.attachedData.resolvedPath;
+	}
+
+	/**
+	 * Get the url path of a file (its path parts in its root), used as key of the preloadAssets manifest
+	 *
+	 * @param storageInfo - storage information
+	 * @returns the url path
+	 */
+	// eslint-disable-next-line class-methods-use-this
+	override getPreloadAssetsPath(storageInfo: StorageInfo<GenericFileData<FileDescriptor>>) {
+		return storageInfo.attachedData.pathParts.join('/');
+	}
+
+	/**
+	 * Prepare the response of a preloaded asset pushed over HTTP/2 (the url path of the asset is its file path)
+	 *
+	 * @param path - url path of the asset
+	 * @param requestHeaders - request headers of the pushed stream
+	 * @returns the response of the asset
+	 */
+	override async preparePushResponse(path: string, requestHeaders: http2.IncomingHttpHeaders) {
+		return this.prepareResponse(path, requestHeaders);
+	}
+
+	/**
+	 * Create storage error response, redirecting the paths which are not normalized to their normalized path
+	 * (see redirectNotNormalized option)
+	 *
+	 * @param isHeadMethod - true if HEAD method is used
+	 * @param error - the error causing this response
+	 * @param requestHeaders - request headers
+	 * @returns the error response
+	 */
+	override createStorageError(isHeadMethod: boolean, error: unknown, requestHeaders?: StorageRequestHeaders) {
+		const { redirectNotNormalized } = this;
+		if (
+			redirectNotNormalized
+			&& error instanceof NotNormalizedError
+			// protocol-relative locations (e.g. //evil.com) would redirect to another host
+			&& !error.normalizedPath.startsWith('//')
+			&& !error.reference.includes('\\')
+		) {
+			return this.createRedirectResponse(isHeadMethod, redirectNotNormalized, error.normalizedPath, error);
+		}
+		return super.createStorageError(isHeadMethod, error, requestHeaders);
+	}
+
+	/**
+	 * Get the status code of a storage error response (the status code of the hidden file rules is kept)
+	 *
+	 * @param error - the error causing the response
+	 * @returns the status code (see errorStatusCodes option)
+	 */
+	override getErrorStatusCode(error: StorageError<unknown>) {
+		if (error instanceof IgnoredFileError && error.statusCode !== undefined) {
+			return error.statusCode;
+		}
+		return super.getErrorStatusCode(error);
+	}
+
 	/**
 	 * Open file and retrieve storage information (filename, modification date, size, ...)
 	 *
 	 * @param path - file path
 	 * @param requestHeaders - request headers
 	 * @returns StorageInfo object
-	 * @throws when the file can not be opened
+	 * @throws when the file can not be opened or a RedirectError when the path should be redirected
+	 * (see resolveMode and redirectDirectories options)
 	 */
 	async open(
 		path: FilePath,
 		requestHeaders: StorageRequestHeaders,
+	): Promise<StorageInfo<GenericFileData<FileDescriptor>>> {
+		try {
+			return await this.openCandidates(path, requestHeaders);
+		} catch (error: unknown) {
+			throw this.createDirectoryRedirectError(path, error) ?? error;
+		}
+	}
+
+	/**
+	 * Create the redirect error of a directory requested without trailing slash (the slash is appended)
+	 * or of a file requested with a trailing slash (the slash is removed) when redirectDirectories is set
+	 *
+	 * @param path - file path
+	 * @param error - the error thrown when opening the file
+	 * @returns the redirect error or undefined if the path should not be redirected
+	 */
+	createDirectoryRedirectError(path: FilePath, error: unknown) {
+		const { redirectDirectories, onDirectory } = this;
+		if (!redirectDirectories) {
+			return undefined;
+		}
+		let location;
+		// directories are only redirected when they can be served to avoid redirect loops
+		if (error instanceof IsDirectoryError && onDirectory) {
+			const { pathParts } = error;
+			location = `${ encodeURIComponent(pathParts[pathParts.length - 1]) }/`;
+		} else if (error instanceof TrailingSlashError && error.untrailedPathParts.length > 1) {
+			const { untrailedPathParts } = error;
+			location = `../${ encodeURIComponent(untrailedPathParts[untrailedPathParts.length - 1]) }`;
+		} else {
+			return undefined;
+		}
+		location += getQueryString(path);
+		return new RedirectError(
+			`${ String(path) } is redirected to ${ location }`,
+			path,
+			location,
+			redirectDirectories,
+		);
+	}
+
+	/**
+	 * Open file and retrieve storage information (filename, modification date, size, ...)
+	 * trying the index file names or the file extensions in order
+	 *
+	 * @param path - file path
+	 * @param requestHeaders - request headers
+	 * @returns StorageInfo object
+	 * @throws when the file can not be opened or a RedirectError when resolveMode is 'redirect'
+	 * and an index file or a file with an extension is found
+	 */
+	async openCandidates(
+		path: FilePath,
+		requestHeaders: StorageRequestHeaders,
+	): Promise<StorageInfo<GenericFileData<FileDescriptor>>> {
+		const parsedPath = this.parsePath(path);
+		const { haveTrailingSlash, servesIndex } = parsedPath;
+		let notFoundError: unknown;
+		for (const [index, pathParts] of this.getCandidatePathParts(parsedPath).entries()) {
+			const isResolved = servesIndex || index > 0;
+			let storageInfo;
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				storageInfo = await this.openInRoots(path, { pathParts, haveTrailingSlash }, requestHeaders);
+			} catch (error: unknown) {
+				if (!(error instanceof DoesNotExistError || (isResolved && error instanceof IsDirectoryError))) {
+					throw error;
+				}
+				notFoundError ??= error;
+				continue;
+			}
+			if (isResolved && this.resolveMode === 'redirect') {
+				// eslint-disable-next-line no-await-in-loop
+				await this.close(storageInfo);
+				const location = `${ encodeURIComponent(pathParts[pathParts.length - 1]) }${ getQueryString(path) }`;
+				throw new RedirectError(`${ String(path) } is redirected to ${ location }`, path, location);
+			}
+			return storageInfo;
+		}
+		throw notFoundError;
+	}
+
+	/**
+	 * Open file and retrieve storage information (filename, modification date, size, ...)
+	 * from the first root having the file
+	 *
+	 * @param path - file path
+	 * @param parsedPath - parsed file path
+	 * @param parsedPath.pathParts - path parts
+	 * @param parsedPath.haveTrailingSlash - true if the path have a trailing slash
+	 * @param requestHeaders - request headers
+	 * @returns StorageInfo object
+	 * @throws when the file can not be opened
+	 */
+	async openInRoots(
+		path: FilePath,
+		parsedPath: { pathParts: readonly string[]; haveTrailingSlash: boolean },
+		requestHeaders: StorageRequestHeaders,
+	): Promise<StorageInfo<GenericFileData<FileDescriptor>>> {
+		const { roots } = this;
+		for (const root of roots.slice(0, -1)) {
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				return await this.openInRoot(root, path, parsedPath, requestHeaders);
+			} catch (error: unknown) {
+				if (!(error instanceof DoesNotExistError)) {
+					throw error;
+				}
+			}
+		}
+		return this.openInRoot(roots[roots.length - 1], path, parsedPath, requestHeaders);
+	}
+
+	/**
+	 * Open file from a root directory and retrieve storage information (filename, modification date, size, ...)
+	 *
+	 * @param root - root directory
+	 * @param path - file path
+	 * @param parsedPath - parsed file path
+	 * @param parsedPath.pathParts - path parts
+	 * @param parsedPath.haveTrailingSlash - true if the path have a trailing slash
+	 * @param requestHeaders - request headers
+	 * @returns StorageInfo object
+	 * @throws when the file can not be opened
+	 */
+	async openInRoot(
+		root: string,
+		path: FilePath,
+		{ pathParts, haveTrailingSlash }: { pathParts: readonly string[]; haveTrailingSlash: boolean },
+		requestHeaders: StorageRequestHeaders,
 	): Promise<StorageInfo<GenericFileData<FileDescriptor>>> {
 		let fd: FileDescriptor | undefined;
-		const { pathParts, haveTrailingSlash } = this.parsePath(path);
-		let resolvedPath = join(this.root, ...pathParts);
+		let resolvedPath = join(root, ...pathParts);
 		let stats;
 		let vary;
 		let contentEncoding;
 		try {
-			const { contentEncodingMappings: encodingsMappings } = this;
+			const { contentEncodingMappings: encodingsMappings, precompressed, precompressedMissingCache } = this;
 			let selectedEncodingMapping;
 			// test path against encoding map
 			if (!haveTrailingSlash && encodingsMappings) {
@@ -328,8 +887,14 @@ export class GenericFileSystemStorage<FileDescriptor> extends Storage<FilePath,
 					encodingMapping => encodingMapping.matcher.test(resolvedPath),
 				);
 			}
+			// look up pre-compressed files of compressible files
+			if (!haveTrailingSlash && !selectedEncodingMapping) {
+				selectedEncodingMapping = this.getPrecompressedMapping(pathParts);
+			}
 			if (selectedEncodingMapping) {
 				const { encodingPreferences, identityEncodingPreference, matcher } = selectedEncodingMapping;
+				// missing pre-compressed files are cached to avoid opening them on every request
+				const missingCache = selectedEncodingMapping === precompressed ? precompressedMissingCache : undefined;
 				// if path can have encoded version
 				vary = 'Accept-Encoding';
 				const acceptableEncodings = acceptEncodings(
@@ -342,15 +907,24 @@ export class GenericFileSystemStorage<FileDescriptor> extends Storage<FilePath,
 						matcher,
 						acceptableEncodingPath,
 					);
+					const isEncoded = acceptableEncodingName !== 'identity';
+					if (isEncoded && missingCache?.get(encodedPath)) {
+						continue;
+					}
 					// eslint-disable-next-line no-await-in-loop
 					fd = await this.safeOpen(encodedPath);
 					if (fd === undefined) {
+						if (isEncoded) {
+							missingCache?.set(encodedPath, true);
+						}
 						continue;
 					}
 					// eslint-disable-next-line no-await-in-loop
+					await this.checkSymlinks(root, path, pathParts, encodedPath);
+					// eslint-disable-next-line no-await-in-loop
 					stats = await this.stat(fd, encodedPath);
 					if (stats.isDirectory()) {
-						if (acceptableEncodingName === 'identity') {
+						if (!isEncoded) {
 							throw new IsDirectoryError(
 								`${ resolvedPath } is a directory`,
 								path,
@@ -365,7 +939,7 @@ export class GenericFileSystemStorage<FileDescriptor> extends Storage<FilePath,
 						await this.earlyClose(directoryFd, encodedPath);
 						continue;
 					}
-					contentEncoding = acceptableEncodingName === 'identity' ? undefined : acceptableEncodingName;
+					contentEncoding = isEncoded ? acceptableEncodingName : undefined;
 					resolvedPath = encodedPath;
 					break;
 				}
@@ -388,6 +962,7 @@ export class GenericFileSystemStorage<FileDescriptor> extends Storage<FilePath,
 						resolvedPath,
 					);
 				}
+				await this.checkSymlinks(root, path, pathParts, resolvedPath);
 				stats = await this.stat(fd, resolvedPath);
 				if (stats.isDirectory()) {
 					if (!haveTrailingSlash) {
@@ -400,26 +975,16 @@ export class GenericFileSystemStorage<FileDescriptor> extends Storage<FilePath,
 					}
 					// fd cannot be used yet with opendir/readdir
 					await this.earlyClose(fd, resolvedPath);
-					return {
-						attachedData: {
-							pathParts,
-							resolvedPath,
-							fd,
-							stats,
-						},
-						fileName: `${ pathParts.length > 1 ? pathParts[pathParts.length - 1] : '_' }.html`,
-						mtimeMs: undefined,
-						size: undefined,
-						vary: undefined,
-						contentEncoding: undefined,
-						mimeType: 'text/html',
-						mimeTypeCharset: 'UTF-8',
-						lastModified: undefined,
-						etag: undefined,
-						cacheControl: undefined,
-						contentDispositionType: undefined,
-						contentDispositionFilename: undefined,
-					};
+					const { directoryDownload } = this;
+					if (directoryDownload && getDirectoryDownloadFormat(path) === directoryDownload) {
+						return createDirectoryDownloadStorageInfo(pathParts, resolvedPath, fd, stats);
+					}
+					return await createDirectoryListingStorageInfo(
+						this,
+						{ pathParts, resolvedPath, fd, stats },
+						path,
+						requestHeaders,
+					);
 				} else if (haveTrailingSlash) {
 					throw new TrailingSlashError(
 						`${ String(path) } have a trailing slash but is not a directory`,
@@ -459,42 +1024,84 @@ export class GenericFileSystemStorage<FileDescriptor> extends Storage<FilePath,
 	}
 
 	/**
-	 * Async generator method to return the directory listing as HTML
+	 * Async generator method to return the listed files of a directory
+	 * (files with forbidden characters, hidden by the hidden file rules or the ignore pattern or forbidden by
+	 * the symbolic links policy are skipped)
 	 *
 	 * @param storageInfo - storage information
-	 * @yields html parts
+	 * @yields directory entries
 	 */
-	async *getDirectoryListing(storageInfo: StorageInfo<GenericFileData<FileDescriptor>>) {
+	async *getDirectoryEntries(
+		storageInfo: StorageInfo<GenericFileData<FileDescriptor>>,
+	): AsyncGenerator<DirectoryEntry> {
 		const { attachedData: { pathParts } } = storageInfo;
 
-		const isNotRoot = pathParts.length > 1;
-		const displayName = isNotRoot ? escapeHTMLInPath(pathParts[pathParts.length - 1]) : '/';
-		const display = `${ isNotRoot ? escapeHTMLInPath(pathParts.join('/')) : '' }/`;
-
-		yield `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><title>${
-			displayName
-		}</title><meta name="viewport" content="width=device-width"><meta name="description" content="Content of ${
-			display
-		} directory"></head><body><h1>Directory: ${ display }</h1><ul>${
-			isNotRoot ? '<li><a href="..">..</a></li>' : ''
-		}`;
-
-		const { ignorePattern } = this;
-		const files = await this.opendir(storageInfo);
-
-		for await (const file of files) {
-			const { name: filename } = file;
+		for await (const entry of readDirectories(this, storageInfo)) {
+			const { dirent, root, resolvedPath } = entry;
 			if (
-				FORBIDDEN_CHARACTERS.test(filename)
-				|| (ignorePattern && ignorePattern.test(filename))
+				FORBIDDEN_CHARACTERS.test(dirent.name)
+				|| this.getHiddenFileRule([...pathParts, dirent.name])
+				|| (dirent.isSymbolicLink() && !await this.isSymlinkAllowed(root, resolvedPath))
 			) {
 				continue;
 			}
-			const escapedFilename = `${ escapeHTMLInPath(filename) }${ file.isDirectory() ? '/' : '' }`;
-			yield `<li><a href="./${ escapedFilename }">${ escapedFilename }</a></li>`;
+			yield entry;
 		}
+	}
 
-		yield '</ul></body></html>';
+	/**
+	 * Async generator method to return the directory listing as HTML
+	 *
+	 * @param storageInfo - storage information
+	 * @yields html parts
+	 */
+	async *getDirectoryListing(storageInfo: StorageInfo<GenericFileData<FileDescriptor>>) {
+		const entries = await getDirectoryListingEntries(this, storageInfo, true);
+		yield this.renderDirectoryListing(storageInfo, entries, storageInfo.attachedData.directoryListingSort);
+	}
+
+	/**
+	 * Render the directory listing as HTML (can be overriden to customize the template,
+	 * the texts must be escaped with escapeHTMLInPath)
+	 *
+	 * @param storageInfo - storage information
+	 * @param entries - directory listing entries with their stats
+	 * @param sort - requested sort (or undefined if the entries are in directory order)
+	 * @returns html
+	 */
+	// eslint-disable-next-line class-methods-use-this
+	renderDirectoryListing(
+		storageInfo: StorageInfo<GenericFileData<FileDescriptor>>,
+		entries: readonly DirectoryListingEntry[],
+		sort: DirectoryListingSort | undefined,
+	) {
+		const { attachedData: { pathParts, directoryListingPage } } = storageInfo;
+		return renderDirectoryListingHTML(pathParts, entries, sort, directoryListingPage);
+	}
+
+	/**
+	 * Async generator method to return the directory listing as a JSON array
+	 * (name, type, size, mtime and mimeType of each file, size and mimeType are null for directories)
+	 *
+	 * @param storageInfo - storage information
+	 * @yields json parts
+	 */
+	async *getJSONDirectoryListing(storageInfo: StorageInfo<GenericFileData<FileDescriptor>>) {
+		const entries = await getDirectoryListingEntries(this, storageInfo, true);
+		yield renderDirectoryListingJSON(entries, name => this.mimeTypeLookup(name) || this.defaultMimeType);
+	}
+
+	/**
+	 * Async generator method to return the directory listing as plain text
+	 * (one file name per line, directory names end with a slash)
+	 *
+	 * @param storageInfo - storage information
+	 * @yields text parts
+	 */
+	async *getTextDirectoryListing(storageInfo: StorageInfo<GenericFileData<FileDescriptor>>) {
+		for (const { name, isDirectory } of await getDirectoryListingEntries(this, storageInfo, false)) {
+			yield `${ name }${ isDirectory ? '/' : '' }\n`;
+		}
 	}
 
 	/**
@@ -523,9 +1130,17 @@ export class GenericFileSystemStorage<FileDescriptor> extends Storage<FilePath,
 		autoClose: boolean,
 	): Readable {
 		const { attachedData } = storageInfo;
+		if (attachedData.directoryDownload) {
+			return createDirectoryArchiveStream(this, storageInfo);
+		}
 		if (attachedData.stats.isDirectory()) {
+			const { directoryListingFormat } = attachedData;
 			return Readable.from(
-				this.getDirectoryListing(storageInfo),
+				directoryListingFormat === 'json'
+					? this.getJSONDirectoryListing(storageInfo)
+					: directoryListingFormat === 'text'
+						? this.getTextDirectoryListing(storageInfo)
+						: this.getDirectoryListing(storageInfo),
 				{ objectMode: false, encoding: 'utf-8', highWaterMark: 16_384, autoDestroy: true },
 			);
 		}
@@ -552,17 +1167,22 @@ export class GenericFileSystemStorage<FileDescriptor> extends Storage<FilePath,
 	 * @returns void
 	 */
 	async close(storageInfo: StorageInfo<GenericFileData<FileDescriptor>>): Promise<void> {
-		await this.fsClose(storageInfo.attachedData.fd);
+		const { attachedData: { fd, stats } } = storageInfo;
+		// the file descriptor of a directory is closed once opened
+		if (stats.isDirectory()) {
+			return;
+		}
+		await this.fsClose(fd);
 	}
 }
 
 export class FileSystemStorage extends GenericFileSystemStorage<number> {
 	constructor(
-		root: string,
+		root: string | readonly string[],
 		opts: FileSystemStorageOptions = {},
 	) {
 		super(root, {
-			fsModule: { open, fstat, close, createReadStream, opendir, readdir, constants },
+			fsModule: { open, fstat, close, createReadStream, opendir, readdir, realpath, constants },
 			...opts,
 		});
 	}
@@ -1,7 +1,7 @@
 import type { Readable } from 'stream';
 import type { Dir, Stats, Dirent } from 'fs';
 
-import type { StorageOptions } from './types';
+import type { StorageOptions, StorageInfo } from './types';
 
 /**
  * File data with generic file descriptor used by file storage
@@ -23,6 +23,150 @@ export interface GenericFileData<FileDescriptor> {
 	 * File descriptor
 	 */
 	fd: FileDescriptor;
+	/**
+	 * Directory listing format (for directories only)
+	 */
+	directoryListingFormat?: 'html' | 'json' | 'text';
+	/**
+	 * Directory listing sort requested with the sort and order query parameters (for directories only)
+	 */
+	directoryListingSort?: DirectoryListingSort;
+	/**
+	 * Directory listing page requested with the offset and limit query parameters (for directories only)
+	 */
+	directoryListingPage?: DirectoryListingPage;
+	/**
+	 * Listed entries, read when the directory listing is opened to create its etag (for directories only)
+	 */
+	directoryListingEntries?: readonly DirectoryListingEntry[];
+	/**
+	 * Archive format when the directory is downloaded with the download query parameter (for directories only)
+	 */
+	directoryDownload?: 'zip';
+}
+
+/**
+ * Directory listing page
+ */
+export interface DirectoryListingPage {
+	/**
+	 * Number of skipped files
+	 */
+	offset: number;
+	/**
+	 * Maximum number of listed files (undefined if unlimited)
+	 */
+	limit: number | undefined;
+	/**
+	 * Url of the previous page relative to the directory url (undefined on the first page)
+	 */
+	previous: string | undefined;
+	/**
+	 * Url of the next page relative to the directory url (undefined on the last page)
+	 */
+	next: string | undefined;
+}
+
+/**
+ * Directory listing sort
+ */
+export interface DirectoryListingSort {
+	/**
+	 * Sort key
+	 */
+	by: 'name' | 'size' | 'mtime';
+	/**
+	 * Sort order
+	 */
+	order: 'asc' | 'desc';
+}
+
+/**
+ * Directory listing entry
+ */
+export interface DirectoryListingEntry {
+	/**
+	 * File name
+	 */
+	name: string;
+	/**
+	 * Resolved path
+	 */
+	resolvedPath: string;
+	/**
+	 * True if the entry is a directory
+	 */
+	isDirectory: boolean;
+	/**
+	 * File stats (undefined if not requested or if the file can not be opened)
+	 */
+	stats: Stats | undefined;
+}
+
+/**
+ * Directory entry with its root and resolved path
+ */
+export interface DirectoryEntry {
+	/**
+	 * Directory entry
+	 */
+	dirent: Dirent;
+	/**
+	 * Root directory of the entry
+	 */
+	root: string;
+	/**
+	 * Resolved path of the entry
+	 */
+	resolvedPath: string;
+}
+
+/**
+ * File system storage methods used to read the directories of directory listings and downloads
+ */
+export interface DirectoryReader<FileDescriptor> {
+	/**
+	 * Root directories
+	 */
+	readonly roots: readonly string[];
+	/**
+	 * Directory listing formats
+	 */
+	readonly directoryListingFormats: readonly ('html' | 'json' | 'text')[];
+	/**
+	 * Number of files by directory listing page
+	 */
+	readonly directoryListingPageSize: number | false;
+	/**
+	 * Create readable stream function of the fs module
+	 */
+	readonly fsCreateReadStream: GenericFSModule<FileDescriptor>['createReadStream'];
+	/**
+	 * Open a file (undefined if the file does not exist)
+	 */
+	safeOpen: (path: string) => Promise<FileDescriptor | undefined>;
+	/**
+	 * Get the stats of an opened file
+	 */
+	stat: (fd: FileDescriptor, path: string) => Promise<Stats>;
+	/**
+	 * Close an opened file
+	 */
+	earlyClose: (fd: FileDescriptor, path: string) => Promise<void>;
+	/**
+	 * Check if a symbolic link is allowed by the symbolic links policy
+	 */
+	isSymlinkAllowed: (root: string, filePath: string) => Promise<boolean>;
+	/**
+	 * Return the list of files from a directory
+	 */
+	opendir: (
+		storageInfo: StorageInfo<GenericFileData<FileDescriptor>>,
+	) => Promise<AsyncIterable<Dirent> | Iterable<Dirent>>;
+	/**
+	 * Return the listed files of a directory
+	 */
+	getDirectoryEntries: (storageInfo: StorageInfo<GenericFileData<FileDescriptor>>) => AsyncIterable<DirectoryEntry>;
 }
 
 /**
@@ -64,6 +208,10 @@ export interface GenericFSModule<FileDescriptor> {
 		options: { withFileTypes: true },
 		callback: (err: NodeJS.ErrnoException | null, files: Dirent[]) => void
 	) => void;
+	realpath?: (
+		path: string,
+		callback: (err: NodeJS.ErrnoException | null, resolvedPath: string) => void
+	) => void;
 }
 
 /**
@@ -132,6 +280,60 @@ export interface RegexpContentEncodingMapping {
 	identityEncodingPreference: ContentEncodingPreference;
 }
 
+/**
+ * Hidden file rule
+ */
+export interface HiddenFileRule {
+	/**
+	 * Glob matched against the path relative to root and each of its parent paths, e.g. '/.well-known' or '.env'
+	 * (`*` and `?` match the characters of a path part, `**` matches any number of path parts and the globs not
+	 * starting with a slash match at any depth) or function called with the path parts (starting with '') of the
+	 * path and each of its parent paths
+	 */
+	matcher: string | ((pathParts: readonly string[]) => boolean);
+	/**
+	 * Action when the rule matches
+	 * - `'allow'` to serve the file (the ignore pattern is not tested for its name, the rules and the ignore pattern
+	 * still apply to the content of an allowed directory)
+	 * - `'deny'` to return a Not Found error
+	 * - `'forbid'` to return a Forbidden error
+	 */
+	action: 'allow' | 'deny' | 'forbid';
+}
+
+/**
+ * Hidden file rule with a path parts matcher function
+ */
+export interface FunctionHiddenFileRule {
+	/**
+	 * Hidden file rule
+	 */
+	rule: HiddenFileRule;
+	/**
+	 * Function returning true if the rule matches the path parts
+	 */
+	matches: (pathParts: readonly string[]) => boolean;
+}
+
+/**
+ * Single-page application fallback options
+ */
+export interface SpaFallbackOptions {
+	/**
+	 * Path of the index file served instead of the missing files (relative to root)
+	 *
+	 * Defaults to 'index.html'
+	 */
+	index?: string;
+	/**
+	 * Do not serve the index file instead of the paths with an extension known by mimeTypeLookup (like missing assets)
+	 * and return the error response instead, otherwise the index file is served with a 404 status for these paths
+	 *
+	 * Defaults to false
+	 */
+	excludeExtensions?: boolean;
+}
+
 /**
  * FileSystemStorage options with generic file descriptor
  */
@@ -140,10 +342,49 @@ export interface GenericFileSystemStorageOptions<FileDescriptor> extends Storage
 	 * Content encoding mapping, e.g. [{ matcher: /^(.+\\.json)$/, encodings: [{ name: 'gzip', path: '$1.gz' }] }]
 	 */
 	contentEncodingMappings?: readonly ContentEncodingMapping[];
+	/**
+	 * Content encodings of the pre-compressed files to look up next to the files with a compressible mime type
+	 * (`'br'` for `.br` files, `'gzip'` for `.gz` files and `'zstd'` for `.zst` files), e.g. ['br', 'gzip'],
+	 * ignored for the paths matching contentEncodingMappings
+	 *
+	 * Defaults to false
+	 */
+	precompressed?: readonly string[] | false;
+	/**
+	 * Maximum number of missing pre-compressed file paths kept in cache
+	 *
+	 * Defaults to 10000
+	 */
+	precompressedMissingCacheSize?: number;
+	/**
+	 * Time to live in milliseconds of the missing pre-compressed file paths kept in cache
+	 *
+	 * Defaults to 60000 (1 minute)
+	 */
+	precompressedMissingCacheTTL?: number;
 	/**
 	 * Ignore pattern, defaults to /^\../ (files/folders beginning with a dot)
 	 */
 	ignorePattern?: RegExp | string | false;
+	/**
+	 * Hidden file rules evaluated in order before the ignore pattern for the path and each of its parent paths
+	 * (the first matching rule is applied), e.g. [{ matcher: '/.well-known', action: 'allow' }, { matcher: '.git',
+	 * action: 'forbid' }]
+	 *
+	 * Defaults to []
+	 */
+	hiddenFiles?: readonly HiddenFileRule[];
+	/**
+	 * Determine how the symbolic links are handled (in the requested paths and in the directory listings)
+	 * - `'follow'` to follow all the symbolic links
+	 * - `'deny'` to refuse the paths going through a symbolic link
+	 * - `'within-root'` to follow only the symbolic links resolved inside the root directory
+	 *
+	 * The "fs" module must have a realpath function when the symbolic links are not followed
+	 *
+	 * Defaults to 'follow'
+	 */
+	symlinks?: 'follow' | 'deny' | 'within-root';
 	/**
 	 * "fs" module to use
 	 */
@@ -152,11 +393,94 @@ export interface GenericFileSystemStorageOptions<FileDescriptor> extends Storage
 	 * Determine what should happen on directory requests (trailing slash)
 	 * - `false` to return an error
 	 * - `'list-files'` to list the files of directories
-	 * - `'serve-index'` to serve the index.html file of directories
+	 * - `'serve-index'` to serve the index file of directories (see indexFiles)
 	 *
 	 * Default to false
 	 */
 	onDirectory?: 'serve-index' | 'list-files' | false;
+	/**
+	 * Directory listing formats when onDirectory is 'list-files', ordered by priority
+	 * (the format is negotiated with the Accept header when several formats are given)
+	 * - `'html'` for a HTML document
+	 * - `'json'` for a JSON array of the files (name, type, size, mtime and mimeType)
+	 * - `'text'` for a plain text list of the file names (one per line)
+	 *
+	 * Defaults to ['html']
+	 */
+	directoryListingFormats?: readonly ('html' | 'json' | 'text')[];
+	/**
+	 * Archive format of the directories downloaded with the download query parameter when onDirectory is 'list-files'
+	 * - `false` to ignore the download query parameter
+	 * - `'zip'` to stream a zip archive of the directory tree (generated on the fly) for `?download=zip`
+	 *
+	 * Defaults to false
+	 */
+	directoryDownload?: 'zip' | false;
+	/**
+	 * Default and maximum number of files listed per page when onDirectory is 'list-files'
+	 * (pages are requested with the offset and limit query parameters)
+	 *
+	 * Defaults to false (all the files are listed unless the limit query parameter is given)
+	 */
+	directoryListingPageSize?: number | false;
+	/**
+	 * Index file names tried in order on directory requests when onDirectory is 'serve-index'
+	 *
+	 * Defaults to ['index.html']
+	 */
+	indexFiles?: readonly string[];
+	/**
+	 * File extensions (without dot) tried in order when the requested file does not exist, e.g. ['html'] to serve
+	 * /about.html for /about
+	 *
+	 * Defaults to false
+	 */
+	extensions?: readonly string[] | false;
+	/**
+	 * Determine what should happen when an index file (see indexFiles) or a file with an extension (see extensions)
+	 * is found for the requested path
+	 * - `'rewrite'` to serve the found file at the requested url
+	 * - `'redirect'` to redirect to the url of the found file (301 status with a relative Location header)
+	 *
+	 * Defaults to 'rewrite'
+	 */
+	resolveMode?: 'rewrite' | 'redirect';
+	/**
+	 * Redirect the directories requested without trailing slash to the url with a trailing slash
+	 * (when onDirectory is set) and the files requested with a trailing slash to the url without trailing slash
+	 * - `false` to return an error
+	 * - `true` or `301` to redirect with a 301 status
+	 * - `308` to redirect with a 308 status
+	 *
+	 * Defaults to false
+	 */
+	redirectDirectories?: boolean | 301 | 308;
+	/**
+	 * Redirect the paths which are not normalized (NotNormalizedError) to the normalized path
+	 * instead of returning an error (the error is still attached to the response)
+	 * - `false` to return an error
+	 * - `true` or `301` to redirect with a 301 status
+	 * - `308` to redirect with a 308 status
+	 *
+	 * Defaults to `false`
+	 */
+	redirectNotNormalized?: boolean | 301 | 308;
+	/**
+	 * Serve an index file instead of the paths which can not be served (for history.pushState applications),
+	 * e.g. { index: 'index.html', excludeExtensions: true }
+	 *
+	 * Defaults to false
+	 */
+	spaFallback?: SpaFallbackOptions | boolean;
+	/**
+	 * Error pages served instead of the storage error responses by status code (paths relative to root),
+	 * e.g. { 403: '403.html', 404: 'errors/not-found.html' }, `true` for { 403: '403.html', 404: '404.html' }
+	 * (the error page is served with the status code of the error and a `no-store` cache-control,
+	 * the error response is kept when the error page can not be served or when problem details are rendered)
+	 *
+	 * Defaults to false
+	 */
+	errorPages?: Readonly<Record<number, string>> | boolean;
 }
 
 type Optional<T, K extends keyof T> = Pick<Partial<T>, K> & Omit<T, K>;
@@ -0,0 +1,9 @@
+export * from './file-system-types';
+export * from './file-system-errors';
+export * from './file-system-storage';
+export { PRECOMPRESSED_EXTENSIONS } from './content-encodings';
+export * from './directory-listing';
+export * from './directory-listing-entries';
+export * from './directory-download';
+export { createGlobRegExp, createFunctionHiddenFileRule } from './hidden-files';
+export { ForbiddenSymlinkError } from './symlinks';
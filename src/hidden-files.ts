@@ -0,0 +1,72 @@
+import type { HiddenFileRule, FunctionHiddenFileRule } from './file-system-types';
+
+/**
+ * Create the regexp matching the paths relative to root of a hidden file glob
+ *
+ * @param glob - hidden file glob ('*' and '?' match the characters of a path part, '**' any number of path parts
+ * and the globs not starting with a slash match at any depth)
+ * @returns the regexp
+ */
+export function createGlobRegExp(glob: string) {
+	const source = (glob.startsWith('/') ? glob : `/**/${ glob }`)
+		.split('/')
+		.filter(part => part !== '')
+		.map(part => part === '**'
+			? '(?:/[^/]+)*'
+			: `/${
+				part
+					.replace(/[$()+.[\\\]^{|}]/gu, '\\$&')
+					.replace(/\*/gu, '[^/]*')
+					.replace(/\?/gu, '[^/]')
+			}`)
+		.join('');
+	return new RegExp(`^${ source }$`, 'u');
+}
+
+/**
+ * Create hidden file rule with path parts matcher function
+ *
+ * @param rule - hidden file rule
+ * @returns the hidden file rule with path parts matcher function
+ */
+export function createFunctionHiddenFileRule(rule: HiddenFileRule): FunctionHiddenFileRule {
+	const { matcher } = rule;
+	if (typeof matcher === 'function') {
+		return { rule, matches: matcher };
+	}
+	const regexp = createGlobRegExp(matcher);
+	return { rule, matches: pathParts => regexp.test(pathParts.join('/')) };
+}
+
+/**
+ * Find the hidden file rule (or the ignore pattern) hiding a path
+ * (the path and each of its parent paths are tested, starting from the root)
+ *
+ * @param hiddenFiles - hidden file rules with path parts matcher functions
+ * @param ignorePattern - ignore pattern of the path parts without matching rule (or false if disabled)
+ * @param pathParts - path parts (starting with '')
+ * @returns the first rule matching the path or one of its parent paths if it is not an 'allow' rule,
+ * the ignore pattern if it matches a path part without matching rule, undefined otherwise
+ */
+export function findHiddenFileRule(
+	hiddenFiles: readonly FunctionHiddenFileRule[],
+	ignorePattern: RegExp | false,
+	pathParts: readonly string[],
+): HiddenFileRule | RegExp | undefined {
+	const untrailedPathParts = pathParts.length > 1 && pathParts[pathParts.length - 1] === ''
+		? pathParts.slice(0, -1)
+		: pathParts;
+	for (let length = 2; length <= untrailedPathParts.length; length++) {
+		const parentPathParts = untrailedPathParts.slice(0, length);
+		const hiddenFile = hiddenFiles.find(({ matches }) => matches(parentPathParts));
+		if (hiddenFile) {
+			// an allowed directory does not allow its content (e.g. the dotfiles of /.well-known)
+			if (hiddenFile.rule.action !== 'allow') {
+				return hiddenFile.rule;
+			}
+		} else if (ignorePattern && ignorePattern.test(parentPathParts[length - 1])) {
+			return ignorePattern;
+		}
+	}
+	return undefined;
+}
@@ -0,0 +1,162 @@
+/**
+ * LRU cache options
+ */
+export interface LRUCacheOptions<V> {
+	/**
+	 * Maximum total size of the cached values (as computed by `sizeOf`)
+	 *
+	 * Defaults to `Infinity`
+	 */
+	maxSize?: number;
+	/**
+	 * Maximum number of cached values
+	 *
+	 * Defaults to `Infinity`
+	 */
+	maxEntries?: number;
+	/**
+	 * Time to live of the cached values in milliseconds
+	 *
+	 * Defaults to `Infinity`
+	 */
+	ttl?: number;
+	/**
+	 * Function used to compute the size of a value
+	 *
+	 * Defaults to a function returning `1`
+	 */
+	sizeOf?: (value: V) => number;
+}
+
+interface LRUCacheEntry<V> {
+	value: V;
+	size: number;
+	expires: number;
+}
+
+/**
+ * Least recently used cache bounded by size, entries and time to live
+ */
+export class LRUCache<K, V> {
+	/**
+	 * Maximum total size of the cached values
+	 */
+	readonly maxSize: number;
+
+	/**
+	 * Maximum number of cached values
+	 */
+	readonly maxEntries: number;
+
+	/**
+	 * Time to live of the cached values in milliseconds
+	 */
+	readonly ttl: number;
+
+	/**
+	 * Function used to compute the size of a value
+	 */
+	readonly sizeOf: (value: V) => number;
+
+	private readonly entries = new Map<K, LRUCacheEntry<V>>();
+
+	private currentSize = 0;
+
+	/**
+	 * Create LRU cache
+	 *
+	 * @param opts - LRU cache options
+	 */
+	constructor(opts: LRUCacheOptions<V> = {}) {
+		this.maxSize = opts.maxSize ?? Number.POSITIVE_INFINITY;
+		this.maxEntries = opts.maxEntries ?? Number.POSITIVE_INFINITY;
+		this.ttl = opts.ttl ?? Number.POSITIVE_INFINITY;
+		this.sizeOf = opts.sizeOf ?? (() => 1);
+	}
+
+	/**
+	 * Total size of the cached values
+	 *
+	 * @returns total size
+	 */
+	get size() {
+		return this.currentSize;
+	}
+
+	/**
+	 * Number of cached values
+	 *
+	 * @returns number of values
+	 */
+	get length() {
+		return this.entries.size;
+	}
+
+	/**
+	 * Get a cached value and mark it as recently used
+	 *
+	 * @param key - cache key
+	 * @returns the cached value or undefined if missing or expired
+	 */
+	get(key: K) {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return undefined;
+		}
+		this.entries.delete(key);
+		if (entry.expires <= Date.now()) {
+			this.currentSize -= entry.size;
+			return undefined;
+		}
+		this.entries.set(key, entry);
+		return entry.value;
+	}
+
+	/**
+	 * Set a cached value then evict the least recently used values exceeding the limits
+	 *
+	 * @param key - cache key
+	 * @param value - value to cache
+	 * @returns false if the value is too big to be cached, true otherwise
+	 */
+	set(key: K, value: V) {
+		this.delete(key);
+		const size = this.sizeOf(value);
+		if (size > this.maxSize) {
+			return false;
+		}
+		this.entries.set(key, { value, size, expires: Date.now() + this.ttl });
+		this.currentSize += size;
+		for (const oldestKey of this.entries.keys()) {
+			if (this.currentSize <= this.maxSize && this.entries.size <= this.maxEntries) {
+				break;
+			}
+			this.delete(oldestKey);
+		}
+		return true;
+	}
+
+	/**
+	 * Delete a cached value
+	 *
+	 * @param key - cache key
+	 * @returns true if a value was deleted
+	 */
+	delete(key: K) {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return false;
+		}
+		this.entries.delete(key);
+		this.currentSize -= entry.size;
+		return true;
+	}
+
+	/**
+	 * Delete all cached values
+	 */
+	clear() {
+		this.entries.clear();
+		this.currentSize = 0;
+	}
+}
@@ -0,0 +1,261 @@
+import { createReadStream, promises as fsPromises } from 'fs';
+import { join, extname, dirname, basename } from 'path';
+import * as zlib from 'zlib';
+
+import { FileSystemStorage } from './file-system-storage';
+import { PRECOMPRESSED_EXTENSIONS } from './content-encodings';
+import { readAll } from './utils';
+import type { FileSystemStorageOptions, ContentEncodingMapping } from './file-system-types';
+
+/**
+ * precompress options
+ */
+export interface PrecompressOptions extends FileSystemStorageOptions {
+	/**
+	 * Encodings of the pre-compressed files (`'br'`, `'gzip'` or `'zstd'`)
+	 *
+	 * Defaults to `['br', 'gzip']` (`['zstd', 'br', 'gzip']` when zstd compression is available)
+	 */
+	encodings?: readonly string[];
+}
+
+/**
+ * Pre-compressed file status
+ * - `'compressed'` if the pre-compressed file has been written
+ * - `'up-to-date'` if the pre-compressed file is newer than the file
+ * - `'not-smaller'` if the compressed content is not smaller than the file (no pre-compressed file is kept)
+ */
+export type PrecompressStatus = 'compressed' | 'up-to-date' | 'not-smaller';
+
+/**
+ * Pre-compressed file
+ */
+export interface PrecompressedFile {
+	/**
+	 * File path
+	 */
+	path: string;
+	/**
+	 * Pre-compressed file path
+	 */
+	compressedPath: string;
+	/**
+	 * Content encoding
+	 */
+	encoding: string;
+	/**
+	 * File size
+	 */
+	size: number;
+	/**
+	 * Pre-compressed file size (undefined if no pre-compressed file is kept)
+	 */
+	compressedSize: number | undefined;
+	/**
+	 * Pre-compressed file status
+	 */
+	status: PrecompressStatus;
+}
+
+/**
+ * precompress result
+ */
+export interface PrecompressResult {
+	/**
+	 * Pre-compressed files
+	 */
+	files: PrecompressedFile[];
+	/**
+	 * Content encoding mappings matching the pre-compressed files (to be used with FileSystemStorage)
+	 */
+	contentEncodingMappings: ContentEncodingMapping[];
+}
+
+/**
+ * Get file modification time in milliseconds
+ *
+ * @param path - file path
+ * @returns modification time or undefined if the file does not exist
+ * @throws when the file can not be read
+ */
+async function getModificationTime(path: string) {
+	try {
+		const { mtimeMs } = await fsPromises.stat(path);
+		return mtimeMs;
+	} catch (error: unknown) {
+		if ((<NodeJS.ErrnoException> error).code === 'ENOENT') {
+			return undefined;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Write a file through a temporary hidden file renamed to the file path
+ * (the file is never partially written when it is read or when writing fails)
+ *
+ * @param path - file path
+ * @param content - file content
+ * @throws when the file can not be written
+ */
+async function writeFileAtomically(path: string, content: Buffer) {
+	const temporaryPath = join(dirname(path), `.${ basename(path) }.${ process.pid }.tmp`);
+	await fsPromises.writeFile(temporaryPath, content);
+	try {
+		await fsPromises.rename(temporaryPath, path);
+	} catch (error: unknown) {
+		await fsPromises.unlink(temporaryPath);
+		throw error;
+	}
+}
+
+/**
+ * List the files of a directory recursively (hidden files, links and pre-compressed files are skipped)
+ *
+ * @param storage - storage used to check the hidden file rules and the ignore pattern
+ * @param directory - directory path
+ * @param pathParts - path parts of the directory relative to root
+ * @returns file paths
+ */
+async function listFiles(
+	storage: FileSystemStorage,
+	directory: string,
+	pathParts: readonly string[] = [''],
+): Promise<string[]> {
+	const precompressedExtensions = Object.values(PRECOMPRESSED_EXTENSIONS);
+	const files: string[] = [];
+	const entries = await fsPromises.readdir(directory, { withFileTypes: true });
+	entries.sort((a, b) => a.name.localeCompare(b.name));
+	for (const entry of entries) {
+		const path = join(directory, entry.name);
+		const entryPathParts = [...pathParts, entry.name];
+		if (storage.getHiddenFileRule(entryPathParts)) {
+			continue;
+		}
+		if (entry.isDirectory()) {
+			// eslint-disable-next-line no-await-in-loop
+			files.push(...await listFiles(storage, path, entryPathParts));
+		} else if (entry.isFile() && !precompressedExtensions.includes(extname(entry.name))) {
+			files.push(path);
+		}
+	}
+	return files;
+}
+
+/**
+ * Create the content encoding mappings matching the pre-compressed file extensions
+ *
+ * @param files - pre-compressed files
+ * @param encodings - encodings ordered by preference
+ * @returns content encoding mappings
+ */
+function createContentEncodingMappings(files: readonly PrecompressedFile[], encodings: readonly string[]) {
+	const extensions = [
+		...new Set(
+			files.filter(({ compressedSize }) => compressedSize !== undefined)
+				.map(({ path }) => extname(path).slice(1))
+				.filter(extension => extension !== ''),
+		),
+	].sort((a, b) => a.localeCompare(b));
+	if (extensions.length === 0) {
+		return [];
+	}
+	const escapedExtensions = extensions.map(extension => extension.replace(/[$()*+.?[\\\]^{|}]/gu, '\\$&'));
+	return [
+		{
+			matcher: new RegExp(`^(?<path>.+\\.(?:${ escapedExtensions.join('|') }))$`, 'u'),
+			encodings: encodings.map(name => ({ name, path: `$<path>${ PRECOMPRESSED_EXTENSIONS[name] }` })),
+		},
+	];
+}
+
+/**
+ * Write pre-compressed files (`.br`, `.gz` and `.zst`) next to the compressible files of a directory
+ * (files are selected like dynamic compression: ignore pattern, mime type compressible function and minimum length)
+ *
+ * @param root - root folder path
+ * @param opts - precompress options (FileSystemStorage options are used to select and compress the files)
+ * @returns the pre-compressed files and the matching content encoding mappings
+ * @throws when an encoding is not supported or when files can not be read or written
+ */
+export async function precompress(root: string, opts: PrecompressOptions = {}): Promise<PrecompressResult> {
+	const storage = new FileSystemStorage(root, {
+		dynamicCompression: {
+			br: { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: zlib.constants.BROTLI_MAX_QUALITY } },
+			gzip: { level: zlib.constants.Z_BEST_COMPRESSION },
+		},
+		...opts,
+	});
+	const encodings = opts.encodings ?? (storage.zstdCompress ? ['zstd', 'br', 'gzip'] : ['br', 'gzip']);
+	for (const encoding of encodings) {
+		if (!Object.prototype.hasOwnProperty.call(PRECOMPRESSED_EXTENSIONS, encoding)) {
+			throw new Error(`${ encoding } is not supported as pre-compression encoding`);
+		}
+	}
+	const files: PrecompressedFile[] = [];
+	for (const path of await listFiles(storage, root)) {
+		const mimeType = storage.mimeTypeLookup(path) || storage.defaultMimeType;
+		// eslint-disable-next-line no-await-in-loop
+		const { size, mtimeMs } = await fsPromises.stat(path);
+		if (!mimeType || !storage.mimeTypeCompressible(mimeType) || size <= storage.dynamicCompressionMinLength) {
+			continue;
+		}
+		for (const encoding of encodings) {
+			const compressedPath = `${ path }${ PRECOMPRESSED_EXTENSIONS[encoding] }`;
+			// eslint-disable-next-line no-await-in-loop
+			const compressedMtimeMs = await getModificationTime(compressedPath);
+			if (compressedMtimeMs !== undefined && compressedMtimeMs >= mtimeMs) {
+				// eslint-disable-next-line no-await-in-loop
+				const { size: compressedSize } = await fsPromises.stat(compressedPath);
+				files.push({ path, compressedPath, encoding, size, compressedSize, status: 'up-to-date' });
+				continue;
+			}
+			// eslint-disable-next-line no-await-in-loop
+			const compressed = await readAll(
+				storage.createCompressedStream(createReadStream(path), encoding, size, mimeType),
+			);
+			if (compressed.byteLength < size) {
+				// eslint-disable-next-line no-await-in-loop
+				await writeFileAtomically(compressedPath, compressed);
+				files.push({
+					path,
+					compressedPath,
+					encoding,
+					size,
+					compressedSize: compressed.byteLength,
+					status: 'compressed',
+				});
+			} else {
+				if (compressedMtimeMs !== undefined) {
+					// outdated pre-compressed file
+					// eslint-disable-next-line no-await-in-loop
+					await fsPromises.unlink(compressedPath);
+				}
+				files.push({ path, compressedPath, encoding, size, compressedSize: undefined, status: 'not-smaller' });
+			}
+		}
+	}
+	return { files, contentEncodingMappings: createContentEncodingMappings(files, encodings) };
+}
+
+/**
+ * Format content encoding mappings as a javascript configuration
+ *
+ * @param contentEncodingMappings - content encoding mappings
+ * @returns the javascript configuration
+ */
+export function formatContentEncodingMappings(contentEncodingMappings: readonly ContentEncodingMapping[]) {
+	const lines = ['contentEncodingMappings: ['];
+	for (const { matcher, encodings } of contentEncodingMappings) {
+		lines.push(
+			'  {',
+			`    matcher: ${ matcher instanceof RegExp ? String(matcher) : JSON.stringify(matcher) },`,
+			'    encodings: [',
+			...encodings.map(({ name, path }) => `      { name: '${ name }', path: '${ path }' },`),
+			'    ],',
+			'  },',
+		);
+	}
+	lines.push('],');
+	return lines.join('\n');
+}
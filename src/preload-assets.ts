@@ -0,0 +1,58 @@
+import type { IncomingHttpHeaders } from 'http2';
+
+import type { StreamResponse } from './response';
+import type { StorageOptions, StorageInfo, StorageRequestHeaders, PreloadAsset } from './types';
+
+/**
+ * Get the critical assets of a file announced with 103 Early Hints (see preloadAssets storage option)
+ * (only HTML files have preloaded assets)
+ *
+ * @param preloadAssets - manifest of the assets by url path or function returning the assets of a file
+ * @param reference - file reference
+ * @param storageInfo - storage information
+ * @param path - url path of the served file (key of the manifest) or undefined if the storage has no url paths
+ * @returns the preloaded assets
+ */
+export function getPreloadAssets(
+	preloadAssets: StorageOptions['preloadAssets'],
+	reference: unknown,
+	storageInfo: StorageInfo<unknown>,
+	path: string | undefined,
+): readonly PreloadAsset[] {
+	if (!preloadAssets || storageInfo.mimeType !== 'text/html') {
+		return [];
+	}
+	if (typeof preloadAssets === 'function') {
+		return preloadAssets(reference, storageInfo) ?? [];
+	}
+	return path !== undefined && Object.prototype.hasOwnProperty.call(preloadAssets, path) ? preloadAssets[path] : [];
+}
+
+/**
+ * Create the function preparing the responses of the preloaded assets pushed over HTTP/2
+ * (the assets are requested with the Accept-Encoding header of the HTML request)
+ *
+ * @param preparePushResponse - function preparing the response of an asset from its url path
+ * @param requestHeaders - request headers of the HTML request
+ * @returns the function preparing the response of a pushed asset
+ */
+export function createPushResponsePreparer(
+	preparePushResponse: (path: string, requestHeaders: IncomingHttpHeaders) => Promise<StreamResponse<unknown>>,
+	requestHeaders: StorageRequestHeaders,
+) {
+	const { 'accept-encoding': acceptEncoding } = requestHeaders;
+	return async ({ path }: PreloadAsset) => {
+		const pushResponse = await preparePushResponse(
+			path,
+			{
+				':method': 'GET',
+				':path': path,
+				...acceptEncoding === undefined ? {} : { 'accept-encoding': acceptEncoding },
+			},
+		);
+		// the pushed assets do not announce their own assets
+		pushResponse.preloadAssets = undefined;
+		pushResponse.preparePushResponse = undefined;
+		return pushResponse;
+	};
+}
@@ -1,13 +1,13 @@
 
 import { ServerResponse } from 'http';
 import type { ServerHttp2Stream } from 'http2';
-import { Http2ServerResponse } from 'http2';
+import { Http2ServerResponse, constants as http2Constants } from 'http2';
 import type { Readable } from 'stream';
 import { pipeline as streamPipeline } from 'stream';
 import { promisify, types } from 'util';
 
 import type { ResponseHeaders } from './utils';
-import type { StorageInfo, SendOptions } from './types';
+import type { StorageInfo, SendOptions, PreloadAsset } from './types';
 import type { StorageError } from './error';
 
 const promisifiedStreamPipeline = promisify(streamPipeline);
@@ -31,10 +31,80 @@ async function pipeline(
 	}
 }
 
+/**
+ * Http response with the writeEarlyHints method (Node.js 18.11 and later)
+ */
+interface EarlyHintsResponse {
+	writeEarlyHints?: (hints: Record<string, string | string[]>) => void;
+}
+
+/**
+ * Create the Link header values of preloaded assets
+ *
+ * @param assets - preloaded assets
+ * @returns the Link header values
+ */
+function createPreloadLinks(assets: readonly PreloadAsset[]) {
+	return assets.map(({ path, as, crossorigin }) => `<${ path }>; rel=preload; as=${ as }${
+		crossorigin ? '; crossorigin' : ''
+	}`);
+}
+
+/**
+ * Push a preloaded asset over HTTP/2 (the push errors are ignored)
+ *
+ * @param resStream - http2 stream of the HTML response
+ * @param asset - preloaded asset
+ * @param preparePushResponse - function preparing the response of the pushed asset
+ */
+function pushPreloadAsset(
+	resStream: ServerHttp2Stream,
+	asset: PreloadAsset,
+	preparePushResponse: (asset: PreloadAsset) => Promise<StreamResponse<unknown>>,
+) {
+	resStream.pushStream({ ':path': asset.path }, (pushError, pushStream) => {
+		if (pushError) {
+			return;
+		}
+		pushStream.on('error', () => undefined);
+		preparePushResponse(asset)
+			.then(async response => {
+				if (response.statusCode !== 200) {
+					response.dispose();
+					pushStream.close(http2Constants.NGHTTP2_CANCEL);
+					return;
+				}
+				try {
+					await response.send(pushStream);
+				} finally {
+					response.dispose();
+				}
+			})
+			.catch(() => {
+				pushStream.destroy();
+			});
+	});
+}
+
 /**
  * Stream response
  */
 export class StreamResponse<AttachedData> {
+	/**
+	 * The error of the requested resource when a fallback resource is sent instead (e.g. with spaFallback option)
+	 */
+	fallbackError?: StorageError<unknown>;
+
+	/**
+	 * The critical assets announced with 103 Early Hints before the response (see preloadAssets storage option)
+	 */
+	preloadAssets?: readonly PreloadAsset[];
+
+	/**
+	 * Prepare the response of a preloaded asset pushed over HTTP/2 (see pushPreloadAssets storage option)
+	 */
+	preparePushResponse?: (asset: PreloadAsset) => Promise<StreamResponse<unknown>>;
+
 	/**
 	 * Create stream response
 	 *
@@ -64,8 +134,9 @@ export class StreamResponse<AttachedData> {
 		res: ServerResponse | Http2ServerResponse | ServerHttp2Stream,
 		{ ignorePrematureClose = true }: SendOptions = { ignorePrematureClose: true },
 	) {
-		const { statusCode } = this;
+		const { statusCode, preloadAssets, preparePushResponse } = this;
 		const { headers: responseHeaders, stream: readStream } = this;
+		const links = preloadAssets && preloadAssets.length > 0 ? createPreloadLinks(preloadAssets) : undefined;
 
 		if (res.headersSent) {
 			readStream.destroy();
@@ -77,6 +148,10 @@ export class StreamResponse<AttachedData> {
 				readStream.destroy();
 				return;
 			}
+			const { writeEarlyHints } = <EarlyHintsResponse> res;
+			if (links && writeEarlyHints) {
+				writeEarlyHints.call(res, { link: links });
+			}
 			res.writeHead(statusCode, responseHeaders);
 			await pipeline(readStream, res, ignorePrematureClose);
 		} else {
@@ -85,6 +160,14 @@ export class StreamResponse<AttachedData> {
 				readStream.destroy();
 				return;
 			}
+			if (links && preloadAssets) {
+				resStream.additionalHeaders({ ':status': 103, link: links });
+				if (preparePushResponse && resStream.pushAllowed) {
+					for (const asset of preloadAssets) {
+						pushPreloadAsset(resStream, asset, preparePushResponse);
+					}
+				}
+			}
 			resStream.respond({
 				':status': statusCode,
 				...responseHeaders,
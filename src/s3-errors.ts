@@ -0,0 +1,56 @@
+import { StorageError } from './error';
+
+/**
+ * S3 storage error
+ */
+export class S3StorageError extends StorageError<string> {
+	/**
+	 * Status code returned by the S3 server (undefined if the request was not sent)
+	 */
+	readonly statusCode: number | undefined;
+
+	/**
+	 * Create S3 storage error
+	 *
+	 * @param message - error message
+	 * @param key - object key
+	 * @param statusCode - status code returned by the S3 server
+	 */
+	constructor(message: string, key: string, statusCode?: number) {
+		super(message, key);
+		this.name = 'S3StorageError';
+		this.statusCode = statusCode;
+	}
+}
+
+/**
+ * S3 storage error
+ */
+export class S3ObjectNotFoundError extends S3StorageError {
+	/**
+	 * Create S3 storage error
+	 *
+	 * @param message - error message
+	 * @param key - object key
+	 */
+	constructor(message: string, key: string) {
+		super(message, key, 404);
+		this.name = 'S3ObjectNotFoundError';
+	}
+}
+
+/**
+ * S3 storage error
+ */
+export class S3KeyNotNormalizedError extends S3StorageError {
+	/**
+	 * Create S3 storage error
+	 *
+	 * @param message - error message
+	 * @param key - object key
+	 */
+	constructor(message: string, key: string) {
+		super(message, key);
+		this.name = 'S3KeyNotNormalizedError';
+	}
+}
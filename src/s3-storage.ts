@@ -0,0 +1,319 @@
+import { createHash, createHmac } from 'crypto';
+import type { IncomingMessage, ClientRequest, IncomingHttpHeaders } from 'http';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { PassThrough, pipeline } from 'stream';
+import type { Readable } from 'stream';
+// eslint-disable-next-line node/prefer-global/url
+import { URL } from 'url';
+
+import { Storage } from './storage';
+import type { StorageRequestHeaders, StorageInfo } from './types';
+import type { StreamRange } from './utils';
+import type { S3Credentials, S3ObjectData, S3Request, S3StorageOptions } from './s3-types';
+import { S3StorageError, S3ObjectNotFoundError, S3KeyNotNormalizedError } from './s3-errors';
+
+const EMPTY_PAYLOAD_HASH = createHash('sha256').update('')
+	.digest('hex');
+
+/**
+ * Encode an object key into an URL path (every character except unreserved ones and slashes are encoded)
+ *
+ * @param key - object key
+ * @returns the encoded path
+ */
+export function encodeS3Key(key: string) {
+	return key.split('/')
+		.map(segment => encodeURIComponent(segment).replace(
+			/[!'()*]/ug,
+			char => `%${ char.charCodeAt(0).toString(16)
+				.toUpperCase() }`,
+		))
+		.join('/');
+}
+
+/**
+ * Sign an S3 request with AWS Signature Version 4 (unsigned query string and empty payload)
+ *
+ * @param s3Request - the request to sign
+ * @param region - the region
+ * @param credentials - the credentials
+ * @param date - the request date
+ * @returns the request headers with the authorization header
+ */
+export function signS3Request(
+	s3Request: S3Request,
+	region: string,
+	credentials: S3Credentials,
+	date = new Date(),
+) {
+	const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/ug, '');
+	const dateStamp = amzDate.slice(0, 8);
+	const headers: Record<string, string> = {
+		...s3Request.headers,
+		'x-amz-date': amzDate,
+		'x-amz-content-sha256': EMPTY_PAYLOAD_HASH,
+	};
+	if (credentials.sessionToken) {
+		headers['x-amz-security-token'] = credentials.sessionToken;
+	}
+	const signedHeaders = Object.entries({ ...headers, host: s3Request.host })
+		.map(([name, value]) => <const> [name.toLowerCase(), value.trim()])
+		.sort(([name1], [name2]) => name1 < name2 ? -1 : 1);
+	const signedHeaderNames = signedHeaders.map(([name]) => name).join(';');
+	const canonicalRequest = [
+		s3Request.method,
+		s3Request.path,
+		'',
+		...signedHeaders.map(([name, value]) => `${ name }:${ value }`),
+		'',
+		signedHeaderNames,
+		EMPTY_PAYLOAD_HASH,
+	].join('\n');
+	const scope = `${ dateStamp }/${ region }/s3/aws4_request`;
+	const stringToSign = [
+		'AWS4-HMAC-SHA256',
+		amzDate,
+		scope,
+		createHash('sha256').update(canonicalRequest)
+			.digest('hex'),
+	].join('\n');
+	let signingKey = createHmac('sha256', `AWS4${ credentials.secretAccessKey }`).update(dateStamp)
+		.digest();
+	for (const part of [region, 's3', 'aws4_request']) {
+		signingKey = createHmac('sha256', signingKey).update(part)
+			.digest();
+	}
+	const signature = createHmac('sha256', signingKey).update(stringToSign)
+		.digest('hex');
+	headers.authorization = `AWS4-HMAC-SHA256 Credential=${ credentials.accessKeyId }/${ scope }, `
+		+ `SignedHeaders=${ signedHeaderNames }, Signature=${ signature }`;
+	return headers;
+}
+
+/**
+ * S3 compatible object storage (objects are retrieved by key)
+ */
+export class S3Storage extends Storage<string, S3ObjectData> {
+	/**
+	 * Bucket name
+	 */
+	readonly bucket: string;
+
+	/**
+	 * Region used to sign requests
+	 */
+	readonly region: string;
+
+	/**
+	 * Endpoint URL
+	 */
+	readonly endpoint: URL;
+
+	/**
+	 * Use path-style URLs
+	 */
+	readonly forcePathStyle: boolean;
+
+	/**
+	 * Credentials used to sign requests (or undefined for anonymous requests)
+	 */
+	readonly credentials: S3Credentials | undefined;
+
+	/**
+	 * Create S3 storage
+	 *
+	 * @param opts - S3 storage options
+	 */
+	constructor(opts: S3StorageOptions) {
+		super(opts);
+		this.bucket = opts.bucket;
+		this.region = opts.region ?? 'us-east-1';
+		this.endpoint = new URL(opts.endpoint ?? `https://s3.${ this.region }.amazonaws.com`);
+		this.forcePathStyle = opts.forcePathStyle ?? false;
+		this.credentials = opts.credentials;
+	}
+
+	/**
+	 * Create the (signed if credentials are set) request to the S3 server
+	 *
+	 * @param method - http method
+	 * @param key - object key
+	 * @param headers - request headers
+	 * @returns S3 request
+	 */
+	createS3Request(method: string, key: string, headers: Record<string, string>): S3Request {
+		const { endpoint, bucket, region, credentials, forcePathStyle } = this;
+		const s3Request = forcePathStyle
+			? { method, host: endpoint.host, path: `/${ bucket }/${ encodeS3Key(key) }`, headers }
+			: { method, host: `${ bucket }.${ endpoint.host }`, path: `/${ encodeS3Key(key) }`, headers };
+		if (credentials) {
+			s3Request.headers = signS3Request(s3Request, region, credentials);
+		}
+		return s3Request;
+	}
+
+	/**
+	 * Send a request to the S3 server
+	 *
+	 * @param method - http method
+	 * @param key - object key
+	 * @param headers - request headers
+	 * @param callback - response callback
+	 * @returns the client request
+	 */
+	sendS3Request(
+		method: string,
+		key: string,
+		headers: Record<string, string>,
+		callback: (response: IncomingMessage) => void,
+	): ClientRequest {
+		const { endpoint } = this;
+		const s3Request = this.createS3Request(method, key, headers);
+		const request = endpoint.protocol === 'https:' ? httpsRequest : httpRequest;
+		const clientRequest = request(
+			{
+				protocol: endpoint.protocol,
+				hostname: endpoint.hostname,
+				port: endpoint.port,
+				method,
+				path: s3Request.path,
+				headers: { ...s3Request.headers, host: s3Request.host },
+			},
+			callback,
+		);
+		clientRequest.end();
+		return clientRequest;
+	}
+
+	/**
+	 * Convert an url path to an object key (used by StorageRouter for the routes without reference function)
+	 *
+	 * @param path - url encoded path (starting with '/', without query string)
+	 * @returns the object key
+	 * @throws when the path is malformed
+	 */
+	// eslint-disable-next-line class-methods-use-this
+	override createReferenceFromUrlPath(path: string) {
+		return decodeURIComponent(path.slice(1));
+	}
+
+	/**
+	 * Open object (HeadObject request)
+	 *
+	 * @param key - object key
+	 * @param _requestHeaders - request headers (unused)
+	 * @returns StorageInfo object
+	 * @throws S3StorageError
+	 */
+	async open(key: string, _requestHeaders: StorageRequestHeaders): Promise<StorageInfo<S3ObjectData>> {
+		if (key === '' || key.endsWith('/')) {
+			throw new S3StorageError(`${ key } is not a valid object key`, key);
+		}
+		if (key.split('/').some(segment => segment === '' || segment === '.' || segment === '..')) {
+			throw new S3KeyNotNormalizedError(
+				`${ key } is not a normalized object key (should not contain empty, '.' or '..' segments)`,
+				key,
+			);
+		}
+		const headers = await new Promise<IncomingHttpHeaders>((resolve, reject) => {
+			this.sendS3Request('HEAD', key, {}, response => {
+				response.resume();
+				const { statusCode } = response;
+				if (statusCode === 404) {
+					reject(new S3ObjectNotFoundError(`${ key } does not exist`, key));
+				} else if (statusCode === 200) {
+					resolve(response.headers);
+				} else {
+					reject(new S3StorageError(
+						`${ key } can not be opened (status ${ String(statusCode) })`,
+						key,
+						statusCode,
+					));
+				}
+			}).on('error', reject);
+		});
+		const {
+			'content-length': contentLength,
+			'last-modified': lastModified,
+			'content-type': contentType,
+			'content-encoding': contentEncoding,
+			'cache-control': cacheControl,
+			etag,
+		} = headers;
+		const [mimeType, ...parameters] = (contentType ?? '').split(';');
+		const charset = parameters.map(parameter => /^\s*charset=(?<charset>.+)$/ui.exec(parameter)?.groups?.charset)
+			.find(Boolean);
+		return {
+			attachedData: { key, headers },
+			fileName: key.slice(key.lastIndexOf('/') + 1),
+			size: contentLength === undefined ? undefined : Number(contentLength),
+			lastModified,
+			mtimeMs: lastModified === undefined ? undefined : Date.parse(lastModified),
+			etag,
+			// binary/octet-stream is the default type of S3 objects, let the mime type lookup guess it
+			mimeType: mimeType === 'binary/octet-stream' ? undefined : mimeType.trim() || undefined,
+			mimeTypeCharset: charset,
+			contentEncoding,
+			cacheControl,
+		};
+	}
+
+	/**
+	 * Create readable stream from object (GetObject request, checking the object etag of HeadObject did not change
+	 * since open, the etag of the storage information can be a custom one)
+	 *
+	 * @param storageInfo - storage information
+	 * @param range - range to use or undefined if size is unknown
+	 * @param _autoClose - true if stream should close itself (unused, there is nothing to close)
+	 * @returns readable stream
+	 */
+	createReadableStream(
+		storageInfo: StorageInfo<S3ObjectData>,
+		range: StreamRange | undefined,
+		_autoClose: boolean,
+	): Readable {
+		const { attachedData: { key, headers: { etag } } } = storageInfo;
+		const headers: Record<string, string> = {};
+		if (range) {
+			headers.range = `bytes=${ range.start }-${ range.end }`;
+		}
+		if (etag) {
+			headers['if-match'] = etag;
+		}
+		// destroyed on end (not by default on Node.js 12)
+		const stream = new PassThrough({ autoDestroy: true });
+		const clientRequest = this.sendS3Request('GET', key, headers, response => {
+			const { statusCode } = response;
+			if (statusCode !== (range ? 206 : 200)) {
+				response.resume();
+				stream.destroy(new S3StorageError(
+					`${ key } can not be read (status ${ String(statusCode) })`,
+					key,
+					statusCode,
+				));
+				return;
+			}
+			pipeline(response, stream, () => {
+				// errors are forwarded to the stream by pipeline
+			});
+		});
+		clientRequest.on('error', err => {
+			stream.destroy(err);
+		});
+		stream.on('close', () => {
+			clientRequest.destroy();
+		});
+		return stream;
+	}
+
+	/**
+	 * Close storage information (nothing to close, requests are done when streams end)
+	 *
+	 * @param _storageInfo - storage information (unused)
+	 */
+	// eslint-disable-next-line class-methods-use-this
+	async close(_storageInfo: StorageInfo<S3ObjectData>): Promise<void> {
+		// nothing to close
+	}
+}
@@ -0,0 +1,90 @@
+import type { IncomingHttpHeaders } from 'http';
+
+import type { StorageOptions } from './types';
+
+/**
+ * S3 credentials
+ */
+export interface S3Credentials {
+	/**
+	 * Access key id
+	 */
+	accessKeyId: string;
+	/**
+	 * Secret access key
+	 */
+	secretAccessKey: string;
+	/**
+	 * Session token (for temporary credentials)
+	 */
+	sessionToken?: string;
+}
+
+/**
+ * S3Storage options
+ */
+export interface S3StorageOptions extends StorageOptions {
+	/**
+	 * Bucket name
+	 */
+	bucket: string;
+	/**
+	 * Region used to sign requests
+	 *
+	 * Defaults to `'us-east-1'`
+	 */
+	region?: string;
+	/**
+	 * Endpoint URL, e.g. `'http://localhost:9000'` for a local MinIO server
+	 *
+	 * Defaults to `'https://s3.<region>.amazonaws.com'`
+	 */
+	endpoint?: string;
+	/**
+	 * Use path-style URLs (`<endpoint>/<bucket>/<key>`)
+	 * instead of virtual-hosted-style URLs (`<bucket>.<endpoint>/<key>`)
+	 *
+	 * Defaults to `false`
+	 */
+	forcePathStyle?: boolean;
+	/**
+	 * Credentials used to sign requests (requests are anonymous when not set)
+	 */
+	credentials?: S3Credentials;
+}
+
+/**
+ * Object data used by S3 storage
+ */
+export interface S3ObjectData {
+	/**
+	 * Object key
+	 */
+	key: string;
+	/**
+	 * HeadObject response headers
+	 */
+	headers: IncomingHttpHeaders;
+}
+
+/**
+ * S3 request to be signed
+ */
+export interface S3Request {
+	/**
+	 * Http method
+	 */
+	method: string;
+	/**
+	 * Host header
+	 */
+	host: string;
+	/**
+	 * Encoded path (without query string)
+	 */
+	path: string;
+	/**
+	 * Request headers (lowercase names)
+	 */
+	headers: Record<string, string>;
+}
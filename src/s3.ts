@@ -0,0 +1,3 @@
+export * from './s3-types';
+export * from './s3-errors';
+export { encodeS3Key, signS3Request, S3Storage } from './s3-storage';
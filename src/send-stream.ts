@@ -1,10 +1,13 @@
-
 export * from './utils';
 export * from './streams';
 export * from './types';
 export * from './error';
+export * from './error-responses';
 export * from './response';
 export * from './storage';
-export * from './file-system-types';
-export * from './file-system-errors';
-export * from './file-system-storage';
+export * from './file-system';
+export * from './caching';
+export * from './s3';
+export * from './archives';
+export * from './precompress';
+export * from './storage-routing';
@@ -0,0 +1,33 @@
+import { StorageError } from './error';
+
+/**
+ * Storage router error
+ */
+export class StorageRouterError extends StorageError<string> {
+	/**
+	 * Create storage router error
+	 *
+	 * @param message - error message
+	 * @param path - requested path
+	 */
+	constructor(message: string, path: string) {
+		super(message, path);
+		this.name = 'StorageRouterError';
+	}
+}
+
+/**
+ * No matching route error
+ */
+export class NoMatchingRouteError extends StorageRouterError {
+	/**
+	 * Create no matching route error
+	 *
+	 * @param message - error message
+	 * @param path - requested path
+	 */
+	constructor(message: string, path: string) {
+		super(message, path);
+		this.name = 'NoMatchingRouteError';
+	}
+}
@@ -0,0 +1,37 @@
+import type { Storage } from './storage';
+import type { StorageInfo } from './types';
+
+/**
+ * Storage route with a function converting the routed path to the storage reference
+ */
+export interface StorageRoute<Reference> {
+	/**
+	 * Routed storage
+	 */
+	storage: Storage<Reference, unknown>;
+	/**
+	 * Convert the routed path (url encoded path starting with `/`, without the route prefix and the query string)
+	 * to the storage reference, e.g. `path => decodeURIComponent(path.slice(1))` for object keys
+	 *
+	 * Defaults to the createReferenceFromUrlPath method of the storage or to the routed path with the query string
+	 */
+	reference?: (path: string) => Reference;
+}
+
+/**
+ * Routed data used by storage router
+ */
+export interface RoutedData {
+	/**
+	 * Route prefix
+	 */
+	prefix: string;
+	/**
+	 * Routed storage
+	 */
+	storage: Storage<unknown, unknown>;
+	/**
+	 * Storage information from the routed storage
+	 */
+	storageInfo: StorageInfo<unknown>;
+}
@@ -0,0 +1,262 @@
+import type * as http2 from 'http2';
+import type { Readable } from 'stream';
+
+import { Storage } from './storage';
+import { StreamResponse } from './response';
+import { createPushResponsePreparer } from './preload-assets';
+import type {
+	StorageOptions,
+	StorageRequest,
+	StorageRequestHeaders,
+	StorageInfo,
+	PrepareResponseOptions,
+} from './types';
+import type { StreamRange } from './utils';
+import { getRequestHeaders } from './utils';
+import type { RoutedData, StorageRoute } from './storage-router-types';
+import { StorageRouterError, NoMatchingRouteError } from './storage-router-errors';
+
+/**
+ * Route with its prefix parts
+ */
+interface ParsedRoute {
+	prefix: string;
+	prefixParts: readonly string[];
+	storage: Storage<unknown, unknown>;
+	reference?: (path: string) => unknown;
+}
+
+/**
+ * Decode url encoded path part
+ *
+ * @param part - url encoded path part
+ * @returns the decoded path part or undefined if it is malformed
+ */
+function decodePathPart(part: string) {
+	try {
+		return decodeURIComponent(part);
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Storage routing paths to storages by path prefix (the longest matching prefix is used)
+ */
+export class StorageRouter extends Storage<string, RoutedData> {
+	/**
+	 * Routes ordered by decreasing prefix length
+	 */
+	readonly routes: readonly ParsedRoute[];
+
+	/**
+	 * Create storage router
+	 *
+	 * @param routes - storages (or storage routes) by path prefix, e.g. `{ '/static': fsStorage, '/': otherStorage }`
+	 * @param opts - storage options (used to create the routing error responses,
+	 * the other responses are prepared by the routed storages with their own options)
+	 * @throws when a route prefix does not start with '/'
+	 */
+	constructor(
+		routes: Readonly<Record<string, Storage<string, unknown> | StorageRoute<unknown>>>,
+		opts: StorageOptions = {},
+	) {
+		super(opts);
+		this.routes = Object.entries(routes)
+			.map(([prefix, route]) => {
+				if (!prefix.startsWith('/')) {
+					throw new Error(`'${ prefix }' is not a valid route prefix (should start with '/')`);
+				}
+				return {
+					prefix,
+					prefixParts: prefix.split('/').filter(part => part !== ''),
+					...route instanceof Storage ? { storage: route } : route,
+				};
+			})
+			.sort((a, b) => b.prefixParts.length - a.prefixParts.length);
+	}
+
+	/**
+	 * Find the route of a path
+	 *
+	 * @param path - url encoded path (starting with '/', can contain a query string)
+	 * @returns the route, the routed path (url encoded path without the route prefix and the query string)
+	 * and the query string
+	 * @throws when the path is not valid or when no route matches
+	 */
+	findRoute(path: string) {
+		if (!path.startsWith('/')) {
+			throw new StorageRouterError(`'${ path }' is not a valid path (should start with '/')`, path);
+		}
+		const queryIndex = path.indexOf('?');
+		const pathname = queryIndex === -1 ? path : path.slice(0, queryIndex);
+		const query = queryIndex === -1 ? '' : path.slice(queryIndex);
+		const pathParts = pathname.split('/').slice(1);
+		const decodedPathParts = pathParts.map(decodePathPart);
+		if (decodedPathParts.some(part => part === '.' || part === '..')) {
+			throw new StorageRouterError(`${ path } is not normalized`, path);
+		}
+		const route = this.routes.find(
+			({ prefixParts }) => prefixParts.every((part, index) => decodedPathParts[index] === part),
+		);
+		if (!route) {
+			throw new NoMatchingRouteError(`${ path } does not match any route`, path);
+		}
+		return { route, routedPath: `/${ pathParts.slice(route.prefixParts.length).join('/') }`, query };
+	}
+
+	/**
+	 * Find the route of a path and convert the routed path to the reference of the routed storage
+	 * (the route reference function and the createReferenceFromUrlPath method of the routed storage get the routed path
+	 * without the query string, the other storages get the routed path with the query string)
+	 *
+	 * @param path - url encoded path (starting with '/', can contain a query string)
+	 * @returns the route and the reference of the routed storage
+	 * @throws when the path is not valid, when no route matches or when the routed path can not be converted
+	 */
+	resolveRoute(path: string) {
+		const { route, routedPath, query } = this.findRoute(path);
+		const { storage, reference } = route;
+		if (reference) {
+			return { route, reference: reference(routedPath) };
+		}
+		if (storage.createReferenceFromUrlPath) {
+			return { route, reference: storage.createReferenceFromUrlPath(routedPath) };
+		}
+		return { route, reference: `${ routedPath }${ query }` };
+	}
+
+	/**
+	 * Prepare to send file, the response is prepared by the routed storage with its own options
+	 * (the router options only apply to the routing errors)
+	 *
+	 * @param path - url encoded path (starting with '/', can contain a query string)
+	 * @param req - request headers or request objects
+	 * @param [opts] - options
+	 * @returns status, response headers and body to use
+	 * @throws when method is incorrect or when the routed storage can not create the storage stream
+	 */
+	override async prepareResponse(
+		path: string,
+		req: StorageRequest,
+		opts: PrepareResponseOptions = {},
+	): Promise<StreamResponse<RoutedData>> {
+		let resolved;
+		try {
+			resolved = this.resolveRoute(path);
+		} catch {
+			// the routing error response is created by the router
+			return super.prepareResponse(path, req, opts);
+		}
+		const { route: { prefix, prefixParts, storage }, reference } = resolved;
+		const response = await storage.prepareResponse(reference, req, opts);
+		const { statusCode, headers, stream, storageInfo, error } = response;
+		const { fallbackError, preloadAssets, preparePushResponse } = response;
+		const { Location: location } = headers;
+		// the absolute locations of the routed storage do not contain the route prefix
+		if (typeof location === 'string' && location.startsWith('/')) {
+			const encodedPrefix = prefixParts.map(part => `/${ encodeURIComponent(part) }`).join('');
+			headers['Location'] = `${ encodedPrefix }${ location }`;
+		}
+		const routedResponse = new StreamResponse<RoutedData>(
+			statusCode,
+			headers,
+			stream,
+			storageInfo && { ...storageInfo, attachedData: { prefix, storage, storageInfo } },
+			error,
+		);
+		routedResponse.fallbackError = fallbackError;
+		routedResponse.preloadAssets = preloadAssets;
+		if (preparePushResponse) {
+			// the url paths of the pushed assets contain the route prefix
+			routedResponse.preparePushResponse = createPushResponsePreparer(
+				this.preparePushResponse.bind(this),
+				getRequestHeaders(req),
+			);
+		}
+		return routedResponse;
+	}
+
+	/**
+	 * Create the key used to cache the content hash (delegated to the routed storage)
+	 *
+	 * @param storageInfo - storage information
+	 * @returns the cache key or false if the content hash should not be cached
+	 */
+	// eslint-disable-next-line class-methods-use-this
+	override createContentHashCacheKey(storageInfo: StorageInfo<RoutedData>) {
+		const { attachedData: { prefix, storage, storageInfo: routedStorageInfo } } = storageInfo;
+		const key = storage.createContentHashCacheKey(routedStorageInfo);
+		return key === false ? false : JSON.stringify([prefix, key]);
+	}
+
+	/**
+	 * Get the url path of a file with the route prefix (delegated to the routed storage)
+	 *
+	 * @param storageInfo - storage information
+	 * @returns the url path or undefined if the routed storage has no url paths
+	 */
+	// eslint-disable-next-line class-methods-use-this
+	override getPreloadAssetsPath(storageInfo: StorageInfo<RoutedData>) {
+		const { attachedData: { prefix, storage, storageInfo: routedStorageInfo } } = storageInfo;
+		const path = storage.getPreloadAssetsPath(routedStorageInfo);
+		return path === undefined ? undefined : `${ prefix.replace(/\/+$/u, '') }${ path }`;
+	}
+
+	/**
+	 * Prepare the response of a preloaded asset pushed over HTTP/2 (the url path of the asset is routed)
+	 *
+	 * @param path - url path of the asset
+	 * @param requestHeaders - request headers of the pushed stream
+	 * @returns the response of the asset
+	 */
+	override async preparePushResponse(path: string, requestHeaders: http2.IncomingHttpHeaders) {
+		return this.prepareResponse(path, requestHeaders);
+	}
+
+	/**
+	 * Open file from the routed storage (used when the router is wrapped, e.g. by CachingStorage)
+	 *
+	 * @param path - url encoded path
+	 * @param requestHeaders - request headers
+	 * @returns StorageInfo object
+	 * @throws when no route matches or when the file can not be opened
+	 */
+	async open(path: string, requestHeaders: StorageRequestHeaders): Promise<StorageInfo<RoutedData>> {
+		const { route: { prefix, storage }, reference } = this.resolveRoute(path);
+		const storageInfo = await storage.open(reference, requestHeaders);
+		return {
+			...storageInfo,
+			attachedData: { prefix, storage, storageInfo },
+		};
+	}
+
+	/**
+	 * Create readable stream from the routed storage
+	 *
+	 * @param storageInfo - storage information
+	 * @param range - range to use or undefined if size is unknown
+	 * @param autoClose - true if stream should close itself
+	 * @returns readable stream
+	 */
+	// eslint-disable-next-line class-methods-use-this
+	createReadableStream(
+		storageInfo: StorageInfo<RoutedData>,
+		range: StreamRange | undefined,
+		autoClose: boolean,
+	): Readable {
+		const { attachedData: { storage, storageInfo: routedStorageInfo } } = storageInfo;
+		return storage.createReadableStream(routedStorageInfo, range, autoClose);
+	}
+
+	/**
+	 * Close the routed storage information
+	 *
+	 * @param storageInfo - storage information
+	 */
+	// eslint-disable-next-line class-methods-use-this
+	async close(storageInfo: StorageInfo<RoutedData>): Promise<void> {
+		const { attachedData: { storage, storageInfo: routedStorageInfo } } = storageInfo;
+		await storage.close(routedStorageInfo);
+	}
+}
@@ -0,0 +1,3 @@
+export * from './storage-router-types';
+export * from './storage-router-errors';
+export { StorageRouter } from './storage-router';
@@ -1,8 +1,7 @@
-
 import * as http from 'http';
 import * as http2 from 'http2';
+import { createHash } from 'crypto';
 import type { Readable } from 'stream';
-import { pipeline } from 'stream';
 import * as zlib from 'zlib';
 
 import contentDisposition from 'content-disposition';
@@ -12,25 +11,42 @@ import compressible from 'compressible';
 
 import { StreamResponse } from './response';
 import { BufferStream, MultiStream } from './streams';
+import { compressStream, cacheCompressedStream } from './dynamic-compression';
+import { getPreloadAssets, createPushResponsePreparer } from './preload-assets';
 import type { ResponseHeaders, Uint8ArrayOrStreamRange } from './utils';
 import {
 	millisecondsToUTCString,
 	statsToEtag,
+	hashToEtag,
 	getFreshStatus,
 	isRangeFresh,
 	contentRange,
 	randomBytes,
 	StreamRange,
 	acceptEncodings,
+	getZlibZstdCompress,
+	acceptMimeType,
 } from './utils';
 import type {
 	StorageOptions,
+	DynamicCompressionOptions,
+	DynamicCompressionEncodingOptions,
+	CompressionCache,
+	CompressionCacheEntry,
 	PrepareResponseOptions,
+	StorageRequest,
 	StorageRequestHeaders,
 	StorageInfo,
 	StorageSendOptions,
 } from './types';
-import { StorageError } from './error';
+import { StorageError, RedirectError } from './error';
+import {
+	DEFAULT_ERROR_STATUS_CODES,
+	ERROR_FORMAT_MIME_TYPES,
+	renderErrorText,
+	renderErrorHTML,
+	renderErrorProblemDetails,
+} from './error-responses';
 
 const DEFAULT_ALLOWED_METHODS = <const> ['GET', 'HEAD'];
 const DEFAULT_MAX_RANGES = 200;
@@ -54,6 +70,21 @@ export abstract class Storage<Reference, AttachedData> {
 	 */
 	readonly weakEtags: boolean;
 
+	/**
+	 * Etag generation mode
+	 */
+	readonly etagMode: NonNullable<StorageOptions['etagMode']>;
+
+	/**
+	 * Hash algorithm used to generate etags when etag mode is 'hash'
+	 */
+	readonly etagHashAlgorithm: NonNullable<StorageOptions['etagHashAlgorithm']>;
+
+	/**
+	 * Content hashes cache (by cache key)
+	 */
+	readonly contentHashCache = new Map<string, { size: number; mtimeMs: number; hash: string }>();
+
 	/**
 	 * Mime type lookup function
 	 */
@@ -65,11 +96,13 @@ export abstract class Storage<Reference, AttachedData> {
 	readonly mimeTypeDefaultCharset: NonNullable<StorageOptions['mimeTypeDefaultCharset']>;
 
 	/**
-	 * Dynamic compression preferences or false
+	 * Dynamic compression preferences and options or false
 	 */
 	readonly dynamicCompression: {
 		encodingPreferences: ReadonlyMap<string, { order: number }>;
 		identityEncodingPreference: { order: number };
+		encodingOptions: DynamicCompressionEncodingOptions;
+		mimeTypeEncodingOptions: readonly { matcher: RegExp; encodingOptions: DynamicCompressionEncodingOptions }[];
 	} | false;
 
 	/**
@@ -82,33 +115,108 @@ export abstract class Storage<Reference, AttachedData> {
 	 */
 	readonly dynamicCompressionMinLength: number;
 
+	/**
+	 * Zstd compression stream function (undefined if zstd compression is not available)
+	 */
+	readonly zstdCompress: StorageOptions['zstdCompress'];
+
+	/**
+	 * Cache of the dynamically compressed contents
+	 */
+	readonly compressionCache: CompressionCache | undefined;
+
+	/**
+	 * Status codes of the storage error responses by error name
+	 */
+	readonly errorStatusCodes: Readonly<Record<string, number>>;
+
+	/**
+	 * Storage error response body formats ordered by priority
+	 */
+	readonly errorFormats: readonly ('text' | 'html' | 'json')[];
+
+	/**
+	 * Render all the error responses as problem details
+	 */
+	readonly problemDetails: boolean;
+
+	/**
+	 * Critical assets of the HTML files manifest or function (undefined if disabled)
+	 */
+	readonly preloadAssets: StorageOptions['preloadAssets'];
+
+	/**
+	 * Push the preloaded assets over HTTP/2
+	 */
+	readonly pushPreloadAssets: boolean;
+
 	/**
 	 * Create storage
 	 *
 	 * @param opts - storage options
+	 * @throws when no error format is given
 	 */
 	constructor(opts: StorageOptions = {}) {
 		this.mimeTypeLookup = opts.mimeTypeLookup ?? lookup;
 		this.mimeTypeDefaultCharset = opts.mimeTypeDefaultCharset ?? charset;
+		this.zstdCompress = opts.zstdCompress ?? getZlibZstdCompress(zlib);
 		if (opts.dynamicCompression) {
-			const encodingPreferences: Map<string, { order: number }>
-				= opts.dynamicCompression === true
-					? new Map([['br', { order: 0 }], ['gzip', { order: 1 }], ['identity', { order: 2 }]])
-					: new Map(opts.dynamicCompression.map((name, order) => [name, { order }]));
+			let dynamicCompressionOptions: DynamicCompressionOptions;
+			if (opts.dynamicCompression === true) {
+				dynamicCompressionOptions = {};
+			} else if (Array.isArray(opts.dynamicCompression)) {
+				dynamicCompressionOptions = { encodings: opts.dynamicCompression };
+			} else {
+				dynamicCompressionOptions = opts.dynamicCompression;
+			}
+			const {
+				encodings = this.zstdCompress ? ['br', 'zstd', 'gzip', 'identity'] : ['br', 'gzip', 'identity'],
+				mimeTypes = [],
+				br,
+				gzip,
+				zstd,
+			} = dynamicCompressionOptions;
+			const encodingPreferences = new Map(encodings.map((name, order) => [name, { order }]));
 			let identityEncodingPreference = encodingPreferences.get('identity');
 			if (!identityEncodingPreference) {
 				identityEncodingPreference = { order: encodingPreferences.size };
 				encodingPreferences.set('identity', identityEncodingPreference);
 			}
-			this.dynamicCompression = { encodingPreferences, identityEncodingPreference };
+			this.dynamicCompression = {
+				encodingPreferences,
+				identityEncodingPreference,
+				encodingOptions: { br, gzip, zstd },
+				mimeTypeEncodingOptions: mimeTypes.map(({ matcher, ...encodingOptions }) => ({
+					matcher: matcher instanceof RegExp ? matcher : new RegExp(matcher, 'u'),
+					encodingOptions,
+				})),
+			};
 		} else {
 			this.dynamicCompression = false;
 		}
 		this.mimeTypeCompressible = opts.mimeTypeCompressible ?? compressible;
 		this.dynamicCompressionMinLength = opts.dynamicCompressionMinLength ?? 20;
+		this.compressionCache = opts.compressionCache;
 		this.defaultMimeType = opts.defaultMimeType ?? false;
 		this.maxRanges = opts.maxRanges ?? DEFAULT_MAX_RANGES;
 		this.weakEtags = opts.weakEtags === true;
+		this.etagMode = opts.etagMode ?? 'stats';
+		this.etagHashAlgorithm = opts.etagHashAlgorithm ?? 'sha1';
+		this.errorStatusCodes = opts.errorStatusCodes === true
+			? DEFAULT_ERROR_STATUS_CODES
+			: opts.errorStatusCodes ? opts.errorStatusCodes : {};
+		this.errorFormats = opts.errorFormats ? [...opts.errorFormats] : ['text'];
+		this.problemDetails = opts.problemDetails === true;
+		this.preloadAssets = opts.preloadAssets;
+		this.pushPreloadAssets = opts.pushPreloadAssets === true;
+		if (this.errorFormats.length === 0) {
+			throw new Error('at least one error format is required');
+		}
+		for (const format of this.errorFormats) {
+			if (!Object.prototype.hasOwnProperty.call(ERROR_FORMAT_MIME_TYPES, format)) {
+				throw new Error(`${ String(format) } is not supported as error format`);
+			}
+		}
 	}
 
 	/**
@@ -131,7 +239,7 @@ export abstract class Storage<Reference, AttachedData> {
 	}
 
 	/**
-	 * Create etag header value from storage information (uses mtimeMs, size and contentEncoding)
+	 * Create etag header value from storage information (uses contentHash or mtimeMs, size and contentEncoding)
 	 *
 	 * @param storageInfo - storage information
 	 * @returns etag header
@@ -141,14 +249,101 @@ export abstract class Storage<Reference, AttachedData> {
 		if (etag) {
 			return etag;
 		}
+		const { contentHash, contentEncoding } = storageInfo;
+		if (contentHash) {
+			return hashToEtag(contentHash, contentEncoding, this.weakEtags);
+		}
 		const { size, mtimeMs } = storageInfo;
 		if (size === undefined || mtimeMs === undefined) {
 			return false;
 		}
-		const { contentEncoding } = storageInfo;
 		return statsToEtag(size, mtimeMs, contentEncoding, this.weakEtags);
 	}
 
+	/**
+	 * Create the key used to cache the content hash (return always false unless overriden)
+	 *
+	 * @param _storageInfo - storage information (unused unless overriden)
+	 * @returns the cache key or false if the content hash should not be cached
+	 */
+	// eslint-disable-next-line class-methods-use-this
+	createContentHashCacheKey(_storageInfo: StorageInfo<AttachedData>): string | false {
+		return false;
+	}
+
+	/**
+	 * Create content hash from storage information by reading its content
+	 * (the hash is cached until size or modification time change if a cache key is available)
+	 *
+	 * @param storageInfo - storage information
+	 * @returns content hash or false if size is unknown
+	 */
+	async createContentHash(storageInfo: StorageInfo<AttachedData>): Promise<string | false> {
+		const { size, mtimeMs } = storageInfo;
+		if (size === undefined) {
+			return false;
+		}
+		const cacheKey = mtimeMs === undefined ? false : this.createContentHashCacheKey(storageInfo);
+		if (cacheKey !== false) {
+			const cached = this.contentHashCache.get(cacheKey);
+			if (cached && cached.size === size && cached.mtimeMs === mtimeMs) {
+				return cached.hash;
+			}
+		}
+		const hash = createHash(this.etagHashAlgorithm);
+		if (size > 0) {
+			for await (const chunk of this.createReadableStream(storageInfo, new StreamRange(0, size - 1), false)) {
+				hash.update(<Buffer> chunk);
+			}
+		}
+		const digest = hash.digest('hex');
+		if (cacheKey !== false) {
+			this.contentHashCache.set(cacheKey, { size, mtimeMs: <number> mtimeMs, hash: digest });
+		}
+		return digest;
+	}
+
+
+	/**
+	 * Create the key used to cache the compressed content (uses the content hash cache key, the etag and the encoding)
+	 *
+	 * @param storageInfo - storage information
+	 * @returns the cache key or false if the compressed content should not be cached
+	 */
+	createCompressionCacheKey(storageInfo: StorageInfo<AttachedData>): string | false {
+		const { etag, contentEncoding } = storageInfo;
+		if (!etag || !contentEncoding) {
+			return false;
+		}
+		const contentHashCacheKey = this.createContentHashCacheKey(storageInfo);
+		if (contentHashCacheKey === false) {
+			return false;
+		}
+		return JSON.stringify([contentHashCacheKey, etag, contentEncoding]);
+	}
+
+	/**
+	 * Get the compression cache, the compression cache key and the cached compressed content
+	 *
+	 * @param storageInfo - storage information
+	 * @returns the compression cache information (entry is undefined if the compressed content is not cached yet)
+	 * or undefined if the compressed content can not be cached
+	 */
+	async getCompressionCacheInfo(storageInfo: StorageInfo<AttachedData>): Promise<{
+		cache: CompressionCache;
+		key: string;
+		entry: CompressionCacheEntry | undefined;
+	} | undefined> {
+		const { compressionCache } = this;
+		if (!compressionCache) {
+			return undefined;
+		}
+		const key = this.createCompressionCacheKey(storageInfo);
+		if (key === false) {
+			return undefined;
+		}
+		return { cache: compressionCache, key, entry: await compressionCache.get(key) };
+	}
 	/**
 	 * Create cache-control header value from storage information (return always public, max-age=0 unless overriden)
 	 *
@@ -243,7 +438,7 @@ export abstract class Storage<Reference, AttachedData> {
 	 */
 	async prepareResponse(
 		reference: Reference,
-		req: http.IncomingMessage | http2.Http2ServerRequest | http2.IncomingHttpHeaders,
+		req: StorageRequest,
 		opts: PrepareResponseOptions = {},
 	): Promise<StreamResponse<AttachedData>> {
 		let method;
@@ -275,7 +470,7 @@ export abstract class Storage<Reference, AttachedData> {
 				requestHeaders,
 			);
 		} catch (error: unknown) {
-			return this.createStorageError(isHeadMethod, error);
+			return this.createStorageError(isHeadMethod, error, requestHeaders);
 		}
 		let stream;
 		try {
@@ -289,7 +484,7 @@ export abstract class Storage<Reference, AttachedData> {
 					storageInfo.mimeTypeCharset = mimeTypeCharset;
 				}
 			}
-			const { dynamicCompression, dynamicCompressionMinLength } = this;
+			const { dynamicCompression, dynamicCompressionMinLength, etagMode } = this;
 			if (
 				dynamicCompression
 				&& !storageInfo.contentEncoding
@@ -297,7 +492,7 @@ export abstract class Storage<Reference, AttachedData> {
 				&& this.mimeTypeCompressible(mimeType)
 				&& (storageInfo.size === undefined || storageInfo.size > dynamicCompressionMinLength)
 			) {
-				storageInfo.vary = 'Accept-Encoding';
+				storageInfo.vary = storageInfo.vary ? `${ storageInfo.vary }, Accept-Encoding` : 'Accept-Encoding';
 				const [[preferedEncoding]] = acceptEncodings(
 					requestHeaders['accept-encoding'],
 					dynamicCompression.encodingPreferences,
@@ -309,6 +504,13 @@ export abstract class Storage<Reference, AttachedData> {
 				}
 			}
 
+			if (etagMode === 'hash' && opts.etag === undefined && !storageInfo.etag) {
+				const contentHash = await this.createContentHash(storageInfo);
+				if (contentHash) {
+					storageInfo.contentHash = contentHash;
+				}
+			}
+
 			const lastModified = opts.lastModified ?? this.createLastModified(storageInfo);
 
 			if (lastModified) {
@@ -345,6 +547,10 @@ export abstract class Storage<Reference, AttachedData> {
 				responseHeaders['Vary'] = storageInfo.vary;
 			}
 
+			if (storageInfo.link) {
+				responseHeaders['Link'] = storageInfo.link;
+			}
+
 			const fullResponse = opts.statusCode !== undefined;
 			if (!fullResponse) {
 				if (lastModified) {
@@ -386,8 +592,18 @@ export abstract class Storage<Reference, AttachedData> {
 				);
 			}
 
+			const compressionCacheInfo = dynamicContentEncoding
+				? await this.getCompressionCacheInfo(storageInfo)
+				: undefined;
+			const compressedContent = compressionCacheInfo?.entry;
+			if (compressedContent) {
+				// the storage content is not needed anymore
+				earlyClose = true;
+				dynamicContentEncoding = undefined;
+			}
+
 			let statusCode = opts.statusCode ?? 200;
-			const { size } = storageInfo;
+			const size = compressedContent ? compressedContent.size : storageInfo.size;
 			let rangeToUse: StreamRange | Uint8ArrayOrStreamRange[] | undefined;
 			if (size === undefined) {
 				responseHeaders['Accept-Ranges'] = 'none';
@@ -411,7 +627,7 @@ export abstract class Storage<Reference, AttachedData> {
 						const parsedRanges = parseRange(size, rangeHeader, { combine: true });
 						if (parsedRanges === -1) {
 							earlyClose = true;
-							return this.createRangeNotSatisfiableError(isHeadMethod, size, storageInfo);
+							return this.createRangeNotSatisfiableError(isHeadMethod, size, storageInfo, rangeHeader);
 						}
 						if (parsedRanges === -2
 							|| parsedRanges.type !== 'bytes'
@@ -466,31 +682,54 @@ export abstract class Storage<Reference, AttachedData> {
 				if (rangeToUse.end < rangeToUse.start) {
 					earlyClose = true;
 					stream = new BufferStream();
+				} else if (compressedContent) {
+					stream = compressedContent.createReadableStream(rangeToUse);
 				} else {
 					stream = this.createReadableStream(storageInfo, rangeToUse, true);
 				}
 			} else {
 				const si = storageInfo;
+				const cc = compressedContent;
 				stream = new MultiStream(
 					rangeToUse,
 					range => {
 						if (range instanceof StreamRange) {
-							return this.createReadableStream(
-								si,
-								range,
-								false,
-							);
+							return cc
+								? cc.createReadableStream(range)
+								: this.createReadableStream(
+									si,
+									range,
+									false,
+								);
 						}
 						return new BufferStream(range);
 					},
-					async () => this.close(si),
+					async () => {
+						// storage is already closed when the compressed content is cached
+						if (!cc) {
+							await this.close(si);
+						}
+					},
 				);
 			}
 			if (dynamicContentEncoding) {
-				stream = this.createCompressedStream(stream, dynamicContentEncoding, contentLength);
+				stream = this.createCompressedStream(
+					stream,
+					dynamicContentEncoding,
+					contentLength,
+					storageInfo.mimeType,
+				);
+				if (compressionCacheInfo && !isHeadMethod) {
+					stream = cacheCompressedStream(stream, compressionCacheInfo.cache, compressionCacheInfo.key);
+				}
 			}
 
-			return this.createSuccessfulResponse(statusCode, responseHeaders, stream, storageInfo);
+			return this.attachPreloadAssets(
+				this.createSuccessfulResponse(statusCode, responseHeaders, stream, storageInfo),
+				isGetMethod,
+				reference,
+				requestHeaders,
+			);
 		} catch (err: unknown) {
 			if (stream) {
 				stream.destroy();
@@ -516,7 +755,7 @@ export abstract class Storage<Reference, AttachedData> {
 	 */
 	async send(
 		reference: Reference,
-		req: http.IncomingMessage | http2.Http2ServerRequest | http2.IncomingHttpHeaders,
+		req: StorageRequest,
 		res: http.ServerResponse | http2.Http2ServerResponse | http2.ServerHttp2Stream,
 		opts: StorageSendOptions = {},
 	) {
@@ -528,60 +767,107 @@ export abstract class Storage<Reference, AttachedData> {
 		}
 	}
 
+	/**
+	 * Get the url path of a file, used as key of the preloadAssets manifest
+	 * (undefined unless overriden by the storages serving url paths)
+	 *
+	 * @param _storageInfo - storage information (unused unless overriden)
+	 * @returns the url path or undefined
+	 */
+	// eslint-disable-next-line class-methods-use-this
+	getPreloadAssetsPath(_storageInfo: StorageInfo<AttachedData>): string | undefined {
+		return undefined;
+	}
+
+	/**
+	 * Convert an url path to a reference of this storage (used by StorageRouter for the routes without reference
+	 * function, only implemented by the storages whose references are not url paths, e.g. S3Storage object keys)
+	 */
+	createReferenceFromUrlPath?(path: string): unknown;
+
+	/**
+	 * Prepare the response of a preloaded asset pushed over HTTP/2 from its url path (see pushPreloadAssets option)
+	 * (only implemented by the storages serving url paths)
+	 */
+	preparePushResponse?(
+		path: string,
+		requestHeaders: http2.IncomingHttpHeaders,
+	): Promise<StreamResponse<AttachedData>>;
+
+	/**
+	 * Attach the preloaded assets of a successful GET response and the function preparing their pushed responses
+	 * (partial responses have no preloaded assets)
+	 *
+	 * @param response - the successful response
+	 * @param isGetMethod - true if the request method is GET
+	 * @param reference - file reference
+	 * @param requestHeaders - request headers
+	 * @returns the successful response
+	 */
+	attachPreloadAssets(
+		response: StreamResponse<AttachedData>,
+		isGetMethod: boolean,
+		reference: Reference,
+		requestHeaders: StorageRequestHeaders,
+	) {
+		const { statusCode, storageInfo } = response;
+		if (!isGetMethod || statusCode !== 200 || !storageInfo) {
+			return response;
+		}
+		const path = this.getPreloadAssetsPath(storageInfo);
+		const preloadAssets = getPreloadAssets(this.preloadAssets, reference, storageInfo, path);
+		if (preloadAssets.length === 0) {
+			return response;
+		}
+		response.preloadAssets = preloadAssets;
+		if (this.pushPreloadAssets && this.preparePushResponse) {
+			response.preparePushResponse = createPushResponsePreparer(
+				this.preparePushResponse.bind(this),
+				requestHeaders,
+			);
+		}
+		return response;
+	}
+
+	/**
+	 * Get the dynamic compression options which apply to a mime type
+	 *
+	 * @param mimeType - mime type
+	 * @returns dynamic compression options, ordered by priority
+	 */
+	getDynamicCompressionOptions(mimeType?: string): DynamicCompressionEncodingOptions[] {
+		const { dynamicCompression } = this;
+		if (!dynamicCompression) {
+			return [];
+		}
+		const { encodingOptions, mimeTypeEncodingOptions } = dynamicCompression;
+		const mimeTypeOptions = mimeType === undefined
+			? undefined
+			: mimeTypeEncodingOptions.find(({ matcher }) => matcher.test(mimeType));
+		return mimeTypeOptions ? [encodingOptions, mimeTypeOptions.encodingOptions] : [encodingOptions];
+	}
+
 	/**
 	 * Create compressed stream
-	 * (for gzip / brotli encodings only but this method can be overidden to eventually implement other encodings)
+	 * (for gzip / brotli / zstd encodings only
+	 * but this method can be overidden to eventually implement other encodings)
 	 *
 	 * @param stream - stream to compress
-	 * @param contentEncoding - 'br' for brotli encoding or 'gzip' for gzip encoding, other values are not supported
+	 * @param contentEncoding - 'br' for brotli encoding, 'gzip' for gzip encoding or 'zstd' for zstd encoding
+	 * (when available), other values are not supported
 	 * @param expectedSize - expected stream size
+	 * @param mimeType - mime type of the content (used to select the compression options)
 	 * @returns compressed stream
 	 * @throws if content encoding is not supported
 	 */
-	// eslint-disable-next-line class-methods-use-this
-	createCompressedStream(stream: Readable, contentEncoding: string, expectedSize?: number) {
-		switch (contentEncoding) {
-		case 'br': {
-			const res = pipeline(
-				stream,
-				zlib.createBrotliCompress({
-					params: {
-						[zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
-						[zlib.constants.BROTLI_PARAM_QUALITY]: 4,
-						[zlib.constants.BROTLI_PARAM_SIZE_HINT]: expectedSize ?? 0,
-					},
-				}),
-				err => {
-					if (err) {
-						console.error('Broti compress failed.', err);
-					}
-				},
-			);
-			return res.on('end', () => {
-				// force destroy on end
-				res.destroy();
-			});
-		}
-		case 'gzip': {
-			const res = pipeline(
-				stream,
-				zlib.createGzip({ level: 6 }),
-				err => {
-					if (err) {
-						console.error('Gzip failed.', err);
-					}
-				},
-			);
-			return res.on('end', () => {
-				// force destroy on end
-				res.destroy();
-			});
-		}
-		default:
-			throw new Error(`${
-				contentEncoding
-			} is not supported as dynamic compression encoding (you can override createCompressedStream to handle it)`);
-		}
+	createCompressedStream(stream: Readable, contentEncoding: string, expectedSize?: number, mimeType?: string) {
+		return compressStream(
+			stream,
+			contentEncoding,
+			this.getDynamicCompressionOptions(mimeType),
+			this.zstdCompress,
+			expectedSize,
+		);
 	}
 
 	/**
@@ -591,41 +877,160 @@ export abstract class Storage<Reference, AttachedData> {
 	 * @param allowedMethods - allowed methods for Allow header
 	 * @returns Method Not Allowed response
 	 */
-	// eslint-disable-next-line class-methods-use-this
 	createMethodNotAllowedError(isHeadMethod: boolean, allowedMethods: readonly string[]) {
 		// Method Not Allowed
-		// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-		const statusMessageBuffer = Buffer.from(http.STATUS_CODES['405']!);
+		const allow = allowedMethods.join(', ');
+		const { headers, stream } = this.createErrorContent(
+			isHeadMethod,
+			405,
+			this.problemDetails ? 'json' : 'text',
+			undefined,
+			`the allowed methods are ${ allow }`,
+		);
 		return new StreamResponse<AttachedData>(
 			405,
 			{
+				...headers,
 				// eslint-disable-next-line @typescript-eslint/naming-convention
-				'Content-Length': String(statusMessageBuffer.byteLength),
-				// eslint-disable-next-line @typescript-eslint/naming-convention
-				'Content-Type': 'text/plain; charset=UTF-8',
-				// eslint-disable-next-line @typescript-eslint/naming-convention
-				'X-Content-Type-Options': 'nosniff',
-				// eslint-disable-next-line @typescript-eslint/naming-convention
-				Allow: allowedMethods.join(', '),
+				Allow: allow,
 			},
-			isHeadMethod ? new BufferStream() : new BufferStream(statusMessageBuffer),
+			stream,
 		);
 	}
 
 	/**
-	 * Create storage error response (Not Found response usually)
+	 * Create the headers (Content-Type, X-Content-Type-Options and Content-Length) and the body stream
+	 * of an error response
+	 *
+	 * @param isHeadMethod - true if HEAD method is used (the body is empty but Content-Length is the body length)
+	 * @param statusCode - status code
+	 * @param format - error format
+	 * @param [error] - the error causing the response
+	 * @param [detail] - detail of the responses without error
+	 * @returns the headers and the body stream
+	 */
+	createErrorContent(
+		isHeadMethod: boolean,
+		statusCode: number,
+		format: 'text' | 'html' | 'json',
+		error?: StorageError<unknown>,
+		detail?: string,
+	) {
+		const bodyBuffer = Buffer.from(this.renderErrorBody(format, statusCode, error, detail));
+		const headers: ResponseHeaders = {
+			// eslint-disable-next-line @typescript-eslint/naming-convention
+			'Content-Length': String(bodyBuffer.byteLength),
+			// eslint-disable-next-line @typescript-eslint/naming-convention
+			'Content-Type': `${ ERROR_FORMAT_MIME_TYPES[format] }; charset=UTF-8`,
+			// eslint-disable-next-line @typescript-eslint/naming-convention
+			'X-Content-Type-Options': 'nosniff',
+		};
+		return { headers, stream: isHeadMethod ? new BufferStream() : new BufferStream(bodyBuffer) };
+	}
+
+	/**
+	 * Get the status code of a storage error response (see errorStatusCodes option)
+	 *
+	 * @param error - the error causing the response
+	 * @returns the status code (404 if the error is not mapped)
+	 */
+	getErrorStatusCode(error: StorageError<unknown>) {
+		const { errorStatusCodes } = this;
+		return Object.prototype.hasOwnProperty.call(errorStatusCodes, error.name) ? errorStatusCodes[error.name] : 404;
+	}
+
+	/**
+	 * Get the storage error response body format from the Accept header
+	 * (always problem details when problemDetails option is set)
+	 *
+	 * @param requestHeaders - request headers
+	 * @returns the error format
+	 */
+	getErrorFormat(requestHeaders: StorageRequestHeaders) {
+		const { errorFormats, problemDetails } = this;
+		if (problemDetails) {
+			return 'json';
+		}
+		if (errorFormats.length === 1) {
+			return errorFormats[0];
+		}
+		// problem details are also selected by application/json
+		const formats = errorFormats.flatMap(format => format === 'json' ? [format, format] : [format]);
+		const mimeTypes = errorFormats.flatMap(format => format === 'json'
+			? [ERROR_FORMAT_MIME_TYPES[format], 'application/json']
+			: [ERROR_FORMAT_MIME_TYPES[format]]);
+		// the accepted mime type is always one of the mime types of the formats
+		return formats[mimeTypes.indexOf(acceptMimeType(requestHeaders.accept, mimeTypes))];
+	}
+
+	/**
+	 * Render a storage error response body (can be overriden to customize the error pages)
+	 *
+	 * @param format - error format
+	 * @param statusCode - status code
+	 * @param error - the error causing the response (undefined for the Method Not Allowed, Precondition Failed
+	 * and Range Not Satisfiable errors)
+	 * @param [detail] - detail of the responses without error (the allowed methods, the failed preconditions
+	 * or the unsatisfiable range)
+	 * @returns the body
+	 */
+	// eslint-disable-next-line class-methods-use-this
+	renderErrorBody(
+		format: 'text' | 'html' | 'json',
+		statusCode: number,
+		error: StorageError<unknown> | undefined,
+		detail?: string,
+	) {
+		return format === 'json'
+			? renderErrorProblemDetails(statusCode, error, detail)
+			: format === 'html'
+				? renderErrorHTML(statusCode)
+				: renderErrorText(statusCode);
+	}
+
+	/**
+	 * Create storage error response (Not Found response usually, see errorStatusCodes and errorFormats options)
 	 *
 	 * @param isHeadMethod - true if HEAD method is used
 	 * @param error - the error causing this response
+	 * @param requestHeaders - request headers
 	 * @returns the error response
 	 */
+	createStorageError(isHeadMethod: boolean, error: unknown, requestHeaders: StorageRequestHeaders = {}) {
+		if (error instanceof RedirectError) {
+			return this.createRedirectResponse(isHeadMethod, error.statusCode, error.location, error);
+		}
+		const { errorFormats, problemDetails } = this;
+		const storageError = error instanceof StorageError ? error : new StorageError('Unknown error', error);
+		const statusCode = this.getErrorStatusCode(storageError);
+		const format = this.getErrorFormat(requestHeaders);
+		const { headers, stream } = this.createErrorContent(isHeadMethod, statusCode, format, storageError);
+		if (!problemDetails && errorFormats.length > 1) {
+			headers['Vary'] = 'Accept';
+		}
+		return new StreamResponse<AttachedData>(
+			statusCode,
+			headers,
+			stream,
+			undefined,
+			storageError,
+		);
+	}
+
+	/**
+	 * Create redirect response (Moved Permanently response usually)
+	 *
+	 * @param isHeadMethod - true if HEAD method is used
+	 * @param statusCode - redirect status code
+	 * @param location - redirect location (Location header)
+	 * @param error - the error causing this response
+	 * @returns the redirect response
+	 */
 	// eslint-disable-next-line class-methods-use-this
-	createStorageError(isHeadMethod: boolean, error: unknown) {
-		// Not Found
-		// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-		const statusMessageBuffer = Buffer.from(http.STATUS_CODES['404']!);
+	createRedirectResponse(isHeadMethod: boolean, statusCode: number, location: string, error: StorageError<unknown>) {
+		const statusMessageBuffer = Buffer.from(http.STATUS_CODES[statusCode] ?? 'Redirect');
 		return new StreamResponse<AttachedData>(
-			404,
+			statusCode,
 			{
 				// eslint-disable-next-line @typescript-eslint/naming-convention
 				'Content-Length': String(statusMessageBuffer.byteLength),
@@ -633,10 +1038,12 @@ export abstract class Storage<Reference, AttachedData> {
 				'Content-Type': 'text/plain; charset=UTF-8',
 				// eslint-disable-next-line @typescript-eslint/naming-convention
 				'X-Content-Type-Options': 'nosniff',
+				// eslint-disable-next-line @typescript-eslint/naming-convention
+				Location: location,
 			},
 			isHeadMethod ? new BufferStream() : new BufferStream(statusMessageBuffer),
 			undefined,
-			error instanceof StorageError ? error : new StorageError('Unknown error', error),
+			error,
 		);
 	}
 
@@ -663,24 +1070,16 @@ export abstract class Storage<Reference, AttachedData> {
 	 * @param storageInfo - the current storage info
 	 * @returns the Precondition Failed error response
 	 */
-	// eslint-disable-next-line class-methods-use-this
 	createPreconditionFailedError(isHeadMethod: boolean, storageInfo: StorageInfo<AttachedData>) {
 		// Precondition Failed
-		// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-		const statusMessageBuffer = Buffer.from(http.STATUS_CODES['412']!);
-		return new StreamResponse(
+		const { headers, stream } = this.createErrorContent(
+			isHeadMethod,
 			412,
-			{
-				// eslint-disable-next-line @typescript-eslint/naming-convention
-				'Content-Type': 'text/plain; charset=UTF-8',
-				// eslint-disable-next-line @typescript-eslint/naming-convention
-				'X-Content-Type-Options': 'nosniff',
-				// eslint-disable-next-line @typescript-eslint/naming-convention
-				'Content-Length': String(statusMessageBuffer.byteLength),
-			},
-			isHeadMethod ? new BufferStream() : new BufferStream(statusMessageBuffer),
-			storageInfo,
+			this.problemDetails ? 'json' : 'text',
+			undefined,
+			'the If-Match or If-Unmodified-Since precondition is not met',
 		);
+		return new StreamResponse(412, headers, stream, storageInfo);
 	}
 
 	/**
@@ -689,26 +1088,31 @@ export abstract class Storage<Reference, AttachedData> {
 	 * @param isHeadMethod - true if HEAD method is used
 	 * @param size - size of content for Content-Range header
 	 * @param storageInfo - the current storage info
+	 * @param rangeHeader - the unsatisfiable Range header
 	 * @returns the Range Not Satisfiable error response
 	 */
-	// eslint-disable-next-line class-methods-use-this
-	createRangeNotSatisfiableError(isHeadMethod: boolean, size: number, storageInfo: StorageInfo<AttachedData>) {
+	createRangeNotSatisfiableError(
+		isHeadMethod: boolean,
+		size: number,
+		storageInfo: StorageInfo<AttachedData>,
+		rangeHeader: string,
+	) {
 		// Range Not Satisfiable
-		// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-		const statusMessageBuffer = Buffer.from(http.STATUS_CODES['416']!);
+		const { headers, stream } = this.createErrorContent(
+			isHeadMethod,
+			416,
+			this.problemDetails ? 'json' : 'text',
+			undefined,
+			`the range ${ rangeHeader } is not satisfiable for a content of ${ size } bytes`,
+		);
 		return new StreamResponse(
 			416,
 			{
 				// eslint-disable-next-line @typescript-eslint/naming-convention
 				'Content-Range': contentRange('bytes', size),
-				// eslint-disable-next-line @typescript-eslint/naming-convention
-				'Content-Type': 'text/plain; charset=UTF-8',
-				// eslint-disable-next-line @typescript-eslint/naming-convention
-				'X-Content-Type-Options': 'nosniff',
-				// eslint-disable-next-line @typescript-eslint/naming-convention
-				'Content-Length': String(statusMessageBuffer.byteLength),
+				...headers,
 			},
-			isHeadMethod ? new BufferStream() : new BufferStream(statusMessageBuffer),
+			stream,
 			storageInfo,
 		);
 	}
@@ -90,9 +90,11 @@ export class MultiStream extends PassThrough {
 	private sendNextRange() {
 		const currentRange = this.ranges.shift();
 		if (!currentRange) {
-			this.end(() => {
+			// destroy once fully read (the content may be buffered before being read)
+			this.once('end', () => {
 				this.destroy();
 			});
+			this.end();
 			return;
 		}
 		const stream = this.onNextStream(currentRange);
@@ -0,0 +1,62 @@
+import { join, relative, sep } from 'path';
+
+import { FileSystemStorageError } from './file-system-errors';
+import type { FilePath } from './file-system-types';
+
+/**
+ * Error of a file resolved through a symbolic link forbidden by the symbolic links policy
+ */
+export class ForbiddenSymlinkError extends FileSystemStorageError {
+	/**
+	 * Resolved path
+	 */
+	readonly resolvedPath: string;
+
+	/**
+	 * Create file system storage error
+	 *
+	 * @param message - error message
+	 * @param path - encoded path or path parts
+	 * @param pathParts - path parts
+	 * @param resolvedPath - resolved path
+	 */
+	constructor(message: string, path: FilePath, pathParts: readonly string[], resolvedPath: string) {
+		super(message, path, pathParts);
+		this.name = 'ForbiddenSymlinkError';
+		this.resolvedPath = resolvedPath;
+	}
+}
+
+/**
+ * Check if a file path is allowed by a symbolic links policy
+ * (the real paths are resolved on each call as the root can be a symbolic link changed on deployments)
+ *
+ * @param symlinks - symbolic links policy
+ * @param fsRealpath - fs.realpath function (undefined if the fs module has none)
+ * @param root - root directory of the file
+ * @param filePath - file path
+ * @returns true if the file path is allowed
+ */
+export async function isSymlinkAllowedByPolicy(
+	symlinks: 'follow' | 'deny' | 'within-root',
+	fsRealpath: ((path: string) => Promise<string>) | undefined,
+	root: string,
+	filePath: string,
+) {
+	if (symlinks === 'follow' || !fsRealpath) {
+		return true;
+	}
+	let realRoot;
+	let realFilePath;
+	try {
+		realRoot = await fsRealpath(root);
+		realFilePath = await fsRealpath(filePath);
+	} catch {
+		return false;
+	}
+	if (symlinks === 'deny') {
+		return realFilePath === join(realRoot, relative(root, filePath));
+	}
+	return realFilePath === realRoot
+		|| realFilePath.startsWith(realRoot.endsWith(sep) ? realRoot : `${ realRoot }${ sep }`);
+}
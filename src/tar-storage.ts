@@ -0,0 +1,142 @@
+import { ArchiveStorage } from './archive-storage';
+import type { ArchiveReader } from './archive-storage';
+import type { ArchiveEntry, ArchiveIndexEntry } from './archive-types';
+import { InvalidArchiveError } from './archive-errors';
+
+const BLOCK_SIZE = 512;
+const CHECKSUM_OFFSET = 148;
+const CHECKSUM_LENGTH = 8;
+const USTAR_MAGIC = 'ustar\u0000';
+
+/**
+ * Read a NUL terminated string from a tar header
+ *
+ * @param block - tar header
+ * @param start - field offset
+ * @param length - field length
+ * @returns the field value
+ */
+function readString(block: Buffer, start: number, length: number) {
+	const field = block.subarray(start, start + length);
+	const end = field.indexOf(0);
+	return field.toString('utf8', 0, end === -1 ? length : end);
+}
+
+/**
+ * Read an octal number from a tar header
+ *
+ * @param block - tar header
+ * @param start - field offset
+ * @param length - field length
+ * @returns the field value
+ */
+function readOctal(block: Buffer, start: number, length: number) {
+	return Number.parseInt(readString(block, start, length).trim(), 8);
+}
+
+/**
+ * Compute the checksum of a tar header (sum of bytes, checksum field counted as spaces)
+ *
+ * @param block - tar header
+ * @returns the checksum
+ */
+function computeChecksum(block: Buffer) {
+	let checksum = CHECKSUM_LENGTH * 0x20;
+	for (const [index, byte] of block.entries()) {
+		if (index < CHECKSUM_OFFSET || index >= CHECKSUM_OFFSET + CHECKSUM_LENGTH) {
+			checksum += byte;
+		}
+	}
+	return checksum;
+}
+
+/**
+ * Parse pax extended header records ("<length> <key>=<value>\n")
+ *
+ * @param data - pax extended header data
+ * @returns the records
+ */
+function parsePaxRecords(data: Buffer) {
+	const records = new Map<string, string>();
+	let offset = 0;
+	while (offset < data.byteLength) {
+		const spaceIndex = data.indexOf(0x20, offset);
+		const recordLength = Number(data.toString('latin1', offset, spaceIndex));
+		if (Number.isNaN(recordLength) || recordLength <= 0) {
+			break;
+		}
+		const record = data.toString('utf8', spaceIndex + 1, offset + recordLength - 1);
+		const equalIndex = record.indexOf('=');
+		records.set(record.slice(0, equalIndex), record.slice(equalIndex + 1));
+		offset += recordLength;
+	}
+	return records;
+}
+
+/**
+ * Tar storage (ustar, pax and gnu long names, compressed tar files are not supported)
+ */
+export class TarStorage extends ArchiveStorage {
+	/**
+	 * Read the entries from the tar headers
+	 *
+	 * @param read - function reading bytes from the archive
+	 * @param archiveSize - archive size
+	 * @returns archive entries
+	 * @throws InvalidArchiveError when the archive is not a valid tar file
+	 */
+	async readEntries(read: ArchiveReader, archiveSize: number) {
+		const { archivePath } = this;
+		const entries: ArchiveEntry[] = [];
+		let offset = 0;
+		let longName: string | undefined;
+		while (offset + BLOCK_SIZE <= archiveSize) {
+			// eslint-disable-next-line no-await-in-loop
+			const header = await read(offset, BLOCK_SIZE);
+			if (header.every(byte => byte === 0)) {
+				break;
+			}
+			if (readOctal(header, CHECKSUM_OFFSET, CHECKSUM_LENGTH) !== computeChecksum(header)) {
+				throw new InvalidArchiveError(`${ archivePath } has an invalid tar header at ${ offset }`, archivePath);
+			}
+			const size = readOctal(header, 124, 12);
+			const type = String.fromCharCode(header[156]);
+			const headerOffset = offset;
+			offset += BLOCK_SIZE + (Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE);
+			if (type === 'L' || type === 'x') {
+				// eslint-disable-next-line no-await-in-loop
+				const data = await read(headerOffset + BLOCK_SIZE, size);
+				longName = type === 'L' ? readString(data, 0, size) : parsePaxRecords(data).get('path') ?? longName;
+				continue;
+			}
+			const prefix = header.toString('latin1', 257, 263) === USTAR_MAGIC ? readString(header, 345, 155) : '';
+			const shortName = readString(header, 0, 100);
+			const name = longName ?? (prefix ? `${ prefix }/${ shortName }` : shortName);
+			longName = undefined;
+			// links, devices and global headers are ignored
+			if (type === '0' || type === '\u0000' || type === '5') {
+				entries.push({
+					name,
+					isDirectory: type === '5',
+					mtimeMs: readOctal(header, 136, 12) * 1000,
+					size,
+					compression: 'stored',
+					compressedSize: size,
+					headerOffset,
+				});
+			}
+		}
+		return entries;
+	}
+
+	/**
+	 * Get the offset of the entry data (following its header)
+	 *
+	 * @param entry - archive entry
+	 * @returns the entry data offset
+	 */
+	// eslint-disable-next-line @typescript-eslint/require-await,class-methods-use-this
+	async readDataOffset(entry: ArchiveIndexEntry) {
+		return entry.headerOffset + BLOCK_SIZE;
+	}
+}
@@ -1,6 +1,10 @@
 
 import type * as http from 'http';
 import type * as http2 from 'http2';
+import type { Duplex, Readable } from 'stream';
+import type * as zlib from 'zlib';
+
+import type { StreamRange } from './utils';
 
 /**
  * Charset mapping
@@ -103,6 +107,119 @@ interface AcceptEncodingHeader {
  */
 export type StorageRequestHeaders = (http.IncomingHttpHeaders | http2.IncomingHttpHeaders) & AcceptEncodingHeader;
 
+/**
+ * Request object or request headers
+ */
+export type StorageRequest = http.IncomingMessage | http2.Http2ServerRequest | http2.IncomingHttpHeaders;
+
+/**
+ * Zstd compression options
+ */
+export interface ZstdCompressOptions {
+	/**
+	 * Zstd parameters, e.g. `{ [zlib.constants.ZSTD_c_compressionLevel]: 10 }`
+	 */
+	params?: Record<number, number>;
+}
+
+/**
+ * Dynamic compression options by encoding
+ */
+export interface DynamicCompressionEncodingOptions {
+	/**
+	 * Brotli compression options
+	 *
+	 * Defaults to `{ params: { [BROTLI_PARAM_MODE]: BROTLI_MODE_TEXT, [BROTLI_PARAM_QUALITY]: 4 } }`
+	 */
+	br?: zlib.BrotliOptions;
+	/**
+	 * Gzip compression options
+	 *
+	 * Defaults to `{ level: 6 }`
+	 */
+	gzip?: zlib.ZlibOptions;
+	/**
+	 * Zstd compression options (given to the zstdCompress function)
+	 *
+	 * Defaults to `{}`
+	 */
+	zstd?: ZstdCompressOptions;
+}
+
+/**
+ * Dynamic compression options for the matching mime types
+ */
+export interface DynamicCompressionMimeTypeOptions extends DynamicCompressionEncodingOptions {
+	/**
+	 * Regexp used to match mime type
+	 */
+	matcher: RegExp | string;
+}
+
+/**
+ * Dynamic compression options
+ */
+export interface DynamicCompressionOptions extends DynamicCompressionEncodingOptions {
+	/**
+	 * List of encodings ordered by priority
+	 *
+	 * Defaults to `['br', 'gzip']` (`['br', 'zstd', 'gzip']` when zstd compression is available)
+	 */
+	encodings?: string[];
+	/**
+	 * Compression options overrides by mime type (the first matching mime type options are used)
+	 *
+	 * Defaults to `[]`
+	 */
+	mimeTypes?: DynamicCompressionMimeTypeOptions[];
+}
+
+/**
+ * Compressed content stored in a compression cache
+ */
+export interface CompressionCacheEntry {
+	/**
+	 * Compressed content size
+	 */
+	size: number;
+	/**
+	 * Create a readable stream of a range of the compressed content
+	 */
+	createReadableStream: (range: StreamRange) => Readable;
+}
+
+/**
+ * Cache of the dynamically compressed contents
+ */
+export interface CompressionCache {
+	/**
+	 * Get a compressed content (undefined if not cached)
+	 */
+	get: (key: string) => Promise<CompressionCacheEntry | undefined>;
+	/**
+	 * Store a compressed content
+	 */
+	set: (key: string, content: Buffer) => Promise<void>;
+}
+
+/**
+ * Critical asset of a HTML file announced with 103 Early Hints
+ */
+export interface PreloadAsset {
+	/**
+	 * Url path of the asset, e.g. '/assets/app.css'
+	 */
+	path: string;
+	/**
+	 * Request destination of the asset, e.g. 'style', 'script', 'font' or 'image'
+	 */
+	as: string;
+	/**
+	 * Add the crossorigin attribute to the Link header (needed for the fonts)
+	 */
+	crossorigin?: boolean;
+}
+
 /**
  * Storage options
  */
@@ -133,10 +250,27 @@ export interface StorageOptions {
 	 * Defaults to `false`
 	 */
 	weakEtags?: boolean;
+	/**
+	 * Determine how etags are generated
+	 * - `'stats'` to generate etags from size, modification time and content encoding
+	 * - `'hash'` to generate etags from a digest of the content
+	 * (digests are cached until size or modification time change when the storage can provide a cache key)
+	 *
+	 * Defaults to `'stats'`
+	 */
+	etagMode?: 'stats' | 'hash';
+	/**
+	 * Hash algorithm used to generate etags when `etagMode` is `'hash'`
+	 *
+	 * Defaults to `'sha1'`
+	 */
+	etagHashAlgorithm?: 'sha1' | 'sha256';
 	/**
 	 * Enable dynamic compression of file content.
-	 * This can be a boolean or a list of encodings ordered by priority, `['br', 'gzip']` if `true` is used.
-	 * Activating this option will automatically compress content as brotli or gzip
+	 * This can be a boolean, a list of encodings ordered by priority, `['br', 'gzip']` if `true` is used
+	 * (`['br', 'zstd', 'gzip']` when zstd compression is available),
+	 * or an object with the encodings and the compression options (by encoding and by mime type).
+	 * Activating this option will automatically compress content as brotli, zstd or gzip
 	 * if the content is detected as compressible and supported by the client.
 	 *
 	 * Note that this is highly recommended to use this option only if you can not use pre-compressed options
@@ -147,7 +281,7 @@ export interface StorageOptions {
 	 *
 	 * Defaults to `false`
 	 */
-	dynamicCompression?: boolean | string[];
+	dynamicCompression?: boolean | string[] | DynamicCompressionOptions;
 	/**
 	 * Function used to determine if a type is compressible (for dynamic compression only)
 	 * `compressible` module will be used by default
@@ -159,6 +293,63 @@ export interface StorageOptions {
 	 * Default to 20
 	 */
 	dynamicCompressionMinLength?: number;
+	/**
+	 * Function creating a zstd compression stream (for dynamic compression only)
+	 * zlib zstd compression will be used by default when available (Node.js >= 22.15)
+	 */
+	zstdCompress?: (expectedSize?: number, options?: ZstdCompressOptions) => Duplex;
+	/**
+	 * Cache of the dynamically compressed contents (by content hash cache key, etag and encoding)
+	 * compressed contents are served from the cache with a known length and range support
+	 *
+	 * Defaults to `undefined` (contents are compressed on each request)
+	 */
+	compressionCache?: CompressionCache;
+	/**
+	 * Status codes of the storage error responses by error name, e.g. { MalformedPathError: 400 }
+	 * (the errors not listed are Not Found errors)
+	 * - `false` for Not Found errors only
+	 * - `true` for DEFAULT_ERROR_STATUS_CODES
+	 * (400 for malformed paths, 403 for ignored files and 404 for missing files)
+	 *
+	 * Defaults to `false`
+	 */
+	errorStatusCodes?: boolean | Readonly<Record<string, number>>;
+	/**
+	 * Storage error response body formats, ordered by priority
+	 * (the format is negotiated with the Accept header when several formats are given)
+	 * - `'text'` for the status message (`text/plain`)
+	 * - `'html'` for a HTML page (`text/html`)
+	 * - `'json'` for problem details (`application/problem+json`, also selected by `application/json`)
+	 *
+	 * Defaults to ['text']
+	 */
+	errorFormats?: readonly ('text' | 'html' | 'json')[];
+	/**
+	 * Render all the error responses (storage errors, Method Not Allowed, Precondition Failed and Range Not Satisfiable
+	 * errors) as problem details (`application/problem+json`) whatever the Accept header and errorFormats option
+	 *
+	 * Defaults to `false`
+	 */
+	problemDetails?: boolean;
+	/**
+	 * Critical assets of the HTML files announced with `103 Early Hints` (`Link: rel=preload` headers)
+	 * before their successful GET responses
+	 * - a manifest of the assets by request path, e.g. { '/index.html': [{ path: '/app.css', as: 'style' }] }
+	 * (the query string of the request path is ignored)
+	 * - a function returning the assets of a file from its reference and storage information
+	 *
+	 * Defaults to no preloaded assets
+	 */
+	preloadAssets?: Readonly<Record<string, readonly PreloadAsset[]>>
+	| ((reference: unknown, storageInfo: StorageInfo<unknown>) => readonly PreloadAsset[] | undefined);
+	/**
+	 * Push the preloaded assets over HTTP/2 when the client allows it
+	 * (the pushed streams are served by the storage with the Accept-Encoding header of the HTML request)
+	 *
+	 * Defaults to `false`
+	 */
+	pushPreloadAssets?: boolean;
 }
 
 /**
@@ -186,6 +377,10 @@ export interface StorageInfo<AttachedData> {
 	 * Vary header
 	 */
 	vary?: string;
+	/**
+	 * Link header
+	 */
+	link?: string;
 	/**
 	 * Content encoding (undefined when `identity` is used)
 	 */
@@ -206,6 +401,10 @@ export interface StorageInfo<AttachedData> {
 	 * ETag header
 	 */
 	etag?: string;
+	/**
+	 * Content hash (used to generate the ETag header when `etagMode` is `'hash'`)
+	 */
+	contentHash?: string;
 	/**
 	 * Cache-Control header ('public, max-age=0' by default)
 	 */
@@ -1,5 +1,10 @@
 import { randomBytes as cryptoRandomBytes } from 'crypto';
+import * as http from 'http';
+import * as http2 from 'http2';
 import { promisify } from 'util';
+import type { Duplex, Readable } from 'stream';
+
+import type { ZstdCompressOptions, StorageRequest, StorageRequestHeaders } from './types';
 
 /**
  * Request headers
@@ -65,6 +70,16 @@ export class StreamRange {
  */
 export type Uint8ArrayOrStreamRange = StreamRange | Uint8Array;
 
+/**
+ * Get the request headers of a request object or request headers
+ *
+ * @param req - request headers or request objects
+ * @returns the request headers
+ */
+export function getRequestHeaders(req: StorageRequest): StorageRequestHeaders {
+	return req instanceof http.IncomingMessage || req instanceof http2.Http2ServerRequest ? req.headers : req;
+}
+
 /**
  * Random bytes function returing promise
  */
@@ -92,6 +107,19 @@ export function statsToEtag(size: number, mtimeMs: number, contentEncoding?: str
 	}"`;
 }
 
+/**
+ * Transform content hash to etag
+ *
+ * @param hash - content hash
+ * @param contentEncoding - content encoding
+ * @param weak - generate weak etag
+ * @returns etag
+ */
+export function hashToEtag(hash: string, contentEncoding?: string, weak?: boolean) {
+	const suffix = contentEncoding ? `-${ contentEncoding }` : '';
+	return `${ weak ? 'W/' : '' }"${ hash }${ suffix }"`;
+}
+
 /**
  * Convert milliseconds to utc string
  *
@@ -218,6 +246,43 @@ function parseMultiValueHeader(header: string) {
 	return splitted;
 }
 
+/**
+ * Get the preferred mime type from the Accept header
+ *
+ * @param accept - Accept header value
+ * @param mimeTypes - available mime types ordered by preference
+ * @returns the preferred mime type (the first available mime type when no mime type is acceptable)
+ */
+export function acceptMimeType(accept: string | undefined, mimeTypes: readonly string[]) {
+	const [defaultMimeType] = mimeTypes;
+	if (!accept) {
+		return defaultMimeType;
+	}
+	const mediaRanges = [];
+	for (const value of parseMultiValueHeader(accept)) {
+		const [range, ...params] = value.split(/[ \t]*;[ \t]*/u);
+		const qParam = params.find(param => /^q=/iu.test(param));
+		const weight = qParam ? Number(qParam.slice(2)) : 1;
+		if (/^[^/\s]+\/[^/\s]+$/u.test(range) && !Number.isNaN(weight)) {
+			mediaRanges.push({ range: range.toLowerCase(), weight });
+		}
+	}
+	let preferredMimeType = defaultMimeType;
+	let preferredWeight = 0;
+	for (const mimeType of mimeTypes) {
+		const [type] = mimeType.split('/');
+		// the most specific media range applies
+		const mediaRange = mediaRanges.find(({ range }) => range === mimeType)
+			?? mediaRanges.find(({ range }) => range === `${ type }/*`)
+			?? mediaRanges.find(({ range }) => range === '*/*');
+		if (mediaRange && mediaRange.weight > preferredWeight) {
+			preferredMimeType = mimeType;
+			preferredWeight = mediaRange.weight;
+		}
+	}
+	return preferredMimeType;
+}
+
 /**
  * Get accepted content encodings
  *
@@ -350,3 +415,33 @@ export function getFreshStatus(
 
 	return 200;
 }
+
+/**
+ * Get zstd compression stream function from zlib module
+ *
+ * @param zlibModule - zlib module
+ * @returns zstd compression stream function or undefined if zstd is not supported by zlib module
+ */
+export function getZlibZstdCompress(
+	zlibModule: Record<string, unknown>,
+): ((expectedSize?: number, options?: ZstdCompressOptions) => Duplex) | undefined {
+	const { createZstdCompress } = <{ createZstdCompress?: (options?: ZstdCompressOptions) => Duplex }> zlibModule;
+	if (!createZstdCompress) {
+		return undefined;
+	}
+	return (_expectedSize, options) => createZstdCompress(options);
+}
+
+/**
+ * Read the whole stream content
+ *
+ * @param stream - the stream to read
+ * @returns the stream content
+ */
+export async function readAll(stream: Readable) {
+	const chunks: Buffer[] = [];
+	for await (const chunk of stream) {
+		chunks.push(<Buffer> chunk);
+	}
+	return Buffer.concat(chunks);
+}
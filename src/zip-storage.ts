@@ -0,0 +1,133 @@
+import { ArchiveStorage } from './archive-storage';
+import type { ArchiveReader } from './archive-storage';
+import type { ArchiveEntry, ArchiveIndexEntry } from './archive-types';
+import { InvalidArchiveError } from './archive-errors';
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06_05_4B_50;
+const END_OF_CENTRAL_DIRECTORY_LENGTH = 22;
+const MAX_COMMENT_LENGTH = 65_535;
+const CENTRAL_DIRECTORY_HEADER_SIGNATURE = 0x02_01_4B_50;
+const CENTRAL_DIRECTORY_HEADER_LENGTH = 46;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04_03_4B_50;
+const LOCAL_FILE_HEADER_LENGTH = 30;
+const ENCRYPTED_FLAG = 0x1;
+const UTF8_FLAG = 0x8_00;
+const STORED_METHOD = 0;
+const DEFLATE_METHOD = 8;
+
+/**
+ * Test if a flag is set
+ *
+ * @param flags - flags
+ * @param flag - flag to test (power of two)
+ * @returns true if the flag is set
+ */
+function hasFlag(flags: number, flag: number) {
+	return Math.floor(flags / flag) % 2 === 1;
+}
+
+/**
+ * Convert MS-DOS date and time to milliseconds (interpreted as UTC, zip files do not store the timezone)
+ *
+ * @param date - MS-DOS date
+ * @param time - MS-DOS time
+ * @returns milliseconds since epoch
+ */
+function dosDateTimeToMilliseconds(date: number, time: number) {
+	return Date.UTC(
+		Math.floor(date / 512) + 1980,
+		(Math.floor(date / 32) % 16) - 1,
+		date % 32,
+		Math.floor(time / 2048),
+		Math.floor(time / 32) % 64,
+		(time % 32) * 2,
+	);
+}
+
+/**
+ * Zip storage (stored and deflated entries, zip64 archives are not supported)
+ */
+export class ZipStorage extends ArchiveStorage {
+	/**
+	 * Read the entries of the zip central directory
+	 *
+	 * @param read - function reading bytes from the archive
+	 * @param archiveSize - archive size
+	 * @returns archive entries
+	 * @throws InvalidArchiveError when the archive is not a valid zip file
+	 */
+	async readEntries(read: ArchiveReader, archiveSize: number) {
+		const { archivePath } = this;
+		const tailLength = Math.min(archiveSize, END_OF_CENTRAL_DIRECTORY_LENGTH + MAX_COMMENT_LENGTH);
+		const tail = await read(archiveSize - tailLength, tailLength);
+		let eocdOffset = tail.byteLength - END_OF_CENTRAL_DIRECTORY_LENGTH;
+		while (eocdOffset >= 0 && tail.readUInt32LE(eocdOffset) !== END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+			eocdOffset--;
+		}
+		if (eocdOffset < 0) {
+			throw new InvalidArchiveError(`${ archivePath } is not a zip file`, archivePath);
+		}
+		const entriesCount = tail.readUInt16LE(eocdOffset + 10);
+		const centralDirectorySize = tail.readUInt32LE(eocdOffset + 12);
+		const centralDirectoryOffset = tail.readUInt32LE(eocdOffset + 16);
+		if (entriesCount === 0xFF_FF || centralDirectoryOffset === 0xFF_FF_FF_FF) {
+			throw new InvalidArchiveError(`${ archivePath } is a zip64 file (not supported)`, archivePath);
+		}
+		const centralDirectory = await read(centralDirectoryOffset, centralDirectorySize);
+		const entries: ArchiveEntry[] = [];
+		let offset = 0;
+		for (let index = 0; index < entriesCount; index++) {
+			if (
+				offset + CENTRAL_DIRECTORY_HEADER_LENGTH > centralDirectory.byteLength
+				|| centralDirectory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER_SIGNATURE
+			) {
+				throw new InvalidArchiveError(`${ archivePath } has an invalid central directory`, archivePath);
+			}
+			const flags = centralDirectory.readUInt16LE(offset + 8);
+			const method = centralDirectory.readUInt16LE(offset + 10);
+			const nameLength = centralDirectory.readUInt16LE(offset + 28);
+			const nameOffset = offset + CENTRAL_DIRECTORY_HEADER_LENGTH;
+			const name = centralDirectory.toString(
+				hasFlag(flags, UTF8_FLAG) ? 'utf8' : 'latin1',
+				nameOffset,
+				nameOffset + nameLength,
+			);
+			// encrypted entries and other compression methods are ignored
+			if (!hasFlag(flags, ENCRYPTED_FLAG) && (method === STORED_METHOD || method === DEFLATE_METHOD)) {
+				entries.push({
+					name,
+					isDirectory: name.endsWith('/'),
+					mtimeMs: dosDateTimeToMilliseconds(
+						centralDirectory.readUInt16LE(offset + 14),
+						centralDirectory.readUInt16LE(offset + 12),
+					),
+					size: centralDirectory.readUInt32LE(offset + 24),
+					compression: method === DEFLATE_METHOD ? 'deflate' : 'stored',
+					compressedSize: centralDirectory.readUInt32LE(offset + 20),
+					headerOffset: centralDirectory.readUInt32LE(offset + 42),
+				});
+			}
+			offset = nameOffset
+				+ nameLength
+				+ centralDirectory.readUInt16LE(offset + 30)
+				+ centralDirectory.readUInt16LE(offset + 32);
+		}
+		return entries;
+	}
+
+	/**
+	 * Read the offset of the entry data from its local file header
+	 *
+	 * @param entry - archive entry
+	 * @returns the entry data offset
+	 * @throws InvalidArchiveError when the local file header is invalid
+	 */
+	async readDataOffset(entry: ArchiveIndexEntry) {
+		const { archivePath } = this;
+		const header = await this.readArchive(async read => read(entry.headerOffset, LOCAL_FILE_HEADER_LENGTH));
+		if (header.readUInt32LE(0) !== LOCAL_FILE_HEADER_SIGNATURE) {
+			throw new InvalidArchiveError(`${ archivePath } has an invalid local file header`, archivePath);
+		}
+		return entry.headerOffset + LOCAL_FILE_HEADER_LENGTH + header.readUInt16LE(26) + header.readUInt16LE(28);
+	}
+}
@@ -0,0 +1,272 @@
+import type { Readable } from 'stream';
+
+import type { ZipStreamEntry } from './archive-types';
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04_03_4B_50;
+const LOCAL_FILE_HEADER_LENGTH = 30;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08_07_4B_50;
+const CENTRAL_DIRECTORY_HEADER_SIGNATURE = 0x02_01_4B_50;
+const CENTRAL_DIRECTORY_HEADER_LENGTH = 46;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06_05_4B_50;
+const END_OF_CENTRAL_DIRECTORY_LENGTH = 22;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06_06_4B_50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LENGTH = 56;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE = 0x07_06_4B_50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_LENGTH = 20;
+const ZIP64_EXTRA_FIELD_ID = 0x00_01;
+const DATA_DESCRIPTOR_FLAG = 0x8;
+const UTF8_FLAG = 0x8_00;
+const VERSION = 20;
+const ZIP64_VERSION = 45;
+// unix (3) host system
+const VERSION_MADE_BY = (3 * 256) + ZIP64_VERSION;
+const MAX_UINT16 = 0xFF_FF;
+const MAX_UINT32 = 0xFF_FF_FF_FF;
+// unix mode 100644 (regular file)
+const FILE_EXTERNAL_ATTRIBUTES = 0x81_A4 * 65_536;
+// unix mode 40755 (directory) and ms-dos directory attribute
+const DIRECTORY_EXTERNAL_ATTRIBUTES = (0x41_ED * 65_536) + 0x10;
+
+/**
+ * Create the crc32 table
+ *
+ * @returns crc32 table
+ */
+function createCRC32Table() {
+	const table = new Int32Array(256);
+	for (let index = 0; index < 256; index++) {
+		let crc = index;
+		for (let bit = 0; bit < 8; bit++) {
+			// eslint-disable-next-line no-bitwise
+			crc = (crc & 1) === 1 ? 0xED_B8_83_20 ^ (crc >>> 1) : crc >>> 1;
+		}
+		table[index] = crc;
+	}
+	return table;
+}
+
+const CRC32_TABLE = createCRC32Table();
+
+/**
+ * Compute crc32 checksum
+ *
+ * @param data - data to add to the checksum
+ * @param previous - previous checksum
+ * @returns the new checksum
+ */
+export function crc32(data: Uint8Array, previous = 0) {
+	/* eslint-disable no-bitwise */
+	let crc = ~previous;
+	for (const byte of data) {
+		crc = CRC32_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+	}
+	return ~crc >>> 0;
+	/* eslint-enable no-bitwise */
+}
+
+/**
+ * Write an unsigned 64-bit integer (safe integers only)
+ *
+ * @param buffer - buffer to write to
+ * @param value - value to write
+ * @param offset - offset in the buffer
+ */
+function writeUInt64LE(buffer: Buffer, value: number, offset: number) {
+	buffer.writeUInt32LE(value % 0x1_00_00_00_00, offset);
+	buffer.writeUInt32LE(Math.floor(value / 0x1_00_00_00_00), offset + 4);
+}
+
+/**
+ * Convert milliseconds to MS-DOS date and time (in UTC, zip files do not store the timezone)
+ *
+ * @param mtimeMs - milliseconds since epoch
+ * @returns MS-DOS date and time
+ */
+function millisecondsToDosDateTime(mtimeMs: number) {
+	const date = new Date(Math.max(mtimeMs, Date.UTC(1980, 0, 1)));
+	return {
+		date: ((date.getUTCFullYear() - 1980) * 512) + ((date.getUTCMonth() + 1) * 32) + date.getUTCDate(),
+		time: (date.getUTCHours() * 2048) + (date.getUTCMinutes() * 32) + Math.floor(date.getUTCSeconds() / 2),
+	};
+}
+
+/**
+ * Create the zip64 extra field with the values which do not fit in the headers
+ *
+ * @param values - values (size, compressed size or offset) written in the extra field
+ * @returns the extra field
+ */
+function createZip64ExtraField(values: readonly number[]) {
+	const extraField = Buffer.alloc(4 + (values.length * 8));
+	extraField.writeUInt16LE(ZIP64_EXTRA_FIELD_ID, 0);
+	extraField.writeUInt16LE(values.length * 8, 2);
+	for (const [index, value] of values.entries()) {
+		writeUInt64LE(extraField, value, 4 + (index * 8));
+	}
+	return extraField;
+}
+
+/**
+ * Create the local file header of an entry (the crc and sizes of the files are written in a data descriptor)
+ *
+ * @param name - entry name
+ * @param entry - zip stream entry
+ * @param zip64 - true if the sizes of the entry do not fit in 32 bits
+ * @returns the local file header
+ */
+function createLocalFileHeader(name: Buffer, entry: ZipStreamEntry, zip64: boolean) {
+	const extraField = zip64 ? createZip64ExtraField([0, 0]) : Buffer.alloc(0);
+	const header = Buffer.alloc(LOCAL_FILE_HEADER_LENGTH);
+	const { date, time } = millisecondsToDosDateTime(entry.mtimeMs);
+	header.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+	header.writeUInt16LE(zip64 ? ZIP64_VERSION : VERSION, 4);
+	header.writeUInt16LE(entry.createContent ? UTF8_FLAG + DATA_DESCRIPTOR_FLAG : UTF8_FLAG, 6);
+	header.writeUInt16LE(time, 10);
+	header.writeUInt16LE(date, 12);
+	header.writeUInt32LE(zip64 ? MAX_UINT32 : 0, 18);
+	header.writeUInt32LE(zip64 ? MAX_UINT32 : 0, 22);
+	header.writeUInt16LE(name.byteLength, 26);
+	header.writeUInt16LE(extraField.byteLength, 28);
+	return Buffer.concat([header, name, extraField]);
+}
+
+/**
+ * Create the data descriptor of a file
+ *
+ * @param crc - crc32 checksum of the file
+ * @param size - file size
+ * @param zip64 - true if the sizes of the entry do not fit in 32 bits
+ * @returns the data descriptor
+ */
+function createDataDescriptor(crc: number, size: number, zip64: boolean) {
+	const descriptor = Buffer.alloc(zip64 ? 24 : 16);
+	descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+	descriptor.writeUInt32LE(crc, 4);
+	if (zip64) {
+		writeUInt64LE(descriptor, size, 8);
+		writeUInt64LE(descriptor, size, 16);
+	} else {
+		descriptor.writeUInt32LE(size, 8);
+		descriptor.writeUInt32LE(size, 12);
+	}
+	return descriptor;
+}
+
+/**
+ * Create the central directory header of an entry
+ *
+ * @param name - entry name
+ * @param entry - zip stream entry
+ * @param crc - crc32 checksum of the entry
+ * @param offset - offset of the local file header
+ * @returns the central directory header
+ */
+function createCentralDirectoryHeader(name: Buffer, entry: ZipStreamEntry, crc: number, offset: number) {
+	const { size, mtimeMs, createContent } = entry;
+	const zip64Values = size >= MAX_UINT32 ? [size, size] : [];
+	if (offset >= MAX_UINT32) {
+		zip64Values.push(offset);
+	}
+	const extraField = zip64Values.length > 0 ? createZip64ExtraField(zip64Values) : Buffer.alloc(0);
+	const header = Buffer.alloc(CENTRAL_DIRECTORY_HEADER_LENGTH);
+	const { date, time } = millisecondsToDosDateTime(mtimeMs);
+	header.writeUInt32LE(CENTRAL_DIRECTORY_HEADER_SIGNATURE, 0);
+	header.writeUInt16LE(VERSION_MADE_BY, 4);
+	header.writeUInt16LE(zip64Values.length > 0 ? ZIP64_VERSION : VERSION, 6);
+	header.writeUInt16LE(createContent ? UTF8_FLAG + DATA_DESCRIPTOR_FLAG : UTF8_FLAG, 8);
+	header.writeUInt16LE(time, 12);
+	header.writeUInt16LE(date, 14);
+	header.writeUInt32LE(crc, 16);
+	header.writeUInt32LE(Math.min(size, MAX_UINT32), 20);
+	header.writeUInt32LE(Math.min(size, MAX_UINT32), 24);
+	header.writeUInt16LE(name.byteLength, 28);
+	header.writeUInt16LE(extraField.byteLength, 30);
+	header.writeUInt32LE(createContent ? FILE_EXTERNAL_ATTRIBUTES : DIRECTORY_EXTERNAL_ATTRIBUTES, 38);
+	header.writeUInt32LE(Math.min(offset, MAX_UINT32), 42);
+	return Buffer.concat([header, name, extraField]);
+}
+
+/**
+ * Create the end of central directory records (with the zip64 records if needed)
+ *
+ * @param entriesCount - number of entries
+ * @param size - central directory size
+ * @param offset - central directory offset
+ * @returns the end of central directory records
+ */
+function createEndOfCentralDirectory(entriesCount: number, size: number, offset: number) {
+	const records = [];
+	if (entriesCount >= MAX_UINT16 || size >= MAX_UINT32 || offset >= MAX_UINT32) {
+		const zip64Record = Buffer.alloc(ZIP64_END_OF_CENTRAL_DIRECTORY_LENGTH);
+		zip64Record.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+		writeUInt64LE(zip64Record, ZIP64_END_OF_CENTRAL_DIRECTORY_LENGTH - 12, 4);
+		zip64Record.writeUInt16LE(VERSION_MADE_BY, 12);
+		zip64Record.writeUInt16LE(ZIP64_VERSION, 14);
+		writeUInt64LE(zip64Record, entriesCount, 24);
+		writeUInt64LE(zip64Record, entriesCount, 32);
+		writeUInt64LE(zip64Record, size, 40);
+		writeUInt64LE(zip64Record, offset, 48);
+		const locator = Buffer.alloc(ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_LENGTH);
+		locator.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE, 0);
+		writeUInt64LE(locator, offset + size, 8);
+		locator.writeUInt32LE(1, 16);
+		records.push(zip64Record, locator);
+	}
+	const record = Buffer.alloc(END_OF_CENTRAL_DIRECTORY_LENGTH);
+	record.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+	record.writeUInt16LE(Math.min(entriesCount, MAX_UINT16), 8);
+	record.writeUInt16LE(Math.min(entriesCount, MAX_UINT16), 10);
+	record.writeUInt32LE(Math.min(size, MAX_UINT32), 12);
+	record.writeUInt32LE(Math.min(offset, MAX_UINT32), 16);
+	records.push(record);
+	return Buffer.concat(records);
+}
+
+/**
+ * Async generator writing a zip archive on the fly
+ * (the files are stored without compression, their crc and sizes are written in data descriptors)
+ *
+ * The entries are read one by one when the archive is read, so the backpressure of the consumer is kept.
+ *
+ * @param entries - entries to write
+ * @yields zip archive chunks
+ * @throws an Error when the content of a file does not have the expected size
+ */
+export async function *createZipStream(entries: AsyncIterable<ZipStreamEntry>) {
+	const centralDirectoryHeaders: Buffer[] = [];
+	let offset = 0;
+	for await (const entry of entries) {
+		const name = Buffer.from(entry.name, 'utf8');
+		const zip64 = entry.size >= MAX_UINT32;
+		const localFileHeader = createLocalFileHeader(name, entry, zip64);
+		yield localFileHeader;
+		let crc = 0;
+		let size = 0;
+		let dataDescriptorLength = 0;
+		if (entry.createContent) {
+			const content: Readable = await entry.createContent();
+			for await (const chunk of content) {
+				const buffer = <Buffer> chunk;
+				crc = crc32(buffer, crc);
+				size += buffer.byteLength;
+				yield buffer;
+			}
+			if (size !== entry.size) {
+				throw new Error(
+					`${ entry.name } size changed while it was written (${ size } instead of ${ entry.size })`,
+				);
+			}
+			const dataDescriptor = createDataDescriptor(crc, size, zip64);
+			dataDescriptorLength = dataDescriptor.byteLength;
+			yield dataDescriptor;
+		}
+		centralDirectoryHeaders.push(createCentralDirectoryHeader(name, entry, crc, offset));
+		offset += localFileHeader.byteLength + size + dataDescriptorLength;
+	}
+	let centralDirectorySize = 0;
+	for (const header of centralDirectoryHeaders) {
+		centralDirectorySize += header.byteLength;
+		yield header;
+	}
+	yield createEndOfCentralDirectory(centralDirectoryHeaders.length, centralDirectorySize, offset);
+}
@@ -0,0 +1,519 @@
+/* eslint-env node, mocha */
+
+import * as assert from 'assert';
+import * as http from 'http';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { inflateSync } from 'zlib';
+
+import request from 'supertest';
+
+import type { StreamResponse, ArchiveStorageOptions, ArchiveStorage } from '../src/send-stream';
+import { ZipStorage, TarStorage, StreamRange, adler32, readAll } from '../src/send-stream';
+
+const fixtures = join(__dirname, 'fixtures-archive');
+const html = `<!DOCTYPE html><html><head><title>docs</title></head><body>${
+	'<p>documentation</p>'.repeat(20)
+}</body></html>\n`;
+const large = Array.from({ length: 4000 }, (_value, index) => `line ${ String(index).padStart(5, '0') }\n`).join('');
+const lastModified = 'Thu, 02 Jan 2020 03:04:06 GMT';
+
+function createEndOfCentralDirectory(entriesCount: number, size: number, offset: number) {
+	const eocd = Buffer.alloc(22);
+	eocd.writeUInt32LE(0x06_05_4B_50, 0);
+	eocd.writeUInt16LE(entriesCount, 10);
+	eocd.writeUInt32LE(size, 12);
+	eocd.writeUInt32LE(offset, 16);
+	return eocd;
+}
+
+async function assertInvalid(storage: ArchiveStorage, message: RegExp) {
+	await assert.rejects(
+		storage.getIndex(),
+		(err: Error) => err.name === 'InvalidArchiveError' && message.test(err.message),
+	);
+}
+
+describe('archive storage', () => {
+	let lastResult: StreamResponse<unknown> | true | undefined;
+
+	function createServer(storage: ArchiveStorage) {
+		return http.createServer((req, res) => {
+			(async () => {
+				// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+				const response = await storage.prepareResponse(req.url!, req);
+				lastResult = response;
+				if (response.error) {
+					response.headers['X-Send-Stream-Error'] = response.error.name;
+				}
+				await response.send(res);
+			})().catch(err => {
+				res.statusCode = 500;
+				console.error(err);
+				if (!res.writableEnded) {
+					res.end('Internal Error');
+				}
+			});
+		});
+	}
+
+	afterEach('destroy check', () => {
+		assert.notStrictEqual(lastResult, undefined);
+		if (lastResult && lastResult !== true) {
+			assert.strictEqual(lastResult.stream.destroyed, true);
+		}
+		lastResult = undefined;
+	});
+
+	const archives: [string, (archivePath: string, opts: ArchiveStorageOptions) => ArchiveStorage][] = [
+		['docs.zip', (archivePath, opts) => new ZipStorage(archivePath, opts)],
+		['docs.tar', (archivePath, opts) => new TarStorage(archivePath, opts)],
+	];
+
+	for (const [archiveName, createStorage] of archives) {
+		describe(`with ${ archiveName }`, () => {
+			let app: http.Server;
+			before(() => {
+				app = createServer(createStorage(join(fixtures, archiveName), { onDirectory: 'list-files' }));
+			});
+
+			it('should serve entries', async () => {
+				await request(app)
+					.get('/index.html')
+					.set('Accept-Encoding', 'identity')
+					.expect('Content-Type', 'text/html; charset=UTF-8')
+					.expect('Content-Length', String(html.length))
+					.expect('Last-Modified', lastModified)
+					.expect(200, html);
+			});
+
+			it('should serve byte ranges of entries', async () => {
+				await request(app)
+					.get('/stored.txt')
+					.set('Range', 'bytes=2-4')
+					.expect('Content-Range', 'bytes 2-4/10')
+					.expect(206, '234');
+			});
+
+			it('should serve multiple byte ranges of entries', async () => {
+				await request(app)
+					.get('/stored.txt')
+					.set('Range', 'bytes=0-0,8-9')
+					.expect('Content-Type', /^multipart\/byteranges/u)
+					.expect(206);
+			});
+
+			it('should serve empty entries', async () => {
+				await request(app)
+					.get('/empty.txt')
+					.expect('Content-Length', '0')
+					.expect(200, '');
+			});
+
+			it('should serve entries in directories', async () => {
+				await request(app)
+					.get('/dir/nested.txt')
+					.set('Accept-Encoding', 'identity')
+					.expect(200, 'nested file\n');
+			});
+
+			it('should serve entries with encoded names', async () => {
+				await request(app)
+					.get('/snow%20%E2%98%83.txt')
+					.set('Accept-Encoding', 'identity')
+					.expect(200, 'snow\n');
+			});
+
+			it('should list archive directories', async () => {
+				await request(app)
+					.get('/')
+					.expect('Content-Type', 'text/html; charset=UTF-8')
+					.expect(200)
+					.expect(res => {
+						assert.ok(res.text.includes('<a href="./dir/">dir/</a>'));
+						assert.ok(res.text.includes('<a href="./stored.txt">stored.txt</a>'));
+						assert.ok(!res.text.includes('hidden'));
+					});
+				await request(app)
+					.get('/dir/')
+					.expect(200)
+					.expect(res => {
+						assert.ok(res.text.includes('<a href="./nested.txt">nested.txt</a>'));
+					});
+			});
+
+			it('should 404 when entry does not exist', async () => {
+				await request(app)
+					.get('/does-not-exist.txt')
+					.expect('X-Send-Stream-Error', 'DoesNotExistError')
+					.expect(404);
+			});
+
+			it('should 404 on directories without trailing slash', async () => {
+				await request(app)
+					.get('/dir')
+					.expect('X-Send-Stream-Error', 'IsDirectoryError')
+					.expect(404);
+			});
+
+			it('should reuse path validation', async () => {
+				await request(app)
+					.get('/../stored.txt')
+					.expect(404);
+				await request(app)
+					.get('/.hidden')
+					.expect('X-Send-Stream-Error', 'IgnoredFileError')
+					.expect(404);
+			});
+		});
+	}
+
+	describe('with zip entries', () => {
+		const archivePath = join(fixtures, 'docs.zip');
+		let storage: ZipStorage;
+		let app: http.Server;
+		beforeEach(() => {
+			storage = new ZipStorage(archivePath, { onDirectory: 'list-files' });
+			app = createServer(storage);
+		});
+
+		it('should serve deflated entries with deflate content encoding', async () => {
+			await request(app)
+				.get('/index.html')
+				.set('Accept-Encoding', 'gzip, deflate')
+				.expect('Content-Encoding', 'deflate')
+				.expect('Vary', 'Accept-Encoding')
+				.expect('Content-Length', '82')
+				.expect(200, html);
+		});
+
+		it('should serve deflated entries without content encoding when deflate is not accepted', async () => {
+			await request(app)
+				.get('/index.html')
+				.set('Accept-Encoding', 'gzip')
+				.expect('Vary', 'Accept-Encoding')
+				.expect('Content-Length', String(html.length))
+				.expect(200, html);
+			await request(app)
+				.get('/index.html')
+				.set('Accept-Encoding', 'deflate;q=0, identity;q=0')
+				.expect('Content-Length', String(html.length))
+				.expect(200, html);
+		});
+
+		it('should serve big deflated entries', async () => {
+			await request(app)
+				.get('/large.txt')
+				.set('Accept-Encoding', 'deflate')
+				.expect('Content-Encoding', 'deflate')
+				.expect(200, large);
+			await request(app)
+				.get('/large.txt')
+				.set('Accept-Encoding', 'identity')
+				.set('Range', 'bytes=20000-20010')
+				.expect(206, large.slice(20_000, 20_011));
+		});
+
+		it('should serve byte ranges of deflate encoded entries', async () => {
+			const storageInfo = await storage.open('/large.txt', { 'accept-encoding': 'deflate' });
+			assert.strictEqual(storageInfo.contentEncoding, 'deflate');
+			const encoded = await readAll(storage.createReadableStream(storageInfo, undefined, true));
+			assert.strictEqual(encoded.byteLength, storageInfo.size);
+			assert.strictEqual(inflateSync(encoded).toString(), large);
+			const range = await readAll(storage.createReadableStream(storageInfo, new StreamRange(1, 10), true));
+			assert.deepStrictEqual(range, encoded.subarray(1, 11));
+			await storage.close(storageInfo);
+			lastResult = true;
+		});
+
+		it('should stream whole entries without range', async () => {
+			const storageInfo = await storage.open('/index.html', {});
+			const content = await readAll(storage.createReadableStream(storageInfo, undefined, true));
+			assert.strictEqual(content.toString(), html);
+			const storedStorageInfo = await storage.open('/stored.txt', {});
+			assert.strictEqual(
+				(await readAll(storage.createReadableStream(storedStorageInfo, undefined, true))).toString(),
+				'0123456789',
+			);
+			lastResult = true;
+		});
+
+		it('should fail to stream corrupted entries', async () => {
+			const storageInfo = await storage.open('/corrupt.txt', {});
+			await assert.rejects(readAll(storage.createReadableStream(storageInfo, undefined, true)));
+			const deflateStorageInfo = await storage.open('/corrupt.txt', { 'accept-encoding': 'deflate' });
+			await assert.rejects(readAll(storage.createReadableStream(deflateStorageInfo, undefined, true)));
+			lastResult = true;
+		});
+
+		it('should list implied directories', async () => {
+			await request(app)
+				.get('/implied/')
+				.expect(200)
+				.expect(res => {
+					assert.ok(res.text.includes('<a href="./file.txt">file.txt</a>'));
+				});
+			await request(app)
+				.get('/late/')
+				.expect(200)
+				.expect(res => {
+					assert.ok(res.text.includes('<a href="./file.txt">file.txt</a>'));
+				});
+		});
+
+		it('should serve directory index', async () => {
+			await request(createServer(new ZipStorage(archivePath, { onDirectory: 'serve-index' })))
+				.get('/dir/')
+				.set('Accept-Encoding', 'identity')
+				.expect(200, '<p>dir index</p>\n');
+		});
+
+		it('should ignore unsupported and invalid entries', async () => {
+			for (const path of ['/bzip2.txt', '/encrypted.txt', '/evil.txt', '/bad-local-header.txt']) {
+				// eslint-disable-next-line no-await-in-loop
+				await request(app)
+					.get(path)
+					.expect('X-Send-Stream-Error', 'DoesNotExistError')
+					.expect(404);
+			}
+		});
+
+		it('should use content encoding mappings', async () => {
+			const mappingApp = createServer(new ZipStorage(archivePath, {
+				contentEncodingMappings: [
+					{
+						matcher: /^(?<path>.+\.json)$/u,
+						encodings: [{ name: 'gzip', path: '$1.gz' }],
+					},
+				],
+			}));
+			await request(mappingApp)
+				.get('/data.json')
+				.set('Accept-Encoding', 'gzip, deflate')
+				.expect('Content-Encoding', 'gzip')
+				.expect('Content-Length', '34')
+				.expect(200, { data: 'x'.repeat(100) });
+			await request(mappingApp)
+				.get('/data.json')
+				.set('Accept-Encoding', 'deflate')
+				.expect('Content-Encoding', 'deflate')
+				.expect('Vary', 'Accept-Encoding')
+				.expect(200, { data: 'x'.repeat(100) });
+		});
+
+		it('should cache content hashes per content encoding', async () => {
+			const hashApp = createServer(new ZipStorage(archivePath, { etagMode: 'hash' }));
+			let identityEtag: string | undefined;
+			await request(hashApp)
+				.get('/index.html')
+				.set('Accept-Encoding', 'identity')
+				.expect(200, html)
+				.expect(res => {
+					identityEtag = res.get('ETag');
+				});
+			await request(hashApp)
+				.get('/index.html')
+				.set('Accept-Encoding', 'deflate')
+				.expect('Content-Encoding', 'deflate')
+				.expect(200, html)
+				.expect(res => {
+					assert.ok(res.get('ETag').endsWith('-deflate"'));
+					assert.notStrictEqual(res.get('ETag'), identityEtag);
+				});
+		});
+
+		it('should provide stats and directory entries through the fs module', async () => {
+			const fd = await storage.fsOpen('/stored.txt', storage.fsConstants.O_RDONLY);
+			const stats = await storage.fsFstat(fd);
+			assert.strictEqual(stats.isFile(), true);
+			assert.strictEqual(stats.isDirectory(), false);
+			assert.strictEqual(stats.isBlockDevice(), false);
+			assert.strictEqual(stats.isCharacterDevice(), false);
+			assert.strictEqual(stats.isSymbolicLink(), false);
+			assert.strictEqual(stats.isFIFO(), false);
+			assert.strictEqual(stats.isSocket(), false);
+			assert.strictEqual(stats.size, 10);
+			assert.strictEqual(stats.mtime.toUTCString(), lastModified);
+			await storage.fsClose(fd);
+			const files = await storage.fsReaddir('/dir', { withFileTypes: true });
+			assert.deepStrictEqual(files.map(file => [file.name, file.isDirectory()]), [
+				['nested.txt', false],
+				['index.html', false],
+			]);
+			assert.deepStrictEqual(await storage.fsReaddir('/does-not-exist', { withFileTypes: true }), []);
+			lastResult = true;
+		});
+	});
+
+	describe('with tar entries', () => {
+		let app: http.Server;
+		before(() => {
+			app = createServer(new TarStorage(join(fixtures, 'docs.tar'), { onDirectory: 'list-files' }));
+		});
+
+		it('should serve entries with long names', async () => {
+			const longDirectory = `/long/${ 'a'.repeat(60) }/${ 'b'.repeat(60) }`;
+			await request(app)
+				.get(`${ longDirectory }/ustar.txt`)
+				.expect(200, 'ustar prefix\n');
+			await request(app)
+				.get(`${ longDirectory }/${ 'c'.repeat(100) }-gnu.txt`)
+				.expect(200, 'gnu long name\n');
+			await request(app)
+				.get(`${ longDirectory }/${ 'c'.repeat(100) }-pax.txt`)
+				.expect(200, 'pax long name\n');
+			await request(app)
+				.get(`/${ 'n'.repeat(96) }.txt`)
+				.expect(200, '100 characters name\n');
+		});
+
+		it('should serve entries following extended headers', async () => {
+			await request(app)
+				.get('/comment.txt')
+				.expect(200, 'pax without path\n');
+			await request(app)
+				.get('/after-bad-pax.txt')
+				.expect(200, 'after bad pax\n');
+			await request(app)
+				.get('/after-global.txt')
+				.expect(200, 'after global\n');
+		});
+
+		it('should serve entries with dot prefix', async () => {
+			await request(app)
+				.get('/dot/file.txt')
+				.expect(200, 'dot prefix\n');
+		});
+
+		it('should ignore links', async () => {
+			await request(app)
+				.get('/link.txt')
+				.expect('X-Send-Stream-Error', 'DoesNotExistError')
+				.expect(404);
+		});
+
+		it('should replace files by directories implied by next entries', async () => {
+			await request(app)
+				.get('/conflict/child.txt')
+				.expect(200, 'child\n');
+		});
+	});
+
+	describe('with invalid archives', () => {
+		let root: string;
+		before(async () => {
+			root = await fs.promises.mkdtemp(join(tmpdir(), 'send-stream-'));
+		});
+		after(async () => {
+			for (const file of await fs.promises.readdir(root)) {
+				// eslint-disable-next-line no-await-in-loop
+				await fs.promises.unlink(join(root, file));
+			}
+			await fs.promises.rmdir(root);
+		});
+
+		beforeEach(() => {
+			lastResult = true;
+		});
+
+		async function createArchive(name: string, content: Buffer) {
+			const archivePath = join(root, name);
+			await fs.promises.writeFile(archivePath, content);
+			return archivePath;
+		}
+
+		it('should fail on files which are not zip files', async () => {
+			const storage = new ZipStorage(join(fixtures, 'docs.tar'));
+			await assertInvalid(storage, /is not a zip file$/u);
+			assert.strictEqual(storage.index, undefined);
+			await assertInvalid(storage, /is not a zip file$/u);
+		});
+
+		it('should 404 and fail to list directories of invalid archives', async () => {
+			const storage = new ZipStorage(join(fixtures, 'docs.tar'), { onDirectory: 'list-files' });
+			lastResult = undefined;
+			await request(createServer(storage))
+				.get('/stored.txt')
+				.expect('X-Send-Stream-Error', 'DoesNotExistError')
+				.expect(404);
+			await assert.rejects(storage.fsReaddir('/', { withFileTypes: true }));
+		});
+
+		it('should fail on zip64 files', async () => {
+			await assertInvalid(
+				new ZipStorage(await createArchive('zip64.zip', createEndOfCentralDirectory(0xFF_FF, 0, 0))),
+				/is a zip64 file \(not supported\)$/u,
+			);
+		});
+
+		it('should fail on invalid zip central directories', async () => {
+			await assertInvalid(
+				new ZipStorage(await createArchive(
+					'bad-signature.zip',
+					Buffer.concat([Buffer.alloc(46), createEndOfCentralDirectory(1, 46, 0)]),
+				)),
+				/has an invalid central directory$/u,
+			);
+			await assertInvalid(
+				new ZipStorage(await createArchive('short.zip', createEndOfCentralDirectory(1, 0, 0))),
+				/has an invalid central directory$/u,
+			);
+		});
+
+		it('should fail on truncated zip files', async () => {
+			await assertInvalid(
+				new ZipStorage(await createArchive('truncated.zip', createEndOfCentralDirectory(1, 46, 1000))),
+				/ended unexpectedly$/u,
+			);
+		});
+
+		it('should fail on invalid tar headers', async () => {
+			const tar = await fs.promises.readFile(join(fixtures, 'docs.tar'));
+			const badChecksum = Buffer.from(tar.subarray(0, 1024));
+			badChecksum[0] = 0x61;
+			await assertInvalid(
+				new TarStorage(await createArchive('bad-checksum.tar', badChecksum)),
+				/has an invalid tar header at 0$/u,
+			);
+		});
+
+		it('should fail on truncated tar files', async () => {
+			const tar = await fs.promises.readFile(join(fixtures, 'docs.tar'));
+			const longLinkOffset = tar.indexOf('././@LongLink');
+			await assertInvalid(
+				new TarStorage(await createArchive('truncated.tar', tar.subarray(0, longLinkOffset + 512))),
+				/ended unexpectedly$/u,
+			);
+		});
+
+		it('should read tar files without end of archive blocks', async () => {
+			const tar = await fs.promises.readFile(join(fixtures, 'docs.tar'));
+			const storage = new TarStorage(await createArchive('no-end.tar', tar.subarray(0, 512)));
+			assert.deepStrictEqual([...(await storage.getIndex()).keys()], ['/']);
+		});
+
+		it('should read the index again when the archive changes', async () => {
+			const tar = await fs.promises.readFile(join(fixtures, 'docs.tar'));
+			const storage = new TarStorage(await createArchive('changing.tar', tar.subarray(0, 512)));
+			assert.deepStrictEqual([...(await storage.getIndex()).keys()], ['/']);
+			await createArchive('changing.tar', tar);
+			lastResult = undefined;
+			await request(createServer(storage))
+				.get('/stored.txt')
+				.expect(200, '0123456789');
+		});
+	});
+
+	describe('adler32', () => {
+		beforeEach(() => {
+			lastResult = true;
+		});
+
+		it('should compute adler32 checksums', () => {
+			assert.strictEqual(adler32(Buffer.from('Wikipedia')), 0x11_E6_03_98);
+			assert.strictEqual(adler32(Buffer.from('pedia'), adler32(Buffer.from('Wiki'))), 0x11_E6_03_98);
+			assert.strictEqual(adler32(Buffer.alloc(0)), 1);
+		});
+	});
+});
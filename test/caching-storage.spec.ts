@@ -0,0 +1,383 @@
+/* eslint-env node, mocha */
+
+import * as assert from 'assert';
+import * as http from 'http';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+
+import request from 'supertest';
+
+import type {
+	FilePath,
+	FileData,
+	StorageInfo,
+	StreamResponse,
+	CachingStorageOptions,
+} from '../src/send-stream';
+import { BufferStream, CachingStorage, FileSystemStorage, LRUCache, StreamRange } from '../src/send-stream';
+
+function createCachingStorage(root: string, opts?: CachingStorageOptions) {
+	return new CachingStorage(new FileSystemStorage(root, { onDirectory: 'list-files' }), opts);
+}
+
+describe('caching storage', () => {
+	const fixtures = join(__dirname, 'fixtures-http');
+
+	let lastResult: StreamResponse<unknown> | true | undefined;
+
+	function createServer(storage: CachingStorage<FilePath, FileData>) {
+		return http.createServer((req, res) => {
+			(async () => {
+				// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+				const response = await storage.prepareResponse(req.url!, req);
+				lastResult = response;
+				if (response.error) {
+					response.headers['X-Send-Stream-Error'] = response.error.name;
+				}
+				await response.send(res);
+			})().catch(err => {
+				res.statusCode = 500;
+				console.error(err);
+				if (!res.writableEnded) {
+					res.end('Internal Error');
+				}
+			});
+		});
+	}
+
+	afterEach('destroy check', () => {
+		assert.notStrictEqual(lastResult, undefined);
+		if (lastResult && lastResult !== true) {
+			assert.strictEqual(lastResult.stream.destroyed, true);
+		}
+		lastResult = undefined;
+	});
+
+	describe('with default options', () => {
+		let storage: CachingStorage<FilePath, FileData>;
+		let app: http.Server;
+		beforeEach(() => {
+			storage = createCachingStorage(fixtures);
+			app = createServer(storage);
+		});
+
+		it('should cache file content', async () => {
+			await request(app)
+				.get('/name.txt')
+				.expect('Content-Length', '4')
+				.expect(200, 'tobi');
+			await request(app)
+				.get('/name.txt')
+				.expect('Content-Length', '4')
+				.expect(200, 'tobi');
+			assert.strictEqual(storage.misses, 1);
+			assert.strictEqual(storage.hits, 1);
+		});
+
+		it('should cache the query variants of a file once', async () => {
+			for (const query of ['?v=1', '?v=2', '?v=3']) {
+				// eslint-disable-next-line no-await-in-loop
+				await request(app)
+					.get(`/name.txt${ query }`)
+					.expect(200, 'tobi');
+			}
+			assert.strictEqual(storage.misses, 1);
+			assert.strictEqual(storage.hits, 2);
+			assert.strictEqual(storage.cache.length, 1);
+		});
+
+		it('should serve byte ranges from cache', async () => {
+			await request(app)
+				.get('/nums.txt')
+				.expect(200, '123456789');
+			await request(app)
+				.get('/nums.txt')
+				.set('Range', 'bytes=2-4')
+				.expect('Content-Range', 'bytes 2-4/9')
+				.expect(206, '345');
+			assert.strictEqual(storage.hits, 1);
+		});
+
+		it('should serve multiple byte ranges from cache', async () => {
+			await request(app)
+				.get('/nums.txt')
+				.set('Range', 'bytes=0-0,2-2')
+				.expect('Content-Type', /^multipart\/byteranges/u)
+				.expect(206);
+			assert.strictEqual(storage.misses, 1);
+		});
+
+		it('should cache zero-length files', async () => {
+			await request(app)
+				.get('/empty.txt')
+				.expect('Content-Length', '0')
+				.expect(200, '');
+			assert.strictEqual(storage.cache.length, 1);
+		});
+
+		it('should support HEAD', async () => {
+			await request(app)
+				.head('/name.txt')
+				.expect('Content-Length', '4')
+				.expect(200);
+		});
+
+		it('should not cache directory listings', async () => {
+			await request(app)
+				.get('/pets/')
+				.expect('Content-Type', 'text/html; charset=UTF-8')
+				.expect(200);
+			assert.strictEqual(storage.cache.length, 0);
+			assert.strictEqual(storage.misses, 0);
+		});
+
+		it('should 404 if the file does not exist', async () => {
+			await request(app)
+				.get('/does-not-exist.txt')
+				.expect('X-Send-Stream-Error', 'DoesNotExistError')
+				.expect(404);
+		});
+
+		it('should reset cache and counters on clear', async () => {
+			await request(app)
+				.get('/name.txt')
+				.expect(200, 'tobi');
+			storage.clear();
+			assert.strictEqual(storage.cache.length, 0);
+			assert.strictEqual(storage.misses, 0);
+			assert.strictEqual(storage.hits, 0);
+			lastResult = true;
+		});
+
+		it('should stream the whole content when no range is given', async () => {
+			const storageInfo = await storage.open('/name.txt', {});
+			const chunks: Buffer[] = [];
+			for await (const chunk of storage.createReadableStream(storageInfo, undefined, true)) {
+				chunks.push(<Buffer> chunk);
+			}
+			await storage.close(storageInfo);
+			assert.strictEqual(Buffer.concat(chunks).toString(), 'tobi');
+			lastResult = true;
+		});
+	});
+
+	describe('when file is modified', () => {
+		let root: string;
+		let storage: CachingStorage<FilePath, FileData>;
+		let app: http.Server;
+		before(async () => {
+			root = await fs.promises.mkdtemp(join(tmpdir(), 'send-stream-'));
+			storage = createCachingStorage(root);
+			app = createServer(storage);
+		});
+		after(async () => {
+			await fs.promises.unlink(join(root, 'file.txt'));
+			await fs.promises.rmdir(root);
+		});
+
+		it('should invalidate content when mtime changes', async () => {
+			const file = join(root, 'file.txt');
+			await fs.promises.writeFile(file, 'aaaa');
+			await fs.promises.utimes(file, 1_000_000, 1_000_000);
+			await request(app)
+				.get('/file.txt')
+				.expect(200, 'aaaa');
+			await fs.promises.writeFile(file, 'bbbb');
+			await fs.promises.utimes(file, 2_000_000, 2_000_000);
+			await request(app)
+				.get('/file.txt')
+				.expect(200, 'bbbb');
+			assert.strictEqual(storage.misses, 2);
+			assert.strictEqual(storage.hits, 0);
+		});
+
+		it('should invalidate content when size changes', async () => {
+			const file = join(root, 'file.txt');
+			await fs.promises.writeFile(file, 'cc');
+			await fs.promises.utimes(file, 2_000_000, 2_000_000);
+			await request(app)
+				.get('/file.txt')
+				.expect(200, 'cc');
+			assert.strictEqual(storage.misses, 3);
+		});
+	});
+
+	describe('with limits', () => {
+		it('should not cache files bigger than maxSize', async () => {
+			const storage = createCachingStorage(fixtures, { maxSize: 5 });
+			const app = createServer(storage);
+			await request(app)
+				.get('/nums.txt')
+				.expect('Content-Length', '9')
+				.expect(200, '123456789');
+			await request(app)
+				.head('/nums.txt')
+				.expect('Content-Length', '9')
+				.expect(200);
+			assert.strictEqual(storage.cache.length, 0);
+			assert.strictEqual(storage.misses, 0);
+		});
+
+		it('should evict least recently used content when maxEntries is reached', async () => {
+			const storage = createCachingStorage(fixtures, { maxEntries: 1 });
+			const app = createServer(storage);
+			await request(app)
+				.get('/name.txt')
+				.expect(200, 'tobi');
+			await request(app)
+				.get('/nums.txt')
+				.expect(200, '123456789');
+			await request(app)
+				.get('/name.txt')
+				.expect(200, 'tobi');
+			assert.strictEqual(storage.misses, 3);
+			assert.strictEqual(storage.cache.length, 1);
+		});
+
+		it('should expire content after ttl', async () => {
+			const storage = createCachingStorage(fixtures, { ttl: 0 });
+			const app = createServer(storage);
+			await request(app)
+				.get('/name.txt')
+				.expect(200, 'tobi');
+			await request(app)
+				.get('/name.txt')
+				.expect(200, 'tobi');
+			assert.strictEqual(storage.misses, 2);
+			assert.strictEqual(storage.hits, 0);
+		});
+	});
+
+	describe('when wrapped storage has no content hash cache key', () => {
+		it('should cache contents by reference', async () => {
+			class ReferenceFileSystemStorage extends FileSystemStorage {
+				// eslint-disable-next-line class-methods-use-this
+				override createContentHashCacheKey() {
+					return <const> false;
+				}
+			}
+			const storage = new CachingStorage(new ReferenceFileSystemStorage(fixtures));
+			const app = createServer(storage);
+			for (const path of ['/name.txt?v=1', '/name.txt?v=2', '/name.txt?v=1']) {
+				// eslint-disable-next-line no-await-in-loop
+				await request(app)
+					.get(path)
+					.expect(200, 'tobi');
+			}
+			assert.strictEqual(storage.misses, 2);
+			assert.strictEqual(storage.hits, 1);
+		});
+	});
+
+	describe('when wrapped storage content does not match its size', () => {
+		it('should not cache content and read it again from the wrapped storage', async () => {
+			class TruncatingFileSystemStorage extends FileSystemStorage {
+				override createReadableStream(
+					storageInfo: StorageInfo<FileData>,
+					range: StreamRange | undefined,
+					autoClose: boolean,
+				) {
+					// simulate a file truncated while being cached
+					if (!autoClose) {
+						return new BufferStream(Buffer.from('to'));
+					}
+					return super.createReadableStream(storageInfo, range, autoClose);
+				}
+			}
+			const storage = new CachingStorage(new TruncatingFileSystemStorage(fixtures));
+			const app = createServer(storage);
+			await request(app)
+				.get('/name.txt')
+				.expect('Content-Length', '4')
+				.expect(200, 'tobi');
+			assert.strictEqual(storage.cache.length, 0);
+		});
+	});
+
+	describe('when wrapped storage fails to read content', () => {
+		it('should close wrapped storage and 404', async () => {
+			let closed = false;
+			class FailingFileSystemStorage extends FileSystemStorage {
+				// eslint-disable-next-line class-methods-use-this
+				override createReadableStream() {
+					return new Readable({
+						read() {
+							this.destroy(new Error('oops'));
+						},
+					});
+				}
+
+				override async close(storageInfo: StorageInfo<FileData>) {
+					closed = true;
+					await super.close(storageInfo);
+				}
+			}
+			const storage = new CachingStorage(new FailingFileSystemStorage(fixtures));
+			const app = createServer(storage);
+			await request(app)
+				.get('/name.txt')
+				.expect('X-Send-Stream-Error', 'StorageError')
+				.expect(404);
+			assert.strictEqual(closed, true);
+		});
+	});
+
+	describe('LRUCache', () => {
+		it('should evict least recently used values', () => {
+			const cache = new LRUCache<string, string>({ maxSize: 6, sizeOf: value => value.length });
+			cache.set('a', 'aa');
+			cache.set('b', 'bb');
+			assert.strictEqual(cache.get('a'), 'aa');
+			cache.set('c', 'cccc');
+			assert.strictEqual(cache.get('a'), 'aa');
+			assert.strictEqual(cache.get('b'), undefined);
+			assert.strictEqual(cache.size, 6);
+			lastResult = true;
+		});
+
+		it('should refuse values bigger than maxSize', () => {
+			const cache = new LRUCache<string, string>({ maxSize: 1, sizeOf: value => value.length });
+			assert.strictEqual(cache.set('a', 'a'), true);
+			assert.strictEqual(cache.set('a', 'aa'), false);
+			assert.strictEqual(cache.get('a'), undefined);
+			assert.strictEqual(cache.size, 0);
+			lastResult = true;
+		});
+
+		it('should count entries by default', () => {
+			const cache = new LRUCache<string, string>();
+			cache.set('a', 'aaa');
+			cache.set('b', 'bbb');
+			assert.strictEqual(cache.size, 2);
+			assert.strictEqual(cache.delete('a'), true);
+			assert.strictEqual(cache.delete('a'), false);
+			assert.strictEqual(cache.length, 1);
+			lastResult = true;
+		});
+
+		it('should expire values after ttl', () => {
+			const cache = new LRUCache<string, string>({ ttl: 0 });
+			cache.set('a', 'a');
+			assert.strictEqual(cache.get('a'), undefined);
+			assert.strictEqual(cache.size, 0);
+			assert.strictEqual(cache.length, 0);
+			lastResult = true;
+		});
+	});
+
+	describe('createReadableStream', () => {
+		it('should read wrapped storage when content is not cached', async () => {
+			const storage = createCachingStorage(fixtures, { maxSize: 0 });
+			const storageInfo = await storage.open('/name.txt', {});
+			const stream = storage.createReadableStream(storageInfo, new StreamRange(1, 2), true);
+			const chunks: Buffer[] = [];
+			for await (const chunk of stream) {
+				chunks.push(<Buffer> chunk);
+			}
+			assert.strictEqual(Buffer.concat(chunks).toString(), 'ob');
+			lastResult = true;
+		});
+	});
+});
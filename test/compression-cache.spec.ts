@@ -0,0 +1,314 @@
+/* eslint-env node, mocha */
+
+import * as assert from 'assert';
+import * as http from 'http';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Readable } from 'stream';
+import { gunzipSync } from 'zlib';
+
+import request from 'supertest';
+
+import type {
+	CompressionCache,
+	FileData,
+	StorageInfo,
+	StreamResponse,
+	FileSystemStorageOptions,
+} from '../src/send-stream';
+import {
+	Storage,
+	BufferStream,
+	FileSystemStorage,
+	MemoryCompressionCache,
+	FileSystemCompressionCache,
+	StreamRange,
+	readAll,
+} from '../src/send-stream';
+
+const content = 'compressible content, compressible content, compressible content\n';
+
+async function readFlowing(stream: Readable) {
+	return new Promise<Buffer>((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		stream.on('data', (chunk: Buffer) => {
+			chunks.push(chunk);
+		});
+		stream.on('error', reject);
+		stream.on('close', () => {
+			resolve(Buffer.concat(chunks));
+		});
+	});
+}
+
+class NoCacheKeyStorage extends Storage<string, undefined> {
+	// eslint-disable-next-line @typescript-eslint/require-await,class-methods-use-this
+	async open(): Promise<StorageInfo<undefined>> {
+		return { attachedData: undefined, fileName: 'file.txt', size: content.length, mtimeMs: 0 };
+	}
+
+	// eslint-disable-next-line class-methods-use-this
+	createReadableStream(_storageInfo: StorageInfo<undefined>, range: StreamRange | undefined) {
+		return new BufferStream(Buffer.from(content.slice(range?.start, (range?.end ?? 0) + 1)));
+	}
+
+	// eslint-disable-next-line class-methods-use-this
+	async close() {
+		// noop
+	}
+}
+
+describe('compression cache', () => {
+	let root: string;
+	let lastResult: StreamResponse<unknown> | true | undefined;
+
+	before(async () => {
+		root = await fs.promises.mkdtemp(join(tmpdir(), 'send-stream-compression-cache-'));
+		await fs.promises.writeFile(join(root, 'file.txt'), content);
+	});
+
+	after(async () => {
+		await fs.promises.rmdir(root, { recursive: true });
+	});
+
+	function createStorage(compressionCache: CompressionCache, opts: FileSystemStorageOptions = {}) {
+		return new FileSystemStorage(root, { dynamicCompression: ['gzip'], compressionCache, ...opts });
+	}
+
+	function createServer(storage: FileSystemStorage) {
+		return http.createServer((req, res) => {
+			(async () => {
+				// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+				const response = await storage.prepareResponse(req.url!, req);
+				lastResult = response;
+				if (response.error) {
+					response.headers['X-Send-Stream-Error'] = response.error.name;
+				}
+				await response.send(res);
+			})().catch(err => {
+				res.statusCode = 500;
+				console.error(err);
+				if (!res.writableEnded) {
+					res.end('Internal Error');
+				}
+			});
+		});
+	}
+
+	async function prepareResponse(storage: FileSystemStorage, headers: http.IncomingHttpHeaders) {
+		const response = await storage.prepareResponse('/file.txt', { ':method': 'GET', ...headers });
+		lastResult = response;
+		return { response, body: await readAll(response.stream) };
+	}
+
+	afterEach('destroy check', () => {
+		assert.notStrictEqual(lastResult, undefined);
+		if (lastResult && lastResult !== true) {
+			assert.strictEqual(lastResult.stream.destroyed, true);
+		}
+		lastResult = undefined;
+	});
+
+	describe('memory compression cache', () => {
+		let compressionCache: MemoryCompressionCache;
+		let storage: FileSystemStorage;
+		let app: http.Server;
+		beforeEach(() => {
+			compressionCache = new MemoryCompressionCache();
+			storage = createStorage(compressionCache);
+			app = createServer(storage);
+		});
+
+		it('should serve compressed content from cache with a known length', async () => {
+			const { header: { etag } } = <{ header: Record<string, string> }> await request(app)
+				.get('/file.txt')
+				.set('Accept-Encoding', 'gzip')
+				.expect('Content-Encoding', 'gzip')
+				.expect('Accept-Ranges', 'none')
+				.expect(res => {
+					assert.strictEqual((<Record<string, string>> res.header)['content-length'], undefined);
+				})
+				.expect(200, content);
+			assert.strictEqual(compressionCache.contents.length, 1);
+			assert.match(etag, /-gzip"$/u);
+			const key = storage.createCompressionCacheKey(<StorageInfo<FileData>> {
+				etag,
+				contentEncoding: 'gzip',
+				attachedData: { resolvedPath: join(root, 'file.txt') },
+			});
+			assert.ok(key);
+			const cached = compressionCache.contents.get(key);
+			assert.ok(cached);
+			assert.strictEqual(gunzipSync(cached).toString(), content);
+			await request(app)
+				.get('/file.txt')
+				.set('Accept-Encoding', 'gzip')
+				.expect('Content-Encoding', 'gzip')
+				.expect('Content-Length', String(cached.byteLength))
+				.expect('Accept-Ranges', 'bytes')
+				.expect('ETag', etag)
+				.expect('Vary', 'Accept-Encoding')
+				.expect(200, content);
+		});
+
+		it('should serve identity content without cache', async () => {
+			await request(app)
+				.get('/file.txt')
+				.set('Accept-Encoding', 'identity')
+				.expect('Content-Length', String(content.length))
+				.expect(200, content);
+			assert.strictEqual(compressionCache.contents.length, 0);
+		});
+
+		it('should serve byte ranges of the cached compressed content', async () => {
+			const { body: compressed } = await prepareResponse(storage, { 'accept-encoding': 'gzip' });
+			const { response, body } = await prepareResponse(
+				storage,
+				{ 'accept-encoding': 'gzip', range: 'bytes=2-9' },
+			);
+			assert.strictEqual(response.statusCode, 206);
+			assert.strictEqual(response.headers['Content-Range'], `bytes 2-9/${ compressed.byteLength }`);
+			assert.strictEqual(response.headers['Content-Encoding'], 'gzip');
+			assert.deepStrictEqual(body, compressed.subarray(2, 10));
+		});
+
+		it('should serve multiple byte ranges of the cached compressed content', async () => {
+			const { body: compressed } = await prepareResponse(storage, { 'accept-encoding': 'gzip' });
+			const response = await storage.prepareResponse(
+				'/file.txt',
+				{ ':method': 'GET', 'accept-encoding': 'gzip', range: 'bytes=0-1,10-11' },
+			);
+			lastResult = response;
+			const body = await readFlowing(response.stream);
+			assert.strictEqual(response.statusCode, 206);
+			assert.match(String(response.headers['Content-Type']), /^multipart\/byteranges/u);
+			assert.ok(body.includes(compressed.subarray(0, 2)));
+			assert.ok(body.includes(compressed.subarray(10, 12)));
+			assert.strictEqual(response.headers['Content-Length'], String(body.byteLength));
+		});
+
+		it('should serve HEAD requests from cache', async () => {
+			await request(app)
+				.head('/file.txt')
+				.set('Accept-Encoding', 'gzip')
+				.expect(200);
+			assert.strictEqual(compressionCache.contents.length, 0);
+			const { body: compressed } = await prepareResponse(storage, { 'accept-encoding': 'gzip' });
+			await request(app)
+				.head('/file.txt')
+				.set('Accept-Encoding', 'gzip')
+				.expect('Content-Length', String(compressed.byteLength))
+				.expect(200);
+		});
+
+		it('should compress again when the content changes', async () => {
+			const path = join(root, 'changing.txt');
+			await fs.promises.writeFile(path, content);
+			await request(app)
+				.get('/changing.txt')
+				.set('Accept-Encoding', 'gzip')
+				.expect(200, content);
+			await fs.promises.writeFile(path, content.toUpperCase());
+			await fs.promises.utimes(path, new Date(), new Date(Date.now() + 10_000));
+			await request(app)
+				.get('/changing.txt')
+				.set('Accept-Encoding', 'gzip')
+				.expect(200, content.toUpperCase());
+			assert.strictEqual(compressionCache.contents.length, 2);
+		});
+
+		it('should not cache content bigger than max size', async () => {
+			storage = createStorage(new MemoryCompressionCache({ maxSize: 10, maxEntries: 10, ttl: 1000 }));
+			await prepareResponse(storage, { 'accept-encoding': 'gzip' });
+			const { response } = await prepareResponse(storage, { 'accept-encoding': 'gzip' });
+			assert.strictEqual(response.headers['Content-Length'], undefined);
+		});
+
+		it('should not cache content without etag', async () => {
+			const response = await storage.prepareResponse(
+				'/file.txt',
+				{ ':method': 'GET', 'accept-encoding': 'gzip' },
+				{ etag: false },
+			);
+			lastResult = response;
+			await readAll(response.stream);
+			assert.strictEqual(compressionCache.contents.length, 0);
+		});
+
+		it('should not cache content without content hash cache key', async () => {
+			const noCacheKeyStorage = new NoCacheKeyStorage({ dynamicCompression: ['gzip'], compressionCache });
+			const response = await noCacheKeyStorage.prepareResponse(
+				'file.txt',
+				{ ':method': 'GET', 'accept-encoding': 'gzip' },
+			);
+			lastResult = response;
+			assert.strictEqual(gunzipSync(await readAll(response.stream)).toString(), content);
+			assert.strictEqual(compressionCache.contents.length, 0);
+		});
+
+		it('should serve the response when the compression cache fails', async () => {
+			storage = createStorage({
+				get: async () => Promise.resolve(undefined),
+				set: async () => Promise.reject(new Error('cache error')),
+			});
+			const { body } = await prepareResponse(storage, { 'accept-encoding': 'gzip' });
+			assert.strictEqual(gunzipSync(body).toString(), content);
+		});
+	});
+
+	describe('file system compression cache', () => {
+		let directory: string;
+		let directoryIndex = 0;
+		let compressionCache: FileSystemCompressionCache;
+		beforeEach(() => {
+			directoryIndex++;
+			directory = join(root, '.cache', String(directoryIndex));
+			compressionCache = new FileSystemCompressionCache(directory);
+		});
+
+		it('should serve compressed content from cache files', async () => {
+			const app = createServer(createStorage(compressionCache));
+			await request(app)
+				.get('/file.txt')
+				.set('Accept-Encoding', 'gzip')
+				.expect(200, content);
+			// the cache file is written asynchronously
+			await new Promise(resolve => {
+				setTimeout(resolve, 50);
+			});
+			const files = await fs.promises.readdir(directory);
+			assert.strictEqual(files.length, 1);
+			const compressed = await fs.promises.readFile(join(directory, files[0]));
+			await request(app)
+				.get('/file.txt')
+				.set('Accept-Encoding', 'gzip')
+				.expect('Content-Length', String(compressed.byteLength))
+				.expect(200, content);
+		});
+
+		it('should read ranges of cache files', async () => {
+			await compressionCache.set('key', Buffer.from('0123456789'));
+			const cached = await compressionCache.get('key');
+			assert.ok(cached);
+			assert.strictEqual(cached.size, 10);
+			assert.strictEqual((await readAll(cached.createReadableStream(new StreamRange(2, 4)))).toString(), '234');
+			assert.strictEqual(await compressionCache.get('missing'), undefined);
+			lastResult = true;
+		});
+
+		it('should fail when cache files can not be read', async () => {
+			await fs.promises.mkdir(join(root, '.cache'), { recursive: true });
+			await fs.promises.writeFile(directory, 'not a directory');
+			await assert.rejects(compressionCache.get('key'), { code: 'ENOTDIR' });
+			lastResult = true;
+		});
+
+		it('should remove temporary files when cache files can not be written', async () => {
+			await fs.promises.mkdir(join(compressionCache.getPath('key'), 'child'), { recursive: true });
+			await assert.rejects(compressionCache.set('key', Buffer.from('content')));
+			assert.deepStrictEqual(await fs.promises.readdir(directory), [compressionCache.getPath('key').slice(-40)]);
+			lastResult = true;
+		});
+	});
+});
@@ -0,0 +1,161 @@
+/* eslint-env node, mocha */
+
+import * as assert from 'assert';
+import type { Stats } from 'fs';
+
+import type { DirectoryListingEntry } from '../src/send-stream';
+import {
+	getDirectoryListingSort,
+	getDirectoryDownloadFormat,
+	getDirectoryListingFormat,
+	createDirectoryListingPage,
+	createDirectoryListingLinkHeader,
+	createDirectoryListingEtag,
+	compareDirectoryListingEntries,
+	renderDirectoryListingJSON,
+	renderDirectoryListingHTML,
+} from '../src/send-stream';
+
+function entry(name: string, isDirectory: boolean, stats?: { size: number; mtimeMs: number }): DirectoryListingEntry {
+	return { name, resolvedPath: `/root/${ name }`, isDirectory, stats: <Stats | undefined> stats };
+}
+
+function sortNames(entries: readonly DirectoryListingEntry[], by: 'name' | 'size' | 'mtime', order: 'asc' | 'desc') {
+	return [...entries].sort((a, b) => compareDirectoryListingEntries(a, b, { by, order })).map(({ name }) => name);
+}
+
+describe('directory listing', () => {
+	describe('getDirectoryListingSort', () => {
+		it('should read the sort and order query parameters', () => {
+			assert.deepStrictEqual(
+				getDirectoryListingSort('/dir/?sort=mtime&order=desc'),
+				{ by: 'mtime', order: 'desc' },
+			);
+			assert.deepStrictEqual(getDirectoryListingSort('/dir/?sort=size'), { by: 'size', order: 'asc' });
+			assert.strictEqual(getDirectoryListingSort('/dir/?sort=type'), undefined);
+			assert.strictEqual(getDirectoryListingSort('/dir/'), undefined);
+		});
+
+		it('should not sort path parts', () => {
+			assert.strictEqual(getDirectoryListingSort(['', 'dir', '']), undefined);
+		});
+	});
+
+	describe('getDirectoryDownloadFormat', () => {
+		it('should read the download query parameter', () => {
+			assert.strictEqual(getDirectoryDownloadFormat('/dir/?download=zip'), 'zip');
+			assert.strictEqual(getDirectoryDownloadFormat('/dir/?download=tar'), undefined);
+			assert.strictEqual(getDirectoryDownloadFormat('/dir/'), undefined);
+		});
+
+		it('should not download path parts', () => {
+			assert.strictEqual(getDirectoryDownloadFormat(['', 'dir', '']), undefined);
+		});
+	});
+
+	describe('compareDirectoryListingEntries', () => {
+		const entries = [
+			entry('b.txt', false, { size: 20, mtimeMs: 1000 }),
+			entry('dir', true, { size: 4096, mtimeMs: 3000 }),
+			entry('a.txt', false, { size: 10, mtimeMs: 2000 }),
+			entry('unreadable.txt', false),
+		];
+
+		it('should sort by modification time', () => {
+			assert.deepStrictEqual(sortNames(entries, 'mtime', 'asc'), ['unreadable.txt', 'b.txt', 'a.txt', 'dir']);
+			assert.deepStrictEqual(sortNames(entries, 'mtime', 'desc'), ['dir', 'a.txt', 'b.txt', 'unreadable.txt']);
+		});
+
+		it('should sort the files without stats and the directories first by size', () => {
+			assert.deepStrictEqual(sortNames(entries, 'size', 'asc'), ['dir', 'unreadable.txt', 'a.txt', 'b.txt']);
+		});
+
+		it('should sort by name when the sort keys are equal', () => {
+			const sameTime = [
+				entry('b.txt', false, { size: 1, mtimeMs: 0 }),
+				entry('a.txt', false, { size: 1, mtimeMs: 0 }),
+			];
+			assert.deepStrictEqual(sortNames(sameTime, 'mtime', 'asc'), ['a.txt', 'b.txt']);
+			assert.deepStrictEqual(sortNames(sameTime, 'name', 'desc'), ['b.txt', 'a.txt']);
+		});
+
+		it('should compare the files without stats with the directories and the files with stats', () => {
+			const directory = entry('dir', true, { size: 4096, mtimeMs: 3000 });
+			const file = entry('a.txt', false, { size: 10, mtimeMs: 2000 });
+			const unreadable = entry('unreadable.txt', false);
+			assert.ok(compareDirectoryListingEntries(unreadable, directory, { by: 'size', order: 'asc' }) > 0);
+			assert.ok(compareDirectoryListingEntries(directory, unreadable, { by: 'size', order: 'asc' }) < 0);
+			assert.ok(compareDirectoryListingEntries(unreadable, file, { by: 'mtime', order: 'asc' }) < 0);
+			assert.ok(compareDirectoryListingEntries(file, unreadable, { by: 'mtime', order: 'asc' }) > 0);
+		});
+	});
+
+	describe('getDirectoryListingFormat', () => {
+		it('should use the first format when no format is accepted', () => {
+			assert.strictEqual(getDirectoryListingFormat(['json', 'text'], { accept: 'image/png' }), 'json');
+			assert.strictEqual(getDirectoryListingFormat(['json', 'text'], { accept: 'text/plain' }), 'text');
+		});
+	});
+
+	describe('createDirectoryListingPage', () => {
+		it('should read the entries of iterators without return method', async () => {
+			let index = 0;
+			const entries: AsyncIterable<number> = {
+				[Symbol.asyncIterator]: () => ({
+					next: async () => Promise.resolve(
+						index < 3 ? { done: false, value: index++ } : { done: true, value: undefined },
+					),
+				}),
+			};
+			assert.deepStrictEqual(
+				await createDirectoryListingPage('/dir/?offset=1&limit=1', { offset: 1, limit: 1 }, entries),
+				{ offset: 1, limit: 1, previous: '?offset=0&limit=1', next: '?offset=2&limit=1' },
+			);
+		});
+	});
+
+	describe('createDirectoryListingLinkHeader', () => {
+		it('should not create a Link header without previous and next pages', () => {
+			assert.strictEqual(
+				createDirectoryListingLinkHeader({ offset: 0, limit: 10, previous: undefined, next: undefined }),
+				undefined,
+			);
+		});
+	});
+
+	describe('createDirectoryListingEtag', () => {
+		it('should use the html format by default', () => {
+			assert.strictEqual(createDirectoryListingEtag(1, {}), 'W/"3e8-html"');
+		});
+	});
+
+	describe('renderDirectoryListingJSON', () => {
+		it('should render null sizes and modification times without stats', () => {
+			assert.deepStrictEqual(
+				JSON.parse(renderDirectoryListingJSON([entry('unreadable.txt', false)], () => false)),
+				[{ name: 'unreadable.txt', type: 'file', size: null, mtime: null, mimeType: null }],
+			);
+		});
+	});
+
+	describe('renderDirectoryListingHTML', () => {
+		it('should render the pagination links of the existing pages only', () => {
+			const entries = [entry('a.txt', false)];
+			const firstPage = renderDirectoryListingHTML(
+				['', 'dir'],
+				entries,
+				undefined,
+				{ offset: 0, limit: 1, previous: undefined, next: '?offset=1&limit=1' },
+			);
+			assert.ok(firstPage.includes('<a href="?offset=1&amp;limit=1" rel="next">Next</a>'));
+			assert.ok(!firstPage.includes('rel="prev"'));
+			const singlePage = renderDirectoryListingHTML(
+				['', 'dir'],
+				entries,
+				undefined,
+				{ offset: 0, limit: 1, previous: undefined, next: undefined },
+			);
+			assert.ok(!singlePage.includes('aria-label="Pagination"'));
+		});
+	});
+});
@@ -26,6 +26,7 @@ import { FastifyServerWrapper } from './wrappers/fastify.wrapper';
 import { KoaServerWrapper } from './wrappers/koa.wrapper';
 import { ExpressServerWrapper } from './wrappers/express.wrapper';
 import { VanillaServerWrapper } from './wrappers/vanilla.wrapper';
+import { shouldNotHaveHeader } from './helpers';
 
 function brotliParser(res: request.Response, cb: (err: Error | null, body: unknown) => void) {
 	const decompress = pipeline(res, createBrotliDecompress(), err => {
@@ -82,17 +83,6 @@ function multipartHandler(res: request.Response, cb: (err: Error | null, body: u
 	});
 }
 
-function shouldNotHaveHeader(header: string) {
-	return (res: request.Response) => {
-		const { [header.toLowerCase()]: value } = <Record<string, string>> res.header;
-		assert.strictEqual(
-			value,
-			undefined,
-			`should not have header ${ header } (actual value: "${ value }")`,
-		);
-	};
-}
-
 interface Context {
 	lastResult: StreamResponse<unknown> | true | undefined;
 }
@@ -2805,8 +2795,15 @@ for (const [frameworkName, frameworkServer] of frameworks) {
 					await request(app.server)
 						.get('/')
 						.expect('Content-Type', 'text/html; charset=UTF-8')
-						// eslint-disable-next-line max-len
-						.expect(200, '<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><title>/</title><meta name="viewport" content="width=device-width"><meta name="description" content="Content of / directory"></head><body><h1>Directory: /</h1><ul><li><a href="./foo.txt">foo.txt</a></li></ul></body></html>');
+						.expect(200)
+						.expect(res => {
+							// eslint-disable-next-line max-len
+							assert.ok(res.text.startsWith('<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><title>/</title>'));
+							// eslint-disable-next-line max-len
+							assert.match(res.text, /<h1>Directory: <nav aria-label="Breadcrumbs"><a href="\.\/">\/<\/a><\/nav><\/h1>/u);
+							// eslint-disable-next-line max-len
+							assert.match(res.text, /<tbody><tr class="file"><td><a href="\.\/foo\.txt">foo\.txt<\/a><\/td><td>3 B<\/td><td>[^<]+ GMT<\/td><\/tr><\/tbody>/u);
+						});
 				});
 			});
 
@@ -0,0 +1,20 @@
+import * as assert from 'assert';
+
+import type request from 'supertest';
+
+/**
+ * Create a supertest assertion checking that a response header is not set
+ *
+ * @param header - header name
+ * @returns the assertion function
+ */
+export function shouldNotHaveHeader(header: string) {
+	return (res: request.Response) => {
+		const { [header.toLowerCase()]: value } = <Record<string, string>> res.header;
+		assert.strictEqual(
+			value,
+			undefined,
+			`should not have header ${ header } (actual value: "${ value }")`,
+		);
+	};
+}
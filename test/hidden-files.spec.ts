@@ -0,0 +1,48 @@
+/* eslint-env node, mocha */
+
+import * as assert from 'assert';
+
+import { createGlobRegExp, createFunctionHiddenFileRule } from '../src/send-stream';
+
+function isDeep(pathParts: readonly string[]) {
+	return pathParts.length > 2;
+}
+
+describe('hidden files', () => {
+	describe('createGlobRegExp', () => {
+		it('should match the globs starting with a slash from the root only', () => {
+			const regexp = createGlobRegExp('/.well-known');
+			assert.ok(regexp.test('/.well-known'));
+			assert.ok(!regexp.test('/dir/.well-known'));
+			assert.ok(!regexp.test('/.well-known/security.txt'));
+		});
+
+		it('should match the other globs at any depth', () => {
+			const regexp = createGlobRegExp('*.env');
+			assert.ok(regexp.test('/.env'));
+			assert.ok(regexp.test('/config/prod.env'));
+			assert.ok(!regexp.test('/config/.env.example'));
+		});
+
+		it('should match any number of path parts with **', () => {
+			const regexp = createGlobRegExp('/assets/**/?.js');
+			assert.ok(regexp.test('/assets/a.js'));
+			assert.ok(regexp.test('/assets/lib/vendor/b.js'));
+			assert.ok(!regexp.test('/assets/lib/ab.js'));
+		});
+	});
+
+	describe('createFunctionHiddenFileRule', () => {
+		it('should match the globs against the path parts', () => {
+			const rule = { matcher: '.git', action: <const> 'forbid' };
+			const functionRule = createFunctionHiddenFileRule(rule);
+			assert.strictEqual(functionRule.rule, rule);
+			assert.ok(functionRule.matches(['', 'repository', '.git']));
+			assert.ok(!functionRule.matches(['', 'repository', '.git', 'config']));
+		});
+
+		it('should keep the function matchers', () => {
+			assert.strictEqual(createFunctionHiddenFileRule({ matcher: isDeep, action: 'deny' }).matches, isDeep);
+		});
+	});
+});
@@ -1,12 +1,19 @@
 /* eslint-disable max-lines, max-lines-per-function, sonarjs/no-identical-functions, sonarjs/cognitive-complexity */
+/* eslint-disable max-classes-per-file */
 /* eslint-env node, mocha */
 
 import * as assert from 'assert';
+import { once } from 'events';
+import { createHash } from 'crypto';
+import { readFileSync, promises as fsPromises } from 'fs';
 import * as http from 'http';
 import * as http2 from 'http2';
+import { tmpdir } from 'os';
 import { normalize, join } from 'path';
-import { Readable } from 'stream';
+import { Readable, Transform } from 'stream';
+import { brotliCompressSync, gzipSync, constants } from 'zlib';
 import type { AddressInfo } from 'net';
+import { createServer as createNetServer } from 'net';
 
 import request from 'supertest';
 
@@ -19,18 +26,29 @@ import type {
 	FilePath,
 	StorageRequestHeaders,
 	StreamResponse,
+	DirectoryListingEntry,
+	DirectoryListingSort,
+} from '../src/send-stream';
+import {
+	FileSystemStorage,
+	CachingStorage,
+	BufferStream,
+	Storage,
+	getFreshStatus,
+	getZlibZstdCompress,
+	renderDirectoryListingHTML,
+	ZipStorage,
+	IgnoredFileError,
+	ForbiddenSymlinkError,
+	RedirectError,
+	createDirectoryArchiveFileStream,
+	readAll,
 } from '../src/send-stream';
-import { FileSystemStorage, getFreshStatus } from '../src/send-stream';
 
-function shouldNotHaveHeader(header: string) {
-	return (res: request.Response) => {
-		const { [header.toLowerCase()]: value } = <Record<string, string>> res.header;
-		assert.strictEqual(
-			value,
-			undefined,
-			`should not have header ${ header } (actual value: "${ value }")`,
-		);
-	};
+import { shouldNotHaveHeader } from './helpers';
+
+function createProblemDetails(status: number, title: string, detail?: string) {
+	return { type: 'about:blank', title, status, detail };
 }
 
 function shouldHaveHeader(header: string) {
@@ -44,6 +62,25 @@ function shouldHaveHeader(header: string) {
 	};
 }
 
+function sha1(content: string | Buffer) {
+	return createHash('sha1')
+		.update(content)
+		.digest('hex');
+}
+
+function createUpperCaseStream() {
+	return new Transform({
+		transform(chunk: Buffer, _encoding, callback) {
+			callback(null, chunk.toString().toUpperCase());
+		},
+	});
+}
+
+async function readZipFile(zipStorage: ZipStorage, path: string) {
+	const response = await zipStorage.prepareResponse(path, { ':method': 'GET' });
+	return (await readAll(response.stream)).toString();
+}
+
 function multipartHandler(res: request.Response, cb: (err: Error | null, body: unknown) => void) {
 	const chunks: Buffer[] = [];
 	let length = 0;
@@ -82,7 +119,9 @@ describe('http', () => {
 
 	let lastResult: StreamResponse<unknown> | true | undefined;
 
-	function createServer(opts: PrepareResponseOptions & FileSystemStorageOptions & { root: string }) {
+	function createServer(
+		opts: PrepareResponseOptions & FileSystemStorageOptions & { root: string | readonly string[] },
+	) {
 		const storage = new FileSystemStorage(opts.root, opts);
 		return http.createServer((req, res) => {
 			(async () => {
@@ -1449,6 +1488,164 @@ describe('http', () => {
 			});
 		});
 
+		describe('hiddenFiles', () => {
+			it('should apply the first matching rule before the ignore pattern', async () => {
+				const server = createServer({
+					root: fixtures,
+					hiddenFiles: [
+						{ matcher: '/.mine/.hidden', action: 'deny' },
+						{ matcher: '/.mine', action: 'allow' },
+					],
+				});
+				await request(server)
+					.get('/.mine/name.txt')
+					.expect(200, /tobi/u);
+				await request(server)
+					.get('/.mine/.hidden')
+					.expect('X-Send-Stream-Error', 'IgnoredFileError')
+					.expect(404);
+				await request(server)
+					.get('/.hidden.txt')
+					.expect('X-Send-Stream-Error', 'IgnoredFileError')
+					.expect(404);
+			});
+
+			it('should return a Forbidden error for the forbid rules', async () => {
+				await request(createServer({
+					root: fixtures,
+					hiddenFiles: [{ matcher: '.hidden', action: 'forbid' }],
+				}))
+					.get('/pets/.hidden')
+					.expect('X-Send-Stream-Error', 'IgnoredFileError')
+					.expect(403, 'Forbidden');
+			});
+
+			it('should match the globs at any depth and the parent paths', async () => {
+				const server = createServer({
+					root: fixtures,
+					ignorePattern: false,
+					hiddenFiles: [{ matcher: 'pet?', action: 'deny' }, { matcher: '**/*.txt', action: 'forbid' }],
+				});
+				await request(server)
+					.get('/pets/index.html')
+					.expect('X-Send-Stream-Error', 'IgnoredFileError')
+					.expect(404);
+				await request(server)
+					.get('/.mine/name.txt')
+					.expect('X-Send-Stream-Error', 'IgnoredFileError')
+					.expect(403);
+				await request(server)
+					.get('/.mine/.hidden')
+					.expect(200);
+			});
+
+			it('should call the function matchers with the path parts of the path and its parent paths', async () => {
+				const calls: (readonly string[])[] = [];
+				await request(createServer({
+					root: fixtures,
+					hiddenFiles: [
+						{
+							matcher: pathParts => {
+								calls.push(pathParts);
+								return pathParts[1] === '.mine';
+							},
+							action: 'allow',
+						},
+					],
+				}))
+					.get('/.mine/name.txt')
+					.expect(200, /tobi/u);
+				assert.deepStrictEqual(calls, [['', '.mine'], ['', '.mine', 'name.txt']]);
+			});
+
+			it('should report the matched rule', async () => {
+				const rule = { matcher: '.hidden.txt', action: <const> 'forbid' };
+				const storage = new FileSystemStorage(fixtures, { hiddenFiles: [rule] });
+				const response = await storage.prepareResponse('/.hidden.txt', { ':method': 'GET' });
+				lastResult = response;
+				response.stream.destroy();
+				assert.ok(response.error instanceof IgnoredFileError);
+				assert.strictEqual(response.error.rule, rule);
+				assert.strictEqual(response.error.statusCode, 403);
+				assert.strictEqual(response.error.message, '/.hidden.txt is forbidden');
+			});
+
+			it('should map the status code of the errors without rule with errorStatusCodes', () => {
+				lastResult = true;
+				const error = new IgnoredFileError('/.env is ignored', '/.env', ['', '.env']);
+				assert.strictEqual(error.rule, undefined);
+				assert.strictEqual(error.statusCode, undefined);
+				assert.strictEqual(new FileSystemStorage(fixtures).getErrorStatusCode(error), 404);
+				assert.strictEqual(
+					new FileSystemStorage(fixtures, { errorStatusCodes: true }).getErrorStatusCode(error),
+					403,
+				);
+			});
+
+			it('should skip the hidden files in directory listings', async () => {
+				await request(createServer({
+					root: fixtures,
+					onDirectory: 'list-files',
+					directoryListingFormats: ['text'],
+					hiddenFiles: [
+						{ matcher: '/.mine/name.txt', action: 'deny' },
+						{ matcher: '/.mine/.hidden', action: 'allow' },
+						{ matcher: '/.mine', action: 'allow' },
+					],
+				}))
+					.get('/.mine/')
+					.expect(200, '.hidden\n');
+			});
+
+			describe('with an allowed directory', () => {
+				let root: string;
+				before(async () => {
+					root = await fsPromises.mkdtemp(join(tmpdir(), 'send-stream-'));
+					await fsPromises.mkdir(join(root, '.well-known'));
+					await fsPromises.writeFile(join(root, '.well-known/security.txt'), 'security');
+					await fsPromises.writeFile(join(root, '.well-known/.env'), 'env');
+				});
+				after(async () => {
+					await fsPromises.rmdir(root, { recursive: true });
+				});
+
+				it('should still hide the dotfiles of the allowed directory', async () => {
+					const server = createServer({
+						root,
+						onDirectory: 'list-files',
+						directoryListingFormats: ['text'],
+						hiddenFiles: [
+							{ matcher: '/.well-known', action: 'allow' },
+							{ matcher: '.git', action: 'forbid' },
+						],
+					});
+					await request(server)
+						.get('/.well-known/security.txt')
+						.expect(200, 'security');
+					await request(server)
+						.get('/.well-known/.env')
+						.expect('X-Send-Stream-Error', 'IgnoredFileError')
+						.expect(404);
+					await request(server)
+						.get('/.well-known/')
+						.expect(200, 'security.txt\n');
+				});
+
+				it('should apply the rules listed after the allowed directory to its content', async () => {
+					await request(createServer({
+						root,
+						hiddenFiles: [
+							{ matcher: '/.well-known', action: 'allow' },
+							{ matcher: '.env', action: 'forbid' },
+						],
+					}))
+						.get('/.well-known/.env')
+						.expect('X-Send-Stream-Error', 'IgnoredFileError')
+						.expect(403);
+				});
+			});
+		});
+
 		describe('root', () => {
 			describe('when given', () => {
 				describe('should not join root', () => {
@@ -1633,6 +1830,82 @@ describe('http', () => {
 						.expect(200, '...');
 				});
 			});
+
+			describe('when several roots are given', () => {
+				const overlay = join(__dirname, 'fixtures-overlay');
+				const staticFixtures = join(__dirname, 'fixtures-static');
+				let server: http.Server;
+				before(() => {
+					server = createServer({ root: [overlay, fixtures, staticFixtures], onDirectory: 'list-files' });
+				});
+
+				it('should serve files from the first root having them', async () => {
+					await request(server)
+						.get('/name.txt')
+						.expect(200, 'overlay');
+					await request(server)
+						.get('/nums.txt')
+						.expect(200, '123456789');
+					await request(server)
+						.get('/todo.txt')
+						.expect(200, '- groceries');
+				});
+
+				it('should 404 when no root has the file', async () => {
+					await request(server)
+						.get('/missing.txt')
+						.expect('X-Send-Stream-Error', 'DoesNotExistError')
+						.expect(404);
+				});
+
+				it('should not look in the next roots on other errors', async () => {
+					await request(createServer({ root: [fixtures, overlay] }))
+						.get('/name.d')
+						.expect('X-Send-Stream-Error', 'IsDirectoryError')
+						.expect(404);
+				});
+
+				it('should list the files of the directory in all roots', async () => {
+					await request(server)
+						.get('/pets/')
+						.expect(200)
+						.expect(res => {
+							assert.deepStrictEqual(
+								res.text.match(/href="\.\/[^"]+"/gu),
+								['href="./tobi.txt"', 'href="./index.html"', 'href="./names.txt"'],
+							);
+						});
+				});
+
+				it('should shadow the files of the next roots in directory listing', async () => {
+					const shadowingServer = createServer({
+						root: [fixtures, overlay, staticFixtures],
+						onDirectory: 'list-files',
+					});
+					await request(shadowingServer)
+						.get('/name.d/')
+						.expect(200)
+						.expect(res => {
+							assert.deepStrictEqual(
+								res.text.match(/<td><a href="[^"]+"/gu),
+								['<td><a href=".."', '<td><a href="./name.txt"'],
+							);
+						});
+					await request(server)
+						.get('/')
+						.expect(200)
+						.expect(res => {
+							assert.strictEqual(res.text.match(/href="\.\/name\.txt"/gu)?.length, 1);
+							assert.strictEqual(res.text.match(/href="\.\/name\.d"/gu)?.length, 1);
+							assert.match(res.text, /href="\.\/todo\.txt"/u);
+						});
+				});
+
+				it('should fail without root', () => {
+					assert.throws(() => new FileSystemStorage([]), { message: 'at least one root is required' });
+					lastResult = true;
+				});
+			});
 		});
 		describe('other methods', () => {
 			let mainApp: http.Server;
@@ -2488,4 +2761,2281 @@ describe('http', () => {
 			});
 		});
 	});
+
+	describe('etagMode', () => {
+		describe('when set to hash', () => {
+			let app: http.Server;
+			before(() => {
+				app = createServer({ root: fixtures, etagMode: 'hash', onDirectory: 'list-files' });
+			});
+
+			it('should set a content hash ETag', async () => {
+				await request(app)
+					.get('/name.txt')
+					.expect('ETag', `"${ sha1('tobi') }"`)
+					.expect(200, 'tobi');
+			});
+
+			it('should set a content hash ETag for zero-length files', async () => {
+				await request(app)
+					.get('/empty.txt')
+					.expect('ETag', `"${ sha1('') }"`)
+					.expect(200, '');
+			});
+
+			it('should support conditional requests', async () => {
+				await request(app)
+					.get('/name.txt')
+					.set('If-None-Match', `"${ sha1('tobi') }"`)
+					.expect(304);
+			});
+
+			it('should support byte ranges', async () => {
+				await request(app)
+					.get('/nums.txt')
+					.set('Range', 'bytes=0-4')
+					.expect('ETag', `"${ sha1('123456789') }"`)
+					.expect(206, '12345');
+			});
+
+			it('should set the directory modification time ETag on directory listing', async () => {
+				await request(app)
+					.get('/pets/')
+					.expect('ETag', /^W\/"[\da-f]+-html-[\da-f]{16}"$/u)
+					.expect(200);
+			});
+		});
+
+		describe('when hash algorithm and weak etags are set', () => {
+			let app: http.Server;
+			before(() => {
+				app = createServer({ root: fixtures, etagMode: 'hash', etagHashAlgorithm: 'sha256', weakEtags: true });
+			});
+
+			it('should set a weak sha256 content hash ETag', async () => {
+				await request(app)
+					.get('/name.txt')
+					.expect('ETag', `W/"${ createHash('sha256')
+						.update('tobi')
+						.digest('hex') }"`)
+					.expect(200, 'tobi');
+			});
+		});
+
+		describe('when etag option is set', () => {
+			let app: http.Server;
+			before(() => {
+				app = createServer({ root: fixtures, etagMode: 'hash', etag: false });
+			});
+
+			it('should not compute content hash', async () => {
+				await request(app)
+					.get('/name.txt')
+					.expect(shouldNotHaveHeader('ETag'))
+					.expect(200, 'tobi');
+			});
+		});
+
+		describe('when size is unknown', () => {
+			it('should not compute content hash', async () => {
+				class UnknownSizeStorage extends Storage<string, undefined> {
+					// eslint-disable-next-line @typescript-eslint/require-await,class-methods-use-this
+					async open(): Promise<StorageInfo<undefined>> {
+						return { attachedData: undefined, fileName: 'file.txt', mtimeMs: 0 };
+					}
+
+					// eslint-disable-next-line class-methods-use-this
+					createReadableStream() {
+						return new BufferStream(Buffer.from('tobi'));
+					}
+
+					// eslint-disable-next-line class-methods-use-this
+					async close() {
+						// noop
+					}
+				}
+				const storage = new UnknownSizeStorage({ etagMode: 'hash' });
+				const response = await storage.prepareResponse('file.txt', { ':method': 'GET' });
+				lastResult = response;
+				assert.strictEqual(response.headers.ETag, undefined);
+				assert.strictEqual(String(await readAll(response.stream)), 'tobi');
+			});
+		});
+
+		describe('when content is pre-compressed', () => {
+			const frameworkFixtures = join(__dirname, 'fixtures-frameworks');
+			let app: http.Server;
+			before(() => {
+				app = createServer({
+					root: frameworkFixtures,
+					etagMode: 'hash',
+					contentEncodingMappings: [
+						{
+							matcher: /^(?<path>.*\.json)$/u,
+							encodings: [{ name: 'gzip', path: '$<path>.gz' }],
+						},
+					],
+				});
+			});
+
+			it('should hash the pre-compressed content', async () => {
+				const gzipHash = sha1(readFileSync(join(frameworkFixtures, 'gzip.json.gz')));
+				await request(app)
+					.get('/gzip.json')
+					.set('Accept-Encoding', 'gzip')
+					.expect('Content-Encoding', 'gzip')
+					.expect('ETag', `"${ gzipHash }-gzip"`)
+					.expect(200);
+			});
+
+			it('should hash the identity content', async () => {
+				const identityHash = sha1(readFileSync(join(frameworkFixtures, 'gzip.json')));
+				await request(app)
+					.get('/gzip.json')
+					.set('Accept-Encoding', 'identity')
+					.expect(shouldNotHaveHeader('Content-Encoding'))
+					.expect('ETag', `"${ identityHash }"`)
+					.expect(200);
+			});
+		});
+
+		describe('when dynamic compression is used', () => {
+			let app: http.Server;
+			before(() => {
+				app = createServer({
+					root: fixtures,
+					etagMode: 'hash',
+					dynamicCompression: ['gzip'],
+					dynamicCompressionMinLength: 0,
+				});
+			});
+
+			it('should hash the identity content and add the encoding', async () => {
+				await request(app)
+					.get('/tobi.html')
+					.set('Accept-Encoding', 'gzip')
+					.expect('Content-Encoding', 'gzip')
+					.expect('ETag', `"${ sha1(readFileSync(join(fixtures, 'tobi.html'))) }-gzip"`)
+					.expect(200, '<p>tobi</p>');
+			});
+		});
+
+		describe('content hash cache', () => {
+			it('should cache content hash by resolved path', async () => {
+				let reads = 0;
+				class CountingFileSystemStorage extends FileSystemStorage {
+					override createReadableStream(
+						storageInfo: StorageInfo<FileData>,
+						range: StreamRange | undefined,
+						autoClose: boolean,
+					) {
+						if (!autoClose) {
+							reads++;
+						}
+						return super.createReadableStream(storageInfo, range, autoClose);
+					}
+				}
+				const storage = new CountingFileSystemStorage(fixtures, { etagMode: 'hash' });
+				for (let i = 0; i < 2; i++) {
+					// eslint-disable-next-line no-await-in-loop
+					const response = await storage.prepareResponse('/name.txt', { ':method': 'GET' });
+					response.dispose();
+					assert.strictEqual(response.headers.ETag, `"${ sha1('tobi') }"`);
+				}
+				assert.strictEqual(reads, 1);
+				assert.deepStrictEqual(
+					[...storage.contentHashCache.keys()],
+					[join(fixtures, 'name.txt')],
+				);
+				lastResult = true;
+			});
+
+			it('should compute content hash again when modification time changes', async () => {
+				const storage = new FileSystemStorage(fixtures, { etagMode: 'hash' });
+				storage.contentHashCache.set(join(fixtures, 'name.txt'), { size: 4, mtimeMs: 0, hash: 'outdated' });
+				const response = await storage.prepareResponse('/name.txt', { ':method': 'GET' });
+				response.dispose();
+				assert.strictEqual(response.headers.ETag, `"${ sha1('tobi') }"`);
+				lastResult = true;
+			});
+
+			it('should delegate content hash cache key in caching storage', async () => {
+				const fileSystemStorage = new FileSystemStorage(fixtures);
+				const storage = new CachingStorage(fileSystemStorage, { etagMode: 'hash' });
+				const response = await storage.prepareResponse('/name.txt', { ':method': 'GET' });
+				response.dispose();
+				assert.strictEqual(response.headers.ETag, `"${ sha1('tobi') }"`);
+				assert.deepStrictEqual([...storage.contentHashCache.keys()], [join(fixtures, 'name.txt')]);
+				lastResult = true;
+			});
+
+			it('should not cache content hash without cache key', async () => {
+				class CustomStorage extends Storage<string, undefined> {
+					// eslint-disable-next-line @typescript-eslint/require-await,class-methods-use-this
+					async open(reference: string): Promise<StorageInfo<undefined>> {
+						return {
+							attachedData: undefined,
+							fileName: 'file.txt',
+							size: reference.length,
+							mtimeMs: reference === 'no mtime' ? undefined : 0,
+						};
+					}
+
+					// eslint-disable-next-line class-methods-use-this
+					createReadableStream(_storageInfo: StorageInfo<undefined>, range: StreamRange | undefined) {
+						return new BufferStream(Buffer.from('no mtime'.slice(range?.start, (range?.end ?? 0) + 1)));
+					}
+
+					// eslint-disable-next-line class-methods-use-this
+					async close() {
+						// noop
+					}
+				}
+				const storage = new CustomStorage({ etagMode: 'hash' });
+				for (const reference of ['no mtime', 'no cache']) {
+					// eslint-disable-next-line no-await-in-loop
+					const response = await storage.prepareResponse(reference, { ':method': 'GET' });
+					response.dispose();
+					assert.strictEqual(response.headers.ETag, `"${ sha1('no mtime') }"`);
+				}
+				assert.strictEqual(storage.contentHashCache.size, 0);
+				lastResult = true;
+			});
+		});
+	});
+
+	describe('zstd', () => {
+		describe('when zstd compression is available', () => {
+			let app: http.Server;
+			before(() => {
+				app = createServer({
+					root: fixtures,
+					dynamicCompression: true,
+					dynamicCompressionMinLength: 0,
+					zstdCompress: createUpperCaseStream,
+				});
+			});
+
+			it('should compress with zstd when requested', async () => {
+				await request(app)
+					.get('/tobi.html')
+					.set('Accept-Encoding', 'zstd')
+					.expect('Content-Encoding', 'zstd')
+					.expect('Vary', 'Accept-Encoding')
+					.expect(shouldNotHaveHeader('Content-Length'))
+					.expect(200, '<P>TOBI</P>');
+			});
+
+			it('should prefer brotli to zstd by default', async () => {
+				await request(app)
+					.get('/tobi.html')
+					.set('Accept-Encoding', '*')
+					.expect('Content-Encoding', 'br')
+					.expect(200);
+			});
+
+			it('should prefer zstd to gzip by default', async () => {
+				await request(app)
+					.get('/tobi.html')
+					.set('Accept-Encoding', 'gzip, zstd')
+					.expect('Content-Encoding', 'zstd')
+					.expect(200, '<P>TOBI</P>');
+			});
+		});
+
+		describe('when zstd compression is not available', () => {
+			it('should use zstd by default only when zlib supports it', () => {
+				const storage = new FileSystemStorage(fixtures, { dynamicCompression: true });
+				const { dynamicCompression, zstdCompress } = storage;
+				assert.ok(dynamicCompression);
+				assert.deepStrictEqual(
+					[...dynamicCompression.encodingPreferences.keys()],
+					zstdCompress ? ['br', 'zstd', 'gzip', 'identity'] : ['br', 'gzip', 'identity'],
+				);
+				lastResult = true;
+			});
+
+			it('should throw when zstd is explicitly used', () => {
+				const storage = new FileSystemStorage(fixtures, { dynamicCompression: ['zstd'] });
+				Object.defineProperty(storage, 'zstdCompress', { value: undefined });
+				assert.throws(
+					() => storage.createCompressedStream(new BufferStream(Buffer.from('tobi')), 'zstd'),
+					/zstd compression is not available/u,
+				);
+				lastResult = true;
+			});
+		});
+
+		describe('when zstd compression fails', () => {
+			it('should destroy the compressed stream', async () => {
+				const storage = new FileSystemStorage(fixtures, {
+					zstdCompress: () => new Transform({
+						transform(_chunk, _encoding, callback) {
+							callback(new Error('zstd error'));
+						},
+					}),
+				});
+				const stream = storage.createCompressedStream(new BufferStream(Buffer.from('tobi')), 'zstd');
+				const [err] = <[Error]> await once(stream, 'error');
+				assert.strictEqual(err.message, 'zstd error');
+				lastResult = true;
+			});
+		});
+
+		describe('zlib zstd compression', () => {
+			it('should use zlib zstd compression when available', async () => {
+				const zstdCompress = getZlibZstdCompress({ createZstdCompress: createUpperCaseStream });
+				assert.ok(zstdCompress);
+				const compressed = await readAll(new BufferStream(Buffer.from('tobi')).pipe(zstdCompress()));
+				assert.strictEqual(compressed.toString(), 'TOBI');
+				lastResult = true;
+			});
+
+			it('should return undefined when zlib zstd compression is not available', () => {
+				assert.strictEqual(getZlibZstdCompress({}), undefined);
+				lastResult = true;
+			});
+		});
+
+		describe('when content is pre-compressed with zstd', () => {
+			const frameworkFixtures = join(__dirname, 'fixtures-frameworks');
+			let app: http.Server;
+			before(() => {
+				app = createServer({
+					root: frameworkFixtures,
+					contentEncodingMappings: [
+						{
+							matcher: /^(?<path>.*\.json)$/u,
+							encodings: [
+								{ name: 'zstd', path: '$1.zst' },
+								{ name: 'br', path: '$1.br' },
+								{ name: 'gzip', path: '$1.gz' },
+							],
+						},
+					],
+				});
+			});
+
+			it('should serve the zstd file when zstd is accepted', async () => {
+				await request(app)
+					.get('/gzip.json')
+					.set('Accept-Encoding', 'gzip, br, zstd')
+					.responseType('blob')
+					.expect('Content-Encoding', 'zstd')
+					.expect('Content-Length', '31')
+					.expect('Vary', 'Accept-Encoding')
+					.expect(200, readFileSync(join(frameworkFixtures, 'gzip.json.zst')));
+			});
+
+			it('should serve other encodings when zstd is not accepted', async () => {
+				await request(app)
+					.get('/gzip.json')
+					.set('Accept-Encoding', 'gzip, zstd;q=0')
+					.expect('Content-Encoding', 'gzip')
+					.expect('Content-Length', '48')
+					.expect(200);
+			});
+		});
+	});
+
+	describe('dynamic compression options', () => {
+		const content = readFileSync(join(fixtures, 'tobi.html'));
+
+		async function compress(storage: FileSystemStorage, contentEncoding: string, mimeType?: string) {
+			return readAll(storage.createCompressedStream(
+				new BufferStream(content),
+				contentEncoding,
+				content.length,
+				mimeType,
+			));
+		}
+
+		function brotliCompress(params: Record<number, number>) {
+			return brotliCompressSync(content, {
+				params: {
+					[constants.BROTLI_PARAM_MODE]: constants.BROTLI_MODE_TEXT,
+					[constants.BROTLI_PARAM_QUALITY]: 4,
+					[constants.BROTLI_PARAM_SIZE_HINT]: content.length,
+					...params,
+				},
+			});
+		}
+
+		it('should use default options', async () => {
+			const storage = new FileSystemStorage(fixtures, { dynamicCompression: {} });
+			assert.deepStrictEqual(await compress(storage, 'br', 'text/html'), brotliCompress({}));
+			assert.deepStrictEqual(await compress(storage, 'gzip'), gzipSync(content, { level: 6 }));
+			lastResult = true;
+		});
+
+		it('should use encoding options', async () => {
+			const storage = new FileSystemStorage(fixtures, {
+				dynamicCompression: {
+					br: { params: { [constants.BROTLI_PARAM_QUALITY]: 11 } },
+					gzip: { level: 1 },
+				},
+			});
+			assert.deepStrictEqual(
+				await compress(storage, 'br', 'text/html'),
+				brotliCompress({ [constants.BROTLI_PARAM_QUALITY]: 11 }),
+			);
+			assert.deepStrictEqual(await compress(storage, 'gzip', 'text/html'), gzipSync(content, { level: 1 }));
+			lastResult = true;
+		});
+
+		it('should use the first matching mime type options', async () => {
+			const storage = new FileSystemStorage(fixtures, {
+				dynamicCompression: {
+					br: { params: { [constants.BROTLI_PARAM_QUALITY]: 2 } },
+					gzip: { level: 1 },
+					mimeTypes: [
+						{
+							matcher: '^application/json$',
+							br: { params: { [constants.BROTLI_PARAM_QUALITY]: 11 } },
+						},
+						{
+							matcher: /^font\//u,
+							br: { params: { [constants.BROTLI_PARAM_MODE]: constants.BROTLI_MODE_GENERIC } },
+						},
+						{
+							matcher: /^font\/woff2$/u,
+							gzip: { level: 9 },
+						},
+					],
+				},
+			});
+			assert.deepStrictEqual(
+				await compress(storage, 'br', 'application/json'),
+				brotliCompress({ [constants.BROTLI_PARAM_QUALITY]: 11 }),
+			);
+			assert.deepStrictEqual(
+				await compress(storage, 'br', 'font/woff2'),
+				brotliCompress({
+					[constants.BROTLI_PARAM_QUALITY]: 2,
+					[constants.BROTLI_PARAM_MODE]: constants.BROTLI_MODE_GENERIC,
+				}),
+			);
+			assert.deepStrictEqual(await compress(storage, 'gzip', 'font/woff2'), gzipSync(content, { level: 1 }));
+			assert.deepStrictEqual(
+				await compress(storage, 'br', 'text/html'),
+				brotliCompress({ [constants.BROTLI_PARAM_QUALITY]: 2 }),
+			);
+			lastResult = true;
+		});
+
+		it('should give zstd options to zstd compression function', async () => {
+			const zstdOptions: unknown[] = [];
+			const storage = new FileSystemStorage(fixtures, {
+				zstdCompress: (_expectedSize, options) => {
+					zstdOptions.push(options);
+					return createUpperCaseStream();
+				},
+				dynamicCompression: {
+					zstd: { params: { 100: 3 } },
+					mimeTypes: [{ matcher: /^application\/json$/u, zstd: { params: { 100: 19 } } }],
+				},
+			});
+			const compressed = await compress(storage, 'zstd', 'text/html');
+			assert.strictEqual(compressed.toString(), content.toString().toUpperCase());
+			await compress(storage, 'zstd', 'application/json');
+			await compress(storage, 'zstd');
+			assert.deepStrictEqual(
+				zstdOptions,
+				[{ params: { 100: 3 } }, { params: { 100: 19 } }, { params: { 100: 3 } }],
+			);
+			lastResult = true;
+		});
+
+		it('should use encodings list', () => {
+			const { dynamicCompression } = new FileSystemStorage(fixtures, {
+				dynamicCompression: { encodings: ['gzip', 'identity', 'br'] },
+			});
+			assert.ok(dynamicCompression);
+			assert.deepStrictEqual([...dynamicCompression.encodingPreferences.keys()], ['gzip', 'identity', 'br']);
+			lastResult = true;
+		});
+
+		it('should use mime type options in responses', async () => {
+			const app = createServer({
+				root: fixtures,
+				dynamicCompression: {
+					encodings: ['gzip'],
+					mimeTypes: [{ matcher: /^text\/html$/u, gzip: { level: 9 } }],
+				},
+				dynamicCompressionMinLength: 0,
+			});
+			await request(app)
+				.get('/tobi.html')
+				.set('Accept-Encoding', 'gzip, br')
+				.expect('Content-Encoding', 'gzip')
+				.expect(200, '<p>tobi</p>');
+		});
+	});
+
+	describe('spaFallback', () => {
+		let app: http.Server;
+		before(() => {
+			app = createServer({ root: fixtures, spaFallback: { index: 'tobi.html' } });
+		});
+
+		it('should serve the index file instead of missing files', async () => {
+			await request(app)
+				.get('/users/tobi')
+				.expect('Content-Type', 'text/html; charset=UTF-8')
+				.expect(shouldNotHaveHeader('X-Send-Stream-Error'))
+				.expect(200, '<p>tobi</p>');
+		});
+
+		it('should keep the error response of the paths which exist or are refused', async () => {
+			await request(app)
+				.get('/name.d')
+				.expect('X-Send-Stream-Error', 'IsDirectoryError')
+				.expect(404, 'Not Found');
+			const spaFallback = { index: 'tobi.html' };
+			await request(createServer({ root: fixtures, spaFallback, redirectNotNormalized: true }))
+				.get('/users/%74obi')
+				.expect('Location', '/users/tobi')
+				.expect('X-Send-Stream-Error', 'NotNormalizedError')
+				.expect(301);
+			await request(createServer({ root: fixtures, spaFallback, ignorePattern: /^name/u }))
+				.get('/name.txt')
+				.expect('X-Send-Stream-Error', 'IgnoredFileError')
+				.expect(404, 'Not Found');
+			await request(createServer({
+				root: fixtures,
+				spaFallback,
+				hiddenFiles: [{ matcher: '/pets', action: 'forbid' }],
+			}))
+				.get('/pets/missing')
+				.expect('X-Send-Stream-Error', 'IgnoredFileError')
+				.expect(403, 'Forbidden');
+		});
+
+		it('should serve existing files', async () => {
+			await request(app)
+				.get('/nums.txt')
+				.expect(200, '123456789');
+		});
+
+		it('should serve the index file with 404 status for paths with a known extension', async () => {
+			await request(app)
+				.get('/missing.js')
+				.expect('Content-Type', 'text/html; charset=UTF-8')
+				.expect(shouldNotHaveHeader('X-Send-Stream-Error'))
+				.expect(404, '<p>tobi</p>');
+		});
+
+		it('should not serve the index file for paths with a known extension with excludeExtensions', async () => {
+			const excludeApp = createServer({
+				root: fixtures,
+				spaFallback: { index: 'tobi.html', excludeExtensions: true },
+			});
+			await request(excludeApp)
+				.get('/missing.js')
+				.expect('X-Send-Stream-Error', 'DoesNotExistError')
+				.expect(404, 'Not Found');
+			await request(excludeApp)
+				.get('/users/tobi')
+				.expect(200, '<p>tobi</p>');
+		});
+
+		it('should keep the error response when the index file is missing', async () => {
+			await request(createServer({ root: fixtures, spaFallback: true }))
+				.get('/users/tobi')
+				.expect('X-Send-Stream-Error', 'DoesNotExistError')
+				.expect(404, 'Not Found');
+		});
+
+		it('should support conditional requests on the index file', async () => {
+			const res = await request(app)
+				.get('/users/tobi')
+				.expect(200);
+			await request(app)
+				.get('/users/tobi')
+				.set('If-None-Match', (<Record<string, string>> res.header).etag)
+				.expect(304);
+		});
+
+		it('should set the fallback error of the response', async () => {
+			const storage = new FileSystemStorage(fixtures, { spaFallback: { index: '/tobi.html' } });
+			const response = await storage.prepareResponse('/users/tobi', { ':method': 'GET' });
+			lastResult = response;
+			response.dispose();
+			assert.strictEqual(response.statusCode, 200);
+			assert.strictEqual(response.error, undefined);
+			assert.strictEqual(response.fallbackError?.name, 'DoesNotExistError');
+			assert.strictEqual(response.storageInfo?.attachedData.resolvedPath, join(fixtures, 'tobi.html'));
+			const fileResponse = await storage.prepareResponse('/nums.txt', { ':method': 'GET' });
+			fileResponse.dispose();
+			assert.strictEqual(fileResponse.fallbackError, undefined);
+		});
+	});
+
+	describe('indexFiles and extensions', () => {
+		it('should try index file names in order', async () => {
+			const app = createServer({
+				root: fixtures,
+				onDirectory: 'serve-index',
+				indexFiles: ['default.html', 'index.html'],
+			});
+			await request(app)
+				.get('/pets/')
+				.expect('Content-Type', 'text/html; charset=UTF-8')
+				.expect(200, 'tobi\nloki\njane');
+			await request(app)
+				.get('/name.d/')
+				.expect('X-Send-Stream-Error', 'DoesNotExistError')
+				.expect(404);
+			const rootApp = createServer({
+				root: fixtures,
+				onDirectory: 'serve-index',
+				indexFiles: ['index.htm', 'tobi.html'],
+			});
+			await request(rootApp)
+				.get('/')
+				.expect(200, '<p>tobi</p>');
+		});
+
+		it('should try extensions in order when the file does not exist', async () => {
+			const app = createServer({ root: fixtures, extensions: ['htm', 'html'] });
+			await request(app)
+				.get('/tobi')
+				.expect('Content-Type', 'text/html; charset=UTF-8')
+				.expect(200, '<p>tobi</p>');
+			await request(app)
+				.get('/thing.html?query=1')
+				.expect(200, '<p>trap!</p>');
+			await request(app)
+				.get('/nums.txt')
+				.expect(200, '123456789');
+			await request(app)
+				.get('/missing')
+				.expect('X-Send-Stream-Error', 'DoesNotExistError')
+				.expect(404);
+			await request(app)
+				.get('/name.d')
+				.expect('X-Send-Stream-Error', 'IsDirectoryError')
+				.expect(404);
+		});
+
+		it('should redirect to index files and files with an extension when resolveMode is redirect', async () => {
+			const app = createServer({
+				root: fixtures,
+				onDirectory: 'serve-index',
+				extensions: ['html'],
+				resolveMode: 'redirect',
+			});
+			await request(app)
+				.get('/pets/')
+				.expect('Location', 'index.html')
+				.expect('X-Send-Stream-Error', 'RedirectError')
+				.expect(301, 'Moved Permanently');
+			await request(app)
+				.get('/tobi?query=1')
+				.expect('Location', 'tobi.html?query=1')
+				.expect(301, 'Moved Permanently');
+			await request(app)
+				.head('/tobi')
+				.expect('Location', 'tobi.html')
+				.expect(301, undefined);
+			await request(app)
+				.get('/tobi.html')
+				.expect(200, '<p>tobi</p>');
+			await request(app)
+				.get('/missing')
+				.expect('X-Send-Stream-Error', 'DoesNotExistError')
+				.expect(404);
+		});
+
+		it('should skip the files with an extension hidden by the hidden file rules', async () => {
+			const app = createServer({ root: fixtures, extensions: ['html', 'txt'], ignorePattern: /\.html$/u });
+			await request(app)
+				.get('/name')
+				.expect(200, 'tobi');
+			await request(app)
+				.get('/tobi')
+				.expect('X-Send-Stream-Error', 'DoesNotExistError')
+				.expect(404);
+			await request(createServer({
+				root: fixtures,
+				extensions: ['txt'],
+				hiddenFiles: [{ matcher: 'name.txt', action: 'forbid' }],
+			}))
+				.get('/name')
+				.expect('X-Send-Stream-Error', 'DoesNotExistError')
+				.expect(404);
+		});
+
+		it('should skip the directories matching an extension', async () => {
+			await request(createServer({ root: fixtures, extensions: ['d', 'txt'] }))
+				.get('/name')
+				.expect(200, 'tobi');
+			await request(createServer({ root: fixtures, extensions: ['d'] }))
+				.get('/name')
+				.expect('X-Send-Stream-Error', 'DoesNotExistError')
+				.expect(404);
+		});
+
+		it('should redirect path parts without query string when resolveMode is redirect', async () => {
+			const storage = new FileSystemStorage(fixtures, { extensions: ['html'], resolveMode: 'redirect' });
+			const response = await storage.prepareResponse(['', 'tobi'], { ':method': 'GET' });
+			lastResult = response;
+			response.dispose();
+			assert.strictEqual(response.statusCode, 301);
+			assert.strictEqual(response.headers.Location, 'tobi.html');
+		});
+
+		it('should use a generic status message for unknown redirect status codes', async () => {
+			const storage = new FileSystemStorage(fixtures);
+			const response = storage.createRedirectResponse(
+				false,
+				399,
+				'tobi.html',
+				new RedirectError('tobi is redirected to tobi.html', '/tobi', 'tobi.html'),
+			);
+			lastResult = response;
+			assert.strictEqual(response.statusCode, 399);
+			assert.strictEqual(String(await readAll(response.stream)), 'Redirect');
+		});
+
+		it('should fail without index file name', () => {
+			assert.throws(
+				() => new FileSystemStorage(fixtures, { indexFiles: [] }),
+				{ message: 'at least one index file name is required' },
+			);
+			lastResult = true;
+		});
+	});
+
+	describe('redirectDirectories', () => {
+		let app: http.Server;
+		before(() => {
+			app = createServer({ root: fixtures, onDirectory: 'list-files', redirectDirectories: true });
+		});
+
+		it('should redirect directories without trailing slash', async () => {
+			await request(app)
+				.get('/pets')
+				.expect('Location', 'pets/')
+				.expect('X-Send-Stream-Error', 'RedirectError')
+				.expect(301, 'Moved Permanently');
+			await request(app)
+				.get('/snow%20%E2%98%83?query=1')
+				.expect('Location', 'snow%20%E2%98%83/?query=1')
+				.expect(301);
+			await request(app)
+				.get('/pets/')
+				.expect(200, /index\.html/u);
+		});
+
+		it('should redirect files with trailing slash', async () => {
+			await request(app)
+				.get('/nums.txt/?query=1')
+				.expect('Location', '../nums.txt?query=1')
+				.expect(301);
+			await request(app)
+				.head('/pets/index.html/')
+				.expect('Location', '../index.html')
+				.expect(301, undefined);
+		});
+
+		it('should use the configured status code', async () => {
+			await request(createServer({ root: fixtures, onDirectory: 'serve-index', redirectDirectories: 308 }))
+				.get('/pets')
+				.expect('Location', 'pets/')
+				.expect(308, 'Permanent Redirect');
+		});
+
+		it('should not redirect directories when onDirectory is not set', async () => {
+			const noDirectoryApp = createServer({ root: fixtures, redirectDirectories: true });
+			await request(noDirectoryApp)
+				.get('/pets')
+				.expect('X-Send-Stream-Error', 'IsDirectoryError')
+				.expect(404);
+			await request(noDirectoryApp)
+				.get('/pets/')
+				.expect('Location', '../pets')
+				.expect(301);
+			await request(noDirectoryApp)
+				.get('/')
+				.expect('X-Send-Stream-Error', 'TrailingSlashError')
+				.expect(404);
+		});
+
+		it('should not redirect when redirectDirectories is not set', async () => {
+			await request(createServer({ root: fixtures, onDirectory: 'list-files' }))
+				.get('/pets')
+				.expect('X-Send-Stream-Error', 'IsDirectoryError')
+				.expect(404);
+		});
+	});
+
+	describe('redirectNotNormalized', () => {
+		it('should serve paths with percent-encoded unreserved characters when disabled', async () => {
+			await request(createServer({ root: fixtures }))
+				.get('/%6Eums.txt')
+				.expect(200, '123456789');
+			await request(createServer({ root: fixtures }))
+				.get('/pets/../nums.txt')
+				.expect('X-Send-Stream-Error', 'NotNormalizedError')
+				.expect(404);
+		});
+
+		it('should redirect paths which are not normalized', async () => {
+			const app = createServer({ root: fixtures, redirectNotNormalized: true });
+			await request(app)
+				.get('/%6Eums%2Etxt?query=1')
+				.expect('Location', '/nums.txt?query=1')
+				.expect('X-Send-Stream-Error', 'NotNormalizedError')
+				.expect(301, 'Moved Permanently');
+			await request(app)
+				.get('/pets/./index.html')
+				.expect('Location', '/pets/index.html')
+				.expect(301);
+			await request(app)
+				.head('/pets/../nums.txt')
+				.expect('Location', '/nums.txt')
+				.expect(301, undefined);
+			await request(app)
+				.get('/snow%20%E2%98%83/')
+				.expect('X-Send-Stream-Error', 'TrailingSlashError')
+				.expect(404);
+		});
+
+		it('should not redirect to protocol-relative locations', async () => {
+			const storage = new FileSystemStorage(fixtures, { redirectNotNormalized: true });
+			for (const path of ['/\\evil.com', '/..//evil.com', '/./\\/evil.com']) {
+				// eslint-disable-next-line no-await-in-loop
+				const response = await storage.prepareResponse(path, { ':method': 'GET' });
+				lastResult = response;
+				response.dispose();
+				assert.strictEqual(response.statusCode, 404);
+				assert.strictEqual(response.headers.Location, undefined);
+				assert.strictEqual(response.error?.name, 'NotNormalizedError');
+			}
+		});
+
+		it('should use the configured status code', async () => {
+			await request(createServer({ root: fixtures, redirectNotNormalized: 308 }))
+				.get('/%6Eums.txt')
+				.expect('Location', '/nums.txt')
+				.expect(308, 'Permanent Redirect');
+		});
+	});
+
+	describe('directoryListingFormats', () => {
+		const staticFixtures = join(__dirname, 'fixtures-static');
+
+		it('should list files as JSON', async () => {
+			const app = createServer({
+				root: staticFixtures,
+				onDirectory: 'list-files',
+				directoryListingFormats: ['json'],
+			});
+			await request(app)
+				.get('/')
+				.expect('Content-Type', 'application/json; charset=UTF-8')
+				.expect(shouldNotHaveHeader('Vary'))
+				.expect(200)
+				.expect(res => {
+					const files = <{ name: string; mtime: string }[]> JSON.parse(res.text);
+					assert.deepStrictEqual(
+						files.map(({ mtime: _mtime, ...file }) => file).sort((a, b) => a.name.localeCompare(b.name)),
+						[
+							{ name: 'empty.txt', type: 'file', size: 0, mimeType: 'text/plain' },
+							{ name: 'foo bar', type: 'file', size: 3, mimeType: null },
+							{ name: 'nums', type: 'file', size: 9, mimeType: null },
+							{ name: 'pets', type: 'directory', size: null, mimeType: null },
+							{ name: 'todo.html', type: 'file', size: 18, mimeType: 'text/html' },
+							{ name: 'todo.txt', type: 'file', size: 11, mimeType: 'text/plain' },
+							{ name: 'users', type: 'directory', size: null, mimeType: null },
+						],
+					);
+					for (const { mtime } of files) {
+						assert.match(mtime, /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/u);
+					}
+				});
+		});
+
+		it('should read a limited number of file stats concurrently', async () => {
+			const root = await fsPromises.mkdtemp(join(tmpdir(), 'send-stream-'));
+			try {
+				for (let index = 0; index < 40; index++) {
+					// eslint-disable-next-line no-await-in-loop
+					await fsPromises.writeFile(join(root, `file${ index }.txt`), 'x'.repeat(index));
+				}
+				let running = 0;
+				let maxRunning = 0;
+				class CountingStorage extends FileSystemStorage {
+					override async stat(fd: number, path: string) {
+						running++;
+						maxRunning = Math.max(maxRunning, running);
+						try {
+							return await super.stat(fd, path);
+						} finally {
+							running--;
+						}
+					}
+				}
+				const response = await new CountingStorage(root, { onDirectory: 'list-files' })
+					.prepareResponse('/?sort=size', { ':method': 'GET' });
+				lastResult = response;
+				response.dispose();
+				assert.strictEqual(response.statusCode, 200);
+				assert.ok(maxRunning > 1 && maxRunning <= 16, `${ maxRunning } concurrent stats`);
+			} finally {
+				await fsPromises.rmdir(root, { recursive: true });
+			}
+		});
+
+		it('should list files as plain text', async () => {
+			const app = createServer({
+				root: staticFixtures,
+				onDirectory: 'list-files',
+				directoryListingFormats: ['text'],
+			});
+			await request(app)
+				.get('/users/')
+				.expect('Content-Type', 'text/plain; charset=UTF-8')
+				.expect(200)
+				.expect(res => {
+					assert.deepStrictEqual(
+						res.text.split('\n').sort((a, b) => a.localeCompare(b)),
+						['', 'index.html', 'tobi.txt'],
+					);
+				});
+		});
+
+		describe('when several formats are given', () => {
+			let app: http.Server;
+			before(() => {
+				app = createServer({
+					root: fixtures,
+					onDirectory: 'list-files',
+					directoryListingFormats: ['html', 'json', 'text'],
+				});
+			});
+
+			it('should negotiate the format with the Accept header', async () => {
+				await request(app)
+					.get('/name.d/')
+					.set('Accept', 'application/json')
+					.expect('Content-Type', 'application/json; charset=UTF-8')
+					.expect('Vary', 'Accept')
+					// eslint-disable-next-line max-len
+					.expect(200, /^\[\{"name":"name\.txt","type":"file","size":4,"mtime":"[^"]+","mimeType":"text\/plain"\}\]$/u);
+				await request(app)
+					.get('/name.d/')
+					.set('Accept', 'text/html;q=0.5, text/plain')
+					.expect('Content-Type', 'text/plain; charset=UTF-8')
+					.expect('Vary', 'Accept')
+					.expect(200, 'name.txt\n');
+				await request(app)
+					.get('/name.d/')
+					.set('Accept', 'text/*, application/json;q=0.9')
+					.expect('Content-Type', 'text/html; charset=UTF-8')
+					.expect(200, /<a href="\.\/name\.txt">/u);
+			});
+
+			it('should use the first format by default', async () => {
+				await request(app)
+					.get('/name.d/')
+					.expect('Content-Type', 'text/html; charset=UTF-8')
+					.expect('Vary', 'Accept')
+					.expect(200);
+				await request(app)
+					.get('/name.d/')
+					.set('Accept', 'image/png')
+					.expect('Content-Type', 'text/html; charset=UTF-8')
+					.expect(200);
+			});
+
+			it('should ignore the media ranges with an invalid weight', async () => {
+				await request(app)
+					.get('/name.d/')
+					.set('Accept', 'application/json;q=high, text/plain;q=0.5')
+					.expect('Content-Type', 'text/plain; charset=UTF-8')
+					.expect(200, 'name.txt\n');
+			});
+
+			it('should vary on Accept and Accept-Encoding with dynamic compression', async () => {
+				await request(createServer({
+					root: fixtures,
+					onDirectory: 'list-files',
+					directoryListingFormats: ['json', 'text'],
+					dynamicCompression: true,
+				}))
+					.get('/name.d/')
+					.set('Accept', 'text/plain')
+					.set('Accept-Encoding', 'identity')
+					.expect('Vary', 'Accept, Accept-Encoding')
+					.expect(200, 'name.txt\n');
+			});
+		});
+
+		it('should fail with invalid formats', () => {
+			assert.throws(
+				() => new FileSystemStorage(fixtures, { directoryListingFormats: [] }),
+				{ message: 'at least one directory listing format is required' },
+			);
+			assert.throws(
+				() => new FileSystemStorage(fixtures, { directoryListingFormats: [<'html'> 'xml'] }),
+				{ message: 'xml is not supported as directory listing format' },
+			);
+			lastResult = true;
+		});
+	});
+
+	describe('directory listing template', () => {
+		const staticFixtures = join(__dirname, 'fixtures-static');
+
+		it('should sort the files with the sort and order query parameters', async () => {
+			const app = createServer({
+				root: staticFixtures,
+				onDirectory: 'list-files',
+				directoryListingFormats: ['text'],
+			});
+			await request(app)
+				.get('/?sort=size')
+				.expect(200, 'pets/\nusers/\nempty.txt\nfoo bar\nnums\ntodo.txt\ntodo.html\n');
+			await request(app)
+				.get('/?sort=size&order=desc')
+				.expect(200, 'todo.html\ntodo.txt\nnums\nfoo bar\nempty.txt\nusers/\npets/\n');
+			await request(app)
+				.get('/?sort=name&order=desc')
+				.expect(200, 'users/\ntodo.txt\ntodo.html\npets/\nnums\nfoo bar\nempty.txt\n');
+			await request(app)
+				.get('/?order=desc&sort=name')
+				.expect(200, 'users/\ntodo.txt\ntodo.html\npets/\nnums\nfoo bar\nempty.txt\n');
+			await request(app)
+				.get('/?sort=name&order=unknown')
+				.expect(200, 'empty.txt\nfoo bar\nnums\npets/\ntodo.html\ntodo.txt\nusers/\n');
+		});
+
+		it('should ignore unknown sort keys', async () => {
+			await request(createServer({
+				root: staticFixtures,
+				onDirectory: 'list-files',
+				directoryListingFormats: ['text'],
+			}))
+				.get('/users/?sort=owner')
+				.expect(200)
+				.expect(res => {
+					assert.deepStrictEqual(
+						res.text.split('\n').sort((a, b) => a.localeCompare(b)),
+						['', 'index.html', 'tobi.txt'],
+					);
+				});
+		});
+
+		it('should render breadcrumbs, sizes, dates and sort links', async () => {
+			await request(createServer({
+				root: staticFixtures,
+				onDirectory: 'list-files',
+			}))
+				.get('/users/?sort=name')
+				.expect('Content-Type', 'text/html; charset=UTF-8')
+				.expect(200)
+				.expect(res => {
+					assert.match(
+						res.text,
+						/<nav aria-label="Breadcrumbs"><a href="\.\.\/">\/<\/a><a href="\.\/">users\/<\/a><\/nav>/u,
+					);
+					assert.match(
+						res.text,
+						/<th aria-sort="ascending"><a href="\?sort=name&amp;order=desc">Name<\/a><\/th>/u,
+					);
+					assert.match(res.text, /<th><a href="\?sort=size&amp;order=asc">Size<\/a><\/th>/u);
+					assert.match(res.text, /<th><a href="\?sort=mtime&amp;order=asc">Modified<\/a><\/th>/u);
+					assert.deepStrictEqual(
+						res.text.match(/<td><a href="[^"]+"/gu),
+						['<td><a href=".."', '<td><a href="./index.html"', '<td><a href="./tobi.txt"'],
+					);
+					assert.match(
+						res.text,
+						// eslint-disable-next-line max-len
+						/<tr class="file"><td><a href="\.\/tobi\.txt">tobi\.txt<\/a><\/td><td>6 B<\/td><td>\w{3}, [^<]+ GMT<\/td>/u,
+					);
+				});
+		});
+
+		it('should escape every field of the default template', () => {
+			const entries: DirectoryListingEntry[] = [
+				{ name: 'a&b', resolvedPath: '/x&y/a&b', isDirectory: true, stats: undefined },
+				{ name: 'c&d.txt', resolvedPath: '/x&y/c&d.txt', isDirectory: false, stats: undefined },
+			];
+			const html = renderDirectoryListingHTML(['', 'x&y'], entries, undefined);
+			assert.ok(html.includes('<title>x&amp;y</title>'));
+			assert.ok(html.includes('content="Content of /x&amp;y/ directory"'));
+			assert.ok(html.includes('<a href="./">x&amp;y/</a>'));
+			assert.ok(html.includes('<a href="./a%26b/">a&amp;b/</a>'));
+			assert.ok(html.includes('<a href="./c%26d.txt">c&amp;d.txt</a></td><td>-</td><td>-</td>'));
+			assert.ok(!/&(?!amp;)/u.test(html.replace(/&amp;/gu, '')));
+			lastResult = true;
+		});
+
+		it('should allow overriding the renderer', async () => {
+			class CustomListingStorage extends FileSystemStorage {
+				// eslint-disable-next-line class-methods-use-this
+				override renderDirectoryListing(
+					_storageInfo: StorageInfo<FileData>,
+					entries: readonly DirectoryListingEntry[],
+					sort: DirectoryListingSort | undefined,
+				) {
+					const files = entries.map(({ name, stats }) => `${ name } ${ stats?.size ?? '' }`);
+					return `${ sort ? `${ sort.by } ${ sort.order }: ` : '' }${ files.join(', ') }`;
+				}
+			}
+			const storage = new CustomListingStorage(staticFixtures, { onDirectory: 'list-files' });
+			const app = http.createServer((req, res) => {
+				(async () => {
+					// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+					const response = await storage.prepareResponse(req.url!, req);
+					lastResult = response;
+					await response.send(res);
+				})().catch((err: unknown) => {
+					res.destroy(<Error> err);
+				});
+			});
+			await request(app)
+				.get('/users/?sort=size&order=desc')
+				.expect('Content-Type', 'text/html; charset=UTF-8')
+				.expect(200, 'size desc: index.html 23, tobi.txt 6');
+		});
+	});
+
+	describe('directory listing pagination', () => {
+		const staticFixtures = join(__dirname, 'fixtures-static');
+
+		it('should list the requested page with the offset and limit query parameters', async () => {
+			const app = createServer({
+				root: staticFixtures,
+				onDirectory: 'list-files',
+				directoryListingFormats: ['text'],
+			});
+			await request(app)
+				.get('/?sort=name&limit=3')
+				.expect('Link', '<?sort=name&limit=3&offset=3>; rel="next"')
+				.expect(200, 'empty.txt\nfoo bar\nnums\n');
+			await request(app)
+				.get('/?sort=name&offset=3&limit=3')
+				.expect('Link', '<?sort=name&offset=0&limit=3>; rel="prev", <?sort=name&offset=6&limit=3>; rel="next"')
+				.expect(200, 'pets/\ntodo.html\ntodo.txt\n');
+			await request(app)
+				.get('/?sort=name&offset=6&limit=3')
+				.expect('Link', '<?sort=name&offset=3&limit=3>; rel="prev"')
+				.expect(200, 'users/\n');
+			await request(app)
+				.get('/?sort=name&offset=7&limit=3')
+				.expect(200, '');
+			await request(app)
+				.get('/?sort=name&offset=5')
+				.expect('Link', '<?sort=name&offset=0>; rel="prev"')
+				.expect(200, 'todo.txt\nusers/\n');
+		});
+
+		it('should list every file once in directory order', async () => {
+			const app = createServer({
+				root: staticFixtures,
+				onDirectory: 'list-files',
+				directoryListingFormats: ['text'],
+			});
+			const files = [];
+			let next: string | undefined = '?limit=2';
+			while (next !== undefined) {
+				// eslint-disable-next-line no-await-in-loop
+				const res = await request(app)
+					.get(`/${ next }`)
+					.expect(200);
+				files.push(...res.text.split('\n').filter(file => file !== ''));
+				const { link } = <Record<string, string | undefined>> res.header;
+				next = /<(?<url>[^>]+)>; rel="next"/u.exec(link ?? '')?.groups?.url;
+			}
+			assert.deepStrictEqual(
+				files.sort((a, b) => a.localeCompare(b)),
+				['empty.txt', 'foo bar', 'nums', 'pets/', 'todo.html', 'todo.txt', 'users/'],
+			);
+		});
+
+		it('should ignore invalid offset and limit', async () => {
+			await request(createServer({
+				root: staticFixtures,
+				onDirectory: 'list-files',
+				directoryListingFormats: ['text'],
+			}))
+				.get('/?sort=name&offset=-1&limit=0')
+				.expect(shouldNotHaveHeader('Link'))
+				.expect(200, 'empty.txt\nfoo bar\nnums\npets/\ntodo.html\ntodo.txt\nusers/\n');
+		});
+
+		it('should use directoryListingPageSize as default and maximum limit', async () => {
+			const app = createServer({
+				root: staticFixtures,
+				onDirectory: 'list-files',
+				directoryListingFormats: ['text'],
+				directoryListingPageSize: 2,
+			});
+			await request(app)
+				.get('/?sort=name')
+				.expect('Link', '<?sort=name&offset=2&limit=2>; rel="next"')
+				.expect(200, 'empty.txt\nfoo bar\n');
+			await request(app)
+				.get('/?sort=name&offset=2&limit=100')
+				.expect('Link', '<?sort=name&offset=0&limit=2>; rel="prev", <?sort=name&offset=4&limit=2>; rel="next"')
+				.expect(200, 'nums\npets/\n');
+			await request(app)
+				.get('/users/?limit=1&sort=name')
+				.expect('Link', '<?limit=1&sort=name&offset=1>; rel="next"')
+				.expect(200, 'index.html\n');
+		});
+
+		it('should render pagination links in html', async () => {
+			await request(createServer({
+				root: staticFixtures,
+				onDirectory: 'list-files',
+			}))
+				.get('/?sort=name&offset=2&limit=2')
+				.expect(200)
+				.expect(res => {
+					assert.match(
+						res.text,
+						// eslint-disable-next-line max-len
+						/<nav aria-label="Pagination"><a href="\?sort=name&amp;offset=0&amp;limit=2" rel="prev">Previous<\/a> <a href="\?sort=name&amp;offset=4&amp;limit=2" rel="next">Next<\/a><\/nav>/u,
+					);
+					assert.deepStrictEqual(
+						res.text.match(/<td><a href="[^"]+"/gu),
+						['<td><a href="./nums"', '<td><a href="./pets/"'],
+					);
+				});
+		});
+
+		it('should list the sorted pages of large directories', async () => {
+			const root = await fsPromises.mkdtemp(join(tmpdir(), 'send-stream-'));
+			try {
+				for (let index = 0; index < 40; index++) {
+					// eslint-disable-next-line no-await-in-loop
+					await fsPromises.writeFile(join(root, `file${ index }.txt`), 'x'.repeat(index));
+				}
+				const app = createServer({ root, onDirectory: 'list-files', directoryListingFormats: ['text'] });
+				for (const sort of ['sort=name', 'sort=size&order=desc']) {
+					// eslint-disable-next-line no-await-in-loop
+					const { text } = await request(app)
+						.get(`/?${ sort }`)
+						.expect(200);
+					const lines = text.split(/(?<=\n)/u);
+					for (const [offset, limit] of [[0, 1], [2, 3], [10, 20], [35, 10]]) {
+						// eslint-disable-next-line no-await-in-loop
+						await request(app)
+							.get(`/?${ sort }&offset=${ offset }&limit=${ limit }`)
+							.expect(200, lines.slice(offset, offset + limit).join(''));
+					}
+				}
+			} finally {
+				await fsPromises.rmdir(root, { recursive: true });
+			}
+		});
+
+		it('should fail with invalid page size', () => {
+			assert.throws(
+				() => new FileSystemStorage(fixtures, { directoryListingPageSize: 0 }),
+				{ message: 'directory listing page size must be a positive integer' },
+			);
+			assert.throws(
+				() => new FileSystemStorage(fixtures, { directoryListingPageSize: 1.5 }),
+				{ message: 'directory listing page size must be a positive integer' },
+			);
+			lastResult = true;
+		});
+
+		describe('conditional requests', () => {
+			let app: http.Server;
+			before(() => {
+				app = createServer({
+					root: staticFixtures,
+					onDirectory: 'list-files',
+					directoryListingFormats: ['html', 'json'],
+				});
+			});
+
+			it('should set a weak ETag and Last-Modified from the directory modification time', async () => {
+				const res = await request(app)
+					.get('/users/')
+					.expect('ETag', /^W\/"[\da-f]+-html-[\da-f]{16}"$/u)
+					.expect('Last-Modified', dateRegExp)
+					.expect(200);
+				const { etag } = <Record<string, string>> res.header;
+				await request(app)
+					.get('/users/')
+					.set('If-None-Match', etag)
+					.expect(304);
+				await request(app)
+					.get('/users/')
+					.set('Accept', 'application/json')
+					.set('If-None-Match', etag)
+					.expect('ETag', /^W\/"[\da-f]+-json-[\da-f]{16}"$/u)
+					.expect(200);
+			});
+
+			it('should include the sort and page in the ETag', async () => {
+				await request(app)
+					.get('/users/?sort=size&order=desc&offset=1&limit=1')
+					.expect('ETag', /^W\/"[\da-f]+-html-size-desc-1-1-[\da-f]{16}"$/u)
+					.expect(200);
+			});
+
+			it('should change the ETag and Last-Modified when a listed file changes', async () => {
+				const root = await fsPromises.mkdtemp(join(tmpdir(), 'send-stream-'));
+				try {
+					await fsPromises.writeFile(join(root, 'file.txt'), 'content');
+					await fsPromises.utimes(join(root, 'file.txt'), new Date(0), new Date(0));
+					await fsPromises.utimes(root, new Date(0), new Date(0));
+					const listingApp = createServer({ root, onDirectory: 'list-files' });
+					const res = await request(listingApp)
+						.get('/')
+						.expect('Last-Modified', 'Thu, 01 Jan 1970 00:00:00 GMT')
+						.expect(200);
+					const { etag } = <Record<string, string>> res.header;
+					// the directory modification time does not change when a file is modified
+					await fsPromises.writeFile(join(root, 'file.txt'), 'modified content');
+					await request(listingApp)
+						.get('/')
+						.set('If-None-Match', etag)
+						.set('If-Modified-Since', 'Thu, 01 Jan 1970 00:00:00 GMT')
+						.expect(({ header }) => {
+							assert.notStrictEqual((<Record<string, string>> header).etag, etag);
+						})
+						.expect(200);
+				} finally {
+					await fsPromises.unlink(join(root, 'file.txt'));
+					await fsPromises.rmdir(root);
+				}
+			});
+		});
+	});
+
+	describe('directoryDownload', () => {
+		const staticFixtures = join(__dirname, 'fixtures-static');
+		let tmpRoot: string;
+		before(async () => {
+			tmpRoot = await fsPromises.mkdtemp(join(tmpdir(), 'send-stream-'));
+		});
+		after(async () => {
+			for (const file of await fsPromises.readdir(tmpRoot)) {
+				// eslint-disable-next-line no-await-in-loop
+				await fsPromises.unlink(join(tmpRoot, file));
+			}
+			await fsPromises.rmdir(tmpRoot);
+		});
+
+		async function readZip(storage: FileSystemStorage, path: string) {
+			const response = await storage.prepareResponse(path, { ':method': 'GET' });
+			lastResult = response;
+			const archivePath = join(tmpRoot, `${ String(Math.random()).slice(2) }.zip`);
+			await fsPromises.writeFile(archivePath, await readAll(response.stream));
+			return { response, zipStorage: new ZipStorage(archivePath) };
+		}
+
+		it('should download a directory as a zip archive', async () => {
+			await request(createServer({
+				root: staticFixtures,
+				onDirectory: 'list-files',
+				directoryDownload: 'zip',
+			}))
+				.get('/users/?download=zip')
+				.expect('Content-Type', 'application/zip')
+				.expect('Content-Disposition', 'attachment; filename="users.zip"')
+				.expect(shouldNotHaveHeader('Content-Length'))
+				.expect(shouldNotHaveHeader('ETag'))
+				.expect(200);
+		});
+
+		it('should stream the directory tree without the ignored files', async () => {
+			const storage = new FileSystemStorage(staticFixtures, {
+				onDirectory: 'list-files',
+				directoryDownload: 'zip',
+			});
+			const { response, zipStorage } = await readZip(storage, '/?download=zip');
+			assert.strictEqual(response.statusCode, 200);
+			assert.strictEqual(response.headers['Content-Disposition'], 'attachment; filename="_.zip"');
+			assert.deepStrictEqual(
+				[...(await zipStorage.getIndex()).keys()].sort((a, b) => a.localeCompare(b)),
+				[
+					'/',
+					'/empty.txt',
+					'/foo bar',
+					'/nums',
+					'/pets',
+					'/pets/names.txt',
+					'/todo.html',
+					'/todo.txt',
+					'/users',
+					'/users/index.html',
+					'/users/tobi.txt',
+				],
+			);
+			assert.strictEqual(
+				await readZipFile(zipStorage, '/pets/names.txt'),
+				await fsPromises.readFile(join(staticFixtures, 'pets/names.txt'), 'utf-8'),
+			);
+			assert.strictEqual(await readZipFile(zipStorage, '/empty.txt'), '');
+		});
+
+		it('should merge the directories of all the roots', async () => {
+			const storage = new FileSystemStorage([join(__dirname, 'fixtures-overlay'), fixtures, staticFixtures], {
+				onDirectory: 'list-files',
+				directoryDownload: 'zip',
+			});
+			const { zipStorage } = await readZip(storage, '/pets/?download=zip');
+			assert.deepStrictEqual(
+				[...(await zipStorage.getIndex()).keys()].sort((a, b) => a.localeCompare(b)),
+				['/', '/index.html', '/names.txt', '/tobi.txt'],
+			);
+			assert.strictEqual(
+				await readZipFile(zipStorage, '/tobi.txt'),
+				await fsPromises.readFile(join(__dirname, 'fixtures-overlay/pets/tobi.txt'), 'utf-8'),
+			);
+		});
+
+		it('should skip the special files, the unopenable files and the links to parent directories', async () => {
+			const root = await fsPromises.mkdtemp(join(tmpdir(), 'send-stream-'));
+			const socketServer = createNetServer();
+			try {
+				await fsPromises.mkdir(join(root, 'dir'));
+				await fsPromises.writeFile(join(root, 'dir/file.txt'), 'file');
+				await fsPromises.symlink('..', join(root, 'dir/parent-link'));
+				await fsPromises.symlink('missing.txt', join(root, 'dir/broken-link.txt'));
+				await fsPromises.symlink('/dev/null', join(root, 'dir/device-link'));
+				await new Promise<void>(resolve => {
+					socketServer.listen(join(root, 'dir/socket'), resolve);
+				});
+				const storage = new FileSystemStorage(root, {
+					onDirectory: 'list-files',
+					directoryDownload: 'zip',
+				});
+				const { zipStorage } = await readZip(storage, '/?download=zip');
+				assert.deepStrictEqual(
+					[...(await zipStorage.getIndex()).keys()].sort((a, b) => a.localeCompare(b)),
+					['/', '/dir', '/dir/file.txt'],
+				);
+			} finally {
+				await new Promise(resolve => {
+					socketServer.close(resolve);
+				});
+				await fsPromises.rmdir(root, { recursive: true });
+			}
+		});
+
+		it('should download the directories of file systems without inodes', async () => {
+			class NoInodeStorage extends FileSystemStorage {
+				override async stat(fd: number, path: string) {
+					return Object.assign(await super.stat(fd, path), { ino: 0 });
+				}
+			}
+			const storage = new NoInodeStorage(staticFixtures, {
+				onDirectory: 'list-files',
+				directoryDownload: 'zip',
+			});
+			const { zipStorage } = await readZip(storage, '/pets/?download=zip');
+			assert.deepStrictEqual([...(await zipStorage.getIndex()).keys()], ['/', '/names.txt']);
+		});
+
+		it('should fail when a file can not be opened anymore', async () => {
+			lastResult = true;
+			const storage = new FileSystemStorage(staticFixtures);
+			const missingPath = join(staticFixtures, 'missing.txt');
+			await assert.rejects(
+				createDirectoryArchiveFileStream(storage, missingPath, 1),
+				{ message: `${ missingPath } can not be opened` },
+			);
+		});
+
+		it('should list the files when download is not enabled or not zip', async () => {
+			await request(createServer({
+				root: staticFixtures,
+				onDirectory: 'list-files',
+			}))
+				.get('/users/?download=zip')
+				.expect('Content-Type', 'text/html; charset=UTF-8')
+				.expect(200);
+			await request(createServer({
+				root: staticFixtures,
+				onDirectory: 'list-files',
+				directoryDownload: 'zip',
+			}))
+				.get('/users/?download=tar')
+				.expect('Content-Type', 'text/html; charset=UTF-8')
+				.expect(200);
+		});
+
+		it('should not download files', async () => {
+			await request(createServer({
+				root: staticFixtures,
+				onDirectory: 'list-files',
+				directoryDownload: 'zip',
+			}))
+				.get('/todo.txt?download=zip')
+				.expect('Content-Type', 'text/plain; charset=UTF-8')
+				.expect(200, '- groceries');
+		});
+	});
+
+	describe('symlinks', () => {
+		let tmpRoot: string;
+		let root: string;
+		before(async () => {
+			tmpRoot = await fsPromises.mkdtemp(join(tmpdir(), 'send-stream-'));
+			root = join(tmpRoot, 'root');
+			await fsPromises.mkdir(join(root, 'dir'), { recursive: true });
+			await fsPromises.mkdir(join(tmpRoot, 'outside'));
+			await fsPromises.writeFile(join(root, 'file.txt'), 'file');
+			await fsPromises.writeFile(join(root, 'dir/nested.txt'), 'nested');
+			await fsPromises.writeFile(join(tmpRoot, 'outside.txt'), 'outside');
+			await fsPromises.writeFile(join(tmpRoot, 'outside/secret.txt'), 'secret');
+			await fsPromises.symlink('file.txt', join(root, 'inside-link.txt'));
+			await fsPromises.symlink('dir', join(root, 'dir-link'));
+			await fsPromises.symlink('../outside.txt', join(root, 'outside-link.txt'));
+			await fsPromises.symlink('../outside', join(root, 'outside-dir-link'));
+			await fsPromises.symlink('root', join(tmpRoot, 'root-link'));
+			await fsPromises.symlink('missing.txt', join(root, 'broken-link.txt'));
+		});
+		after(async () => {
+			await fsPromises.rmdir(tmpRoot, { recursive: true });
+		});
+
+		it('should follow the symbolic links by default', async () => {
+			await request(createServer({ root }))
+				.get('/outside-link.txt')
+				.expect(200, 'outside');
+		});
+
+		it('should refuse the paths going through a symbolic link when symlinks is deny', async () => {
+			const server = createServer({ root, symlinks: 'deny' });
+			await request(server)
+				.get('/file.txt')
+				.expect(200, 'file');
+			await request(server)
+				.get('/inside-link.txt')
+				.expect('X-Send-Stream-Error', 'ForbiddenSymlinkError')
+				.expect(404);
+			await request(server)
+				.get('/dir-link/nested.txt')
+				.expect('X-Send-Stream-Error', 'ForbiddenSymlinkError')
+				.expect(404);
+			await request(server)
+				.get('/outside-link.txt')
+				.expect('X-Send-Stream-Error', 'ForbiddenSymlinkError')
+				.expect(404);
+		});
+
+		it('should report the resolved path of the refused symbolic links', async () => {
+			const storage = new FileSystemStorage(root, { symlinks: 'deny' });
+			const response = await storage.prepareResponse('/inside-link.txt', { ':method': 'GET' });
+			lastResult = response;
+			response.dispose();
+			assert.ok(response.error instanceof ForbiddenSymlinkError);
+			assert.strictEqual(response.error.resolvedPath, join(root, 'inside-link.txt'));
+		});
+
+		it('should allow a root which is a symbolic link when symlinks is deny', async () => {
+			await request(createServer({ root: join(tmpRoot, 'root-link'), symlinks: 'deny' }))
+				.get('/dir/nested.txt')
+				.expect(200, 'nested');
+		});
+
+		it('should only follow the symbolic links resolved inside the root when symlinks is within-root', async () => {
+			const server = createServer({ root, symlinks: 'within-root' });
+			await request(server)
+				.get('/inside-link.txt')
+				.expect(200, 'file');
+			await request(server)
+				.get('/dir-link/nested.txt')
+				.expect(200, 'nested');
+			await request(server)
+				.get('/outside-link.txt')
+				.expect('X-Send-Stream-Error', 'ForbiddenSymlinkError')
+				.expect(404);
+			await request(server)
+				.get('/outside-dir-link/secret.txt')
+				.expect('X-Send-Stream-Error', 'ForbiddenSymlinkError')
+				.expect(404);
+		});
+
+		it('should follow the symbolic links within the file system root when symlinks is within-root', async () => {
+			await request(createServer({ root: '/', symlinks: 'within-root' }))
+				.get(`${ tmpRoot }/root/outside-link.txt`)
+				.expect(200, 'outside');
+		});
+
+		it('should refuse directories going through a symbolic link', async () => {
+			await request(createServer({ root, symlinks: 'within-root', onDirectory: 'list-files' }))
+				.get('/outside-dir-link/')
+				.expect('X-Send-Stream-Error', 'ForbiddenSymlinkError')
+				.expect(404);
+		});
+
+		it('should skip the forbidden symbolic links in directory listings', async () => {
+			await request(createServer({
+				root,
+				symlinks: 'deny',
+				onDirectory: 'list-files',
+				directoryListingFormats: ['text'],
+			}))
+				.get('/?sort=name')
+				.expect(200, 'dir/\nfile.txt\n');
+			await request(createServer({
+				root,
+				symlinks: 'within-root',
+				onDirectory: 'list-files',
+				directoryListingFormats: ['text'],
+			}))
+				.get('/?sort=name')
+				.expect(200, 'dir/\ndir-link\nfile.txt\ninside-link.txt\n');
+			await request(createServer({
+				root,
+				onDirectory: 'list-files',
+				directoryListingFormats: ['text'],
+			}))
+				.get('/?sort=name')
+				.expect(
+					200,
+					'broken-link.txt\ndir/\ndir-link\nfile.txt\ninside-link.txt\noutside-dir-link\noutside-link.txt\n',
+				);
+		});
+
+		it('should throw when the fs module has no realpath function and symlinks are not followed', () => {
+			lastResult = true;
+			assert.throws(
+				() => new ZipStorage(join(__dirname, 'fixtures-archive/docs.zip'), { symlinks: 'deny' }),
+				{ message: 'the fs module must have a realpath function when symbolic links are not followed' },
+			);
+		});
+	});
+
+	describe('errorStatusCodes', () => {
+		it('should map the storage errors to status codes when true', async () => {
+			const server = createServer({ root: fixtures, errorStatusCodes: true });
+			await request(server)
+				.get('/%E0%A4%A')
+				.expect('X-Send-Stream-Error', 'MalformedPathError')
+				.expect(400, 'Bad Request');
+			await request(server)
+				.get('/foo%3Cbar')
+				.expect('X-Send-Stream-Error', 'ForbiddenCharacterError')
+				.expect(400, 'Bad Request');
+			await request(server)
+				.get('/.hidden.txt')
+				.expect('X-Send-Stream-Error', 'IgnoredFileError')
+				.expect(403, 'Forbidden');
+			await request(server)
+				.get('/nope.txt')
+				.expect('X-Send-Stream-Error', 'DoesNotExistError')
+				.expect(404, 'Not Found');
+		});
+
+		it('should use the given status codes by error name', async () => {
+			// eslint-disable-next-line @typescript-eslint/naming-convention
+			const server = createServer({ root: fixtures, errorStatusCodes: { DoesNotExistError: 410 } });
+			await request(server)
+				.get('/nope.txt')
+				.expect('X-Send-Stream-Error', 'DoesNotExistError')
+				.expect(410, 'Gone');
+			await request(server)
+				.get('/.hidden.txt')
+				.expect('X-Send-Stream-Error', 'IgnoredFileError')
+				.expect(404, 'Not Found');
+		});
+
+		it('should keep the status code of the hidden file rules', async () => {
+			const server = createServer({
+				root: fixtures,
+				errorStatusCodes: true,
+				hiddenFiles: [{ matcher: '.mine', action: 'deny' }],
+			});
+			await request(server)
+				.get('/.mine/name.txt')
+				.expect('X-Send-Stream-Error', 'IgnoredFileError')
+				.expect(404, 'Not Found');
+		});
+	});
+
+	describe('errorFormats', () => {
+		it('should negotiate the error format with the Accept header', async () => {
+			const server = createServer({ root: fixtures, errorFormats: ['text', 'html', 'json'] });
+			await request(server)
+				.get('/nope.txt')
+				.expect('Content-Type', 'text/plain; charset=UTF-8')
+				.expect('Vary', 'Accept')
+				.expect(404, 'Not Found');
+			await request(server)
+				.get('/nope.txt')
+				.set('Accept', 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8')
+				.expect('Content-Type', 'text/html; charset=UTF-8')
+				.expect('Vary', 'Accept')
+				.expect(
+					404,
+					'<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><title>404 Not Found</title></head>'
+					+ '<body><h1>404 Not Found</h1></body></html>',
+				);
+			await request(server)
+				.get('/nope.txt')
+				.set('Accept', 'application/json')
+				.expect('Content-Type', 'application/problem+json; charset=UTF-8')
+				.expect('Vary', 'Accept')
+				.expect(404, {
+					type: 'about:blank',
+					title: 'Not Found',
+					status: 404,
+					detail: 'DoesNotExistError',
+				});
+		});
+
+		it('should use the only error format without Vary header', async () => {
+			await request(createServer({ root: fixtures, errorFormats: ['json'], errorStatusCodes: true }))
+				.get('/.hidden.txt')
+				.expect('Content-Type', 'application/problem+json; charset=UTF-8')
+				.expect(shouldNotHaveHeader('Vary'))
+				.expect(403, {
+					type: 'about:blank',
+					title: 'Forbidden',
+					status: 403,
+					detail: 'IgnoredFileError',
+				});
+		});
+
+		it('should send the Content-Length of the error body without body on HEAD requests', async () => {
+			const body = JSON.stringify({
+				type: 'about:blank',
+				title: 'Not Found',
+				status: 404,
+				detail: 'DoesNotExistError',
+			});
+			await request(createServer({ root: fixtures, errorFormats: ['json'] }))
+				.head('/nope.txt')
+				.expect('Content-Length', String(body.length))
+				.expect(404, undefined);
+		});
+
+		it('should render the error body with the overriden renderErrorBody method', async () => {
+			class CustomStorage extends FileSystemStorage {
+				// eslint-disable-next-line class-methods-use-this
+				override renderErrorBody(format: 'text' | 'html' | 'json', statusCode: number) {
+					return `${ format } ${ statusCode }`;
+				}
+			}
+			const storage = new CustomStorage(fixtures, { errorFormats: ['html'] });
+			const response = await storage.prepareResponse('/nope.txt', { ':method': 'GET' });
+			lastResult = response;
+			assert.strictEqual(response.statusCode, 404);
+			assert.strictEqual(response.headers['Content-Type'], 'text/html; charset=UTF-8');
+			assert.strictEqual(String(await readAll(response.stream)), 'html 404');
+		});
+
+		it('should use the generic status message for unknown status codes', async () => {
+			const server = createServer({
+				root: fixtures,
+				errorFormats: ['text', 'html'],
+				// eslint-disable-next-line @typescript-eslint/naming-convention
+				errorStatusCodes: { DoesNotExistError: 499 },
+			});
+			await request(server)
+				.get('/nope.txt')
+				.expect(499, 'Error');
+			await request(server)
+				.get('/nope.txt')
+				.set('Accept', 'text/html')
+				.expect(
+					499,
+					'<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><title>499 Error</title></head>'
+					+ '<body><h1>499 Error</h1></body></html>',
+				);
+		});
+
+		it('should use the first error format when the storage error is created without request headers', async () => {
+			const storage = new FileSystemStorage(fixtures, { errorFormats: ['html', 'json'] });
+			const response = storage.createStorageError(false, new Error('unknown'));
+			lastResult = response;
+			assert.strictEqual(response.statusCode, 404);
+			assert.strictEqual(response.headers['Content-Type'], 'text/html; charset=UTF-8');
+			assert.strictEqual(response.headers['Vary'], 'Accept');
+			await readAll(response.stream);
+		});
+
+		it('should throw when no error format or an unsupported error format is given', () => {
+			lastResult = true;
+			assert.throws(() => new FileSystemStorage(fixtures, { errorFormats: [] }), {
+				message: 'at least one error format is required',
+			});
+			assert.throws(() => new FileSystemStorage(fixtures, { errorFormats: [<'text'> 'xml'] }), {
+				message: 'xml is not supported as error format',
+			});
+		});
+	});
+
+	describe('problemDetails', () => {
+		it('should render the storage errors as problem details whatever the Accept header', async () => {
+			await request(createServer({ root: fixtures, problemDetails: true, errorFormats: ['html', 'text'] }))
+				.get('/nope.txt')
+				.set('Accept', 'text/html')
+				.expect('Content-Type', 'application/problem+json; charset=UTF-8')
+				.expect(shouldNotHaveHeader('Vary'))
+				.expect(404, createProblemDetails(404, 'Not Found', 'DoesNotExistError'));
+		});
+
+		it('should render the Method Not Allowed errors as problem details', async () => {
+			await request(createServer({ root: fixtures, problemDetails: true }))
+				.post('/name.txt')
+				.expect('Content-Type', 'application/problem+json; charset=UTF-8')
+				.expect('Allow', 'GET, HEAD')
+				.expect(405, createProblemDetails(405, 'Method Not Allowed', 'the allowed methods are GET, HEAD'));
+		});
+
+		it('should render the Precondition Failed errors as problem details', async () => {
+			await request(createServer({ root: fixtures, problemDetails: true }))
+				.get('/name.txt')
+				.set('If-Match', '"foo"')
+				.expect('Content-Type', 'application/problem+json; charset=UTF-8')
+				.expect(412, createProblemDetails(
+					412,
+					'Precondition Failed',
+					'the If-Match or If-Unmodified-Since precondition is not met',
+				));
+		});
+
+		it('should render the Range Not Satisfiable errors as problem details', async () => {
+			await request(createServer({ root: fixtures, problemDetails: true }))
+				.get('/name.txt')
+				.set('Range', 'bytes=9-50')
+				.expect('Content-Type', 'application/problem+json; charset=UTF-8')
+				.expect('Content-Range', 'bytes */4')
+				.expect(416, createProblemDetails(
+					416,
+					'Range Not Satisfiable',
+					'the range bytes=9-50 is not satisfiable for a content of 4 bytes',
+				));
+		});
+
+		it('should keep the Content-Length of the problem details on HEAD requests', async () => {
+			const body = JSON.stringify(createProblemDetails(403, 'Forbidden', 'IgnoredFileError'));
+			await request(createServer({ root: fixtures, problemDetails: true, errorStatusCodes: true }))
+				.head('/.hidden.txt')
+				.expect('Content-Type', 'application/problem+json; charset=UTF-8')
+				.expect('Content-Length', String(body.length))
+				.expect(403, undefined);
+			await request(createServer({ root: fixtures, problemDetails: true }))
+				.head('/name.txt')
+				.set('If-Match', '"foo"')
+				.expect(
+					'Content-Length',
+					String(JSON.stringify(createProblemDetails(
+						412,
+						'Precondition Failed',
+						'the If-Match or If-Unmodified-Since precondition is not met',
+					)).length),
+				)
+				.expect(412, undefined);
+		});
+	});
+
+	describe('errorPages', () => {
+		let tmpRoot: string;
+		before(async () => {
+			tmpRoot = await fsPromises.mkdtemp(join(tmpdir(), 'send-stream-'));
+			await fsPromises.writeFile(join(tmpRoot, 'file.txt'), 'file');
+			await fsPromises.writeFile(join(tmpRoot, '.secret'), 'secret');
+			await fsPromises.writeFile(join(tmpRoot, '404.html'), '<h1>Page not found</h1>');
+			await fsPromises.writeFile(join(tmpRoot, '403.html'), '<h1>Forbidden page</h1>');
+		});
+		after(async () => {
+			await fsPromises.rmdir(tmpRoot, { recursive: true });
+		});
+
+		it('should serve the error pages with the status code of the error', async () => {
+			const server = createServer({ root: tmpRoot, errorPages: true, errorStatusCodes: true });
+			await request(server)
+				.get('/nope.txt')
+				.expect('Content-Type', 'text/html; charset=UTF-8')
+				.expect('Cache-Control', 'no-store')
+				.expect(shouldNotHaveHeader('ETag'))
+				.expect(404, '<h1>Page not found</h1>');
+			await request(server)
+				.get('/.secret')
+				.expect('Content-Type', 'text/html; charset=UTF-8')
+				.expect('Cache-Control', 'no-store')
+				.expect(403, '<h1>Forbidden page</h1>');
+			await request(server)
+				.get('/file.txt')
+				.expect(200, 'file');
+		});
+
+		it('should attach the error to the error page response', async () => {
+			const storage = new FileSystemStorage(tmpRoot, { errorPages: { 404: '/404.html' } });
+			const response = await storage.prepareResponse('/nope.txt', { ':method': 'GET' });
+			lastResult = response;
+			assert.strictEqual(response.statusCode, 404);
+			assert.strictEqual(response.error, undefined);
+			assert.strictEqual(response.fallbackError?.name, 'DoesNotExistError');
+			assert.strictEqual(String(await readAll(response.stream)), '<h1>Page not found</h1>');
+		});
+
+		it('should send the error page headers without body on HEAD requests', async () => {
+			await request(createServer({ root: tmpRoot, errorPages: true }))
+				.head('/nope.txt')
+				.expect('Content-Length', '23')
+				.expect(404, undefined);
+		});
+
+		it('should fall back to the error response when the error page can not be served', async () => {
+			await request(createServer({ root: tmpRoot, errorPages: { 404: 'errors/404.html' } }))
+				.get('/nope.txt')
+				.expect('X-Send-Stream-Error', 'DoesNotExistError')
+				.expect('Content-Type', 'text/plain; charset=UTF-8')
+				.expect(404, 'Not Found');
+			await request(createServer({ root: tmpRoot, errorPages: { 403: '403.html' } }))
+				.get('/nope.txt')
+				.expect('X-Send-Stream-Error', 'DoesNotExistError')
+				.expect(404, 'Not Found');
+		});
+
+		it('should keep the problem details', async () => {
+			await request(createServer({ root: tmpRoot, errorPages: true, problemDetails: true }))
+				.get('/nope.txt')
+				.expect('Content-Type', 'application/problem+json; charset=UTF-8')
+				.expect(404);
+			await request(createServer({ root: tmpRoot, errorPages: true, errorFormats: ['html', 'json'] }))
+				.get('/nope.txt')
+				.set('Accept', 'application/json')
+				.expect('Content-Type', 'application/problem+json; charset=UTF-8')
+				.expect(404);
+		});
+	});
+
+	describe('preloadAssets', () => {
+		let tmpRoot: string;
+		const preloadAssets = {
+			'/index.html': [
+				{ path: '/app.css', as: 'style' },
+				{ path: '/font.woff2', as: 'font', crossorigin: true },
+			],
+		};
+		before(async () => {
+			tmpRoot = await fsPromises.mkdtemp(join(tmpdir(), 'send-stream-'));
+			await fsPromises.writeFile(join(tmpRoot, 'index.html'), '<link rel="stylesheet" href="/app.css">');
+			await fsPromises.writeFile(join(tmpRoot, 'app.css'), 'body { color: black; }'.repeat(10));
+			await fsPromises.writeFile(join(tmpRoot, 'font.woff2'), 'font');
+		});
+		after(async () => {
+			await fsPromises.rmdir(tmpRoot, { recursive: true });
+		});
+
+		it('should attach the preloaded assets of the manifest to the successful HTML responses', async () => {
+			const storage = new FileSystemStorage(tmpRoot, { preloadAssets });
+			const response = await storage.prepareResponse('/index.html?v=1', { ':method': 'GET' });
+			response.dispose();
+			assert.deepStrictEqual(response.preloadAssets, preloadAssets['/index.html']);
+			assert.strictEqual(response.preparePushResponse, undefined);
+			const headResponse = await storage.prepareResponse('/index.html', { ':method': 'HEAD' });
+			headResponse.dispose();
+			assert.strictEqual(headResponse.preloadAssets, undefined);
+			const rangeResponse = await storage.prepareResponse(
+				'/index.html',
+				{ ':method': 'GET', range: 'bytes=0-1' },
+			);
+			rangeResponse.dispose();
+			assert.strictEqual(rangeResponse.preloadAssets, undefined);
+			lastResult = true;
+		});
+
+		it('should get the preloaded assets of the manifest from the url path of the served file', async () => {
+			const storage = new FileSystemStorage(
+				tmpRoot,
+				{ preloadAssets, onDirectory: 'serve-index', spaFallback: true },
+			);
+			const indexResponse = await storage.prepareResponse('/', { ':method': 'GET' });
+			indexResponse.dispose();
+			assert.deepStrictEqual(indexResponse.preloadAssets, preloadAssets['/index.html']);
+			const pathPartsResponse = await storage.prepareResponse(['', 'index.html'], { ':method': 'GET' });
+			pathPartsResponse.dispose();
+			assert.deepStrictEqual(pathPartsResponse.preloadAssets, preloadAssets['/index.html']);
+			const fallbackResponse = await storage.prepareResponse('/client/route', { ':method': 'GET' });
+			fallbackResponse.dispose();
+			assert.strictEqual(fallbackResponse.statusCode, 200);
+			assert.deepStrictEqual(fallbackResponse.preloadAssets, preloadAssets['/index.html']);
+			lastResult = true;
+		});
+
+		it('should get the preloaded assets of the HTML files from a function', async () => {
+			const storage = new FileSystemStorage(tmpRoot, {
+				preloadAssets: (reference, storageInfo) => storageInfo.fileName === 'index.html'
+					? [{ path: `/app.css?from=${ String(reference) }`, as: 'style' }]
+					: undefined,
+			});
+			const response = await storage.prepareResponse(['', 'index.html'], { ':method': 'GET' });
+			response.dispose();
+			assert.deepStrictEqual(response.preloadAssets, [{ path: '/app.css?from=,index.html', as: 'style' }]);
+			const cssResponse = await storage.prepareResponse('/app.css', { ':method': 'GET' });
+			cssResponse.dispose();
+			assert.strictEqual(cssResponse.preloadAssets, undefined);
+			lastResult = true;
+		});
+
+		it('should not attach preloaded assets when the function returns undefined', async () => {
+			const storage = new FileSystemStorage(tmpRoot, { preloadAssets: () => undefined });
+			const response = await storage.prepareResponse('/index.html', { ':method': 'GET' });
+			response.dispose();
+			assert.strictEqual(response.statusCode, 200);
+			assert.strictEqual(response.preloadAssets, undefined);
+			lastResult = true;
+		});
+
+		it('should send 103 Early Hints before the HTML responses when http supports them', async () => {
+			// writeEarlyHints is only available since Node.js 18.11
+			const { writeEarlyHints } = <{ writeEarlyHints?: unknown }> http.ServerResponse.prototype;
+			const server = createServer({ root: tmpRoot, preloadAssets });
+			server.listen(0);
+			await once(server, 'listening');
+			try {
+				const { port } = <AddressInfo> server.address();
+				const informations: http.InformationEvent[] = [];
+				const req = http.get(`http://localhost:${ port }/index.html`);
+				req.on('information', (information: http.InformationEvent) => {
+					informations.push(information);
+				});
+				const [res] = <[http.IncomingMessage]> await once(req, 'response');
+				assert.strictEqual(res.statusCode, 200);
+				assert.strictEqual(String(await readAll(res)), '<link rel="stylesheet" href="/app.css">');
+				if (typeof writeEarlyHints !== 'function') {
+					assert.strictEqual(informations.length, 0);
+					return;
+				}
+				assert.strictEqual(informations.length, 1);
+				assert.strictEqual(informations[0].statusCode, 103);
+				assert.strictEqual(
+					informations[0].headers.link,
+					'</app.css>; rel=preload; as=style, </font.woff2>; rel=preload; as=font; crossorigin',
+				);
+			} finally {
+				server.close();
+			}
+		});
+
+		it('should send the early hints with the writeEarlyHints method of the http responses', async () => {
+			const storage = new FileSystemStorage(tmpRoot, { preloadAssets });
+			const hints: Record<string, string | string[]>[] = [];
+			const server = http.createServer((req, res) => {
+				Object.assign(res, {
+					writeEarlyHints: (earlyHints: Record<string, string | string[]>) => {
+						hints.push(earlyHints);
+					},
+				});
+				(async () => {
+					// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+					const response = await storage.prepareResponse(req.url!, req);
+					lastResult = response;
+					await response.send(res);
+				})().catch(err => {
+					res.statusCode = 500;
+					res.end(String(err));
+				});
+			});
+			server.listen(0);
+			await once(server, 'listening');
+			try {
+				const { port } = <AddressInfo> server.address();
+				const req = http.get(`http://localhost:${ port }/index.html`);
+				const [res] = <[http.IncomingMessage]> await once(req, 'response');
+				assert.strictEqual(res.statusCode, 200);
+				assert.strictEqual(String(await readAll(res)), '<link rel="stylesheet" href="/app.css">');
+				assert.deepStrictEqual(
+					hints,
+					[
+						{
+							link: [
+								'</app.css>; rel=preload; as=style',
+								'</font.woff2>; rel=preload; as=font; crossorigin',
+							],
+						},
+					],
+				);
+			} finally {
+				server.close();
+			}
+		});
+
+		it('should send 103 Early Hints and push the preloaded assets over http2', async () => {
+			const storage = new FileSystemStorage(
+				tmpRoot,
+				{ preloadAssets, pushPreloadAssets: true, dynamicCompression: true },
+			);
+			const app = http2.createServer();
+			app.on('stream', (stream, headers) => {
+				(async () => {
+					// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+					const response = await storage.prepareResponse(headers[':path']!, headers);
+					lastResult = response;
+					await response.send(stream);
+				})().catch(err => {
+					stream.respond({ ':status': 500 });
+					stream.end(String(err));
+				});
+			});
+			app.listen(0);
+			await once(app, 'listening');
+			const { port } = <AddressInfo> app.address();
+			const client = http2.connect(`http://localhost:${ port }`);
+			try {
+				const pushed = new Map<string, Promise<[http2.IncomingHttpHeaders, string]>>();
+				client.on('stream', (
+					pushStream: http2.ClientHttp2Stream,
+					requestHeaders: http2.IncomingHttpHeaders,
+				) => {
+					const pushedResponse = async (): Promise<[http2.IncomingHttpHeaders, string]> => {
+						const [pushHeaders] = <[http2.IncomingHttpHeaders]> await once(pushStream, 'push');
+						return [pushHeaders, String(await readAll(pushStream))];
+					};
+					pushed.set(String(requestHeaders[':path']), pushedResponse());
+				});
+				const req = client.request({ ':path': '/index.html', 'accept-encoding': 'identity' });
+				const [informationHeaders] = <[http2.IncomingHttpHeaders]> await once(req, 'headers');
+				assert.strictEqual(informationHeaders[':status'], 103);
+				assert.deepStrictEqual(
+					informationHeaders.link,
+					'</app.css>; rel=preload; as=style, </font.woff2>; rel=preload; as=font; crossorigin',
+				);
+				const [headers] = <[http2.IncomingHttpHeaders]> await once(req, 'response');
+				assert.strictEqual(headers[':status'], 200);
+				assert.strictEqual(String(await readAll(req)), '<link rel="stylesheet" href="/app.css">');
+				assert.deepStrictEqual([...pushed.keys()], ['/app.css', '/font.woff2']);
+				const [cssHeaders, cssBody] = await <Promise<[http2.IncomingHttpHeaders, string]>> pushed.get(
+					'/app.css',
+				);
+				const cssResponse = await storage.prepareResponse('/app.css', { ':method': 'GET' });
+				cssResponse.dispose();
+				assert.strictEqual(cssHeaders[':status'], 200);
+				assert.strictEqual(cssHeaders['content-encoding'], undefined);
+				assert.strictEqual(cssHeaders.etag, cssResponse.headers.ETag);
+				assert.strictEqual(cssBody, 'body { color: black; }'.repeat(10));
+			} finally {
+				client.close();
+				app.close();
+			}
+		});
+
+		it('should ignore the preloaded assets which can not be pushed over http2', async () => {
+			class FailingPushStorage extends FileSystemStorage {
+				override async preparePushResponse(path: string, requestHeaders: http2.IncomingHttpHeaders) {
+					if (path === '/error.css') {
+						throw new Error('push failure');
+					}
+					return super.preparePushResponse(path, requestHeaders);
+				}
+			}
+			const storage = new FailingPushStorage(
+				tmpRoot,
+				{
+					preloadAssets: {
+						'/index.html': ['/refused.css', '/missing.css', '/error.css', '/app.css', '/font.woff2']
+							.map(path => ({ path, as: 'style' })),
+					},
+					pushPreloadAssets: true,
+				},
+			);
+			const app = http2.createServer();
+			app.on('stream', (stream, headers) => {
+				const pushStream = stream.pushStream.bind(stream);
+				stream.pushStream = <typeof stream.pushStream> <unknown> ((
+					pushHeaders: http2.OutgoingHttpHeaders,
+					callback: (err: Error | null, ...args: unknown[]) => void,
+				) => {
+					if (pushHeaders[':path'] === '/refused.css') {
+						callback(new Error('refused push'));
+						return;
+					}
+					pushStream(pushHeaders, callback);
+				});
+				(async () => {
+					// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+					const response = await storage.prepareResponse(headers[':path']!, headers);
+					lastResult = response;
+					await response.send(stream);
+				})().catch(err => {
+					stream.respond({ ':status': 500 });
+					stream.end(String(err));
+				});
+			});
+			app.listen(0);
+			await once(app, 'listening');
+			const { port } = <AddressInfo> app.address();
+			const client = http2.connect(`http://localhost:${ port }`);
+			try {
+				const pushed = new Map<string, Promise<number | undefined>>();
+				client.on('stream', (
+					pushStream: http2.ClientHttp2Stream,
+					requestHeaders: http2.IncomingHttpHeaders,
+				) => {
+					let status: number | undefined;
+					pushStream.on('push', (pushHeaders: http2.IncomingHttpStatusHeader) => {
+						status = pushHeaders[':status'];
+					});
+					pushStream.on('error', () => undefined);
+					if (requestHeaders[':path'] === '/font.woff2') {
+						pushStream.close(http2.constants.NGHTTP2_REFUSED_STREAM);
+					}
+					pushStream.resume();
+					pushed.set(String(requestHeaders[':path']), new Promise(resolve => {
+						pushStream.on('close', () => {
+							resolve(status);
+						});
+					}));
+				});
+				const req = client.request({ ':path': '/index.html' });
+				const [headers] = <[http2.IncomingHttpHeaders]> await once(req, 'response');
+				assert.strictEqual(headers[':status'], 200);
+				assert.strictEqual(String(await readAll(req)), '<link rel="stylesheet" href="/app.css">');
+				assert.deepStrictEqual([...pushed.keys()], ['/missing.css', '/error.css', '/app.css', '/font.woff2']);
+				assert.strictEqual(await pushed.get('/missing.css'), undefined);
+				assert.strictEqual(await pushed.get('/error.css'), undefined);
+				assert.strictEqual(await pushed.get('/app.css'), 200);
+				assert.strictEqual(await pushed.get('/font.woff2'), undefined);
+			} finally {
+				client.close();
+				app.close();
+			}
+		});
+
+		it('should not push the preloaded assets when the client disables push', async () => {
+			const storage = new FileSystemStorage(tmpRoot, { preloadAssets, pushPreloadAssets: true });
+			const app = http2.createServer();
+			app.on('stream', (stream, headers) => {
+				(async () => {
+					// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+					const response = await storage.prepareResponse(headers[':path']!, headers);
+					lastResult = response;
+					await response.send(stream);
+				})().catch(err => {
+					stream.respond({ ':status': 500 });
+					stream.end(String(err));
+				});
+			});
+			app.listen(0);
+			await once(app, 'listening');
+			const { port } = <AddressInfo> app.address();
+			const client = http2.connect(`http://localhost:${ port }`, { settings: { enablePush: false } });
+			try {
+				let pushCount = 0;
+				client.on('stream', () => {
+					pushCount++;
+				});
+				const req = client.request({ ':path': '/index.html' });
+				const [informationHeaders] = <[http2.IncomingHttpHeaders]> await once(req, 'headers');
+				assert.strictEqual(informationHeaders[':status'], 103);
+				const [headers] = <[http2.IncomingHttpHeaders]> await once(req, 'response');
+				assert.strictEqual(headers[':status'], 200);
+				assert.strictEqual(String(await readAll(req)), '<link rel="stylesheet" href="/app.css">');
+				assert.strictEqual(pushCount, 0);
+			} finally {
+				client.close();
+				app.close();
+			}
+		});
+	});
 });
@@ -0,0 +1,406 @@
+/* eslint-env node, mocha */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PassThrough, Transform } from 'stream';
+import { gunzipSync, brotliDecompressSync } from 'zlib';
+import { randomBytes } from 'crypto';
+
+import {
+	precompress,
+	formatContentEncodingMappings,
+	FileSystemStorage,
+	PRECOMPRESSED_EXTENSIONS,
+} from '../src/send-stream';
+import { runCli } from '../src/cli';
+
+const content = 'compressible content, compressible content, compressible content\n';
+
+function createDoubleStream() {
+	return new Transform({
+		transform(chunk: Buffer, _encoding, callback) {
+			callback(null, Buffer.concat([chunk, chunk]));
+		},
+	});
+}
+
+function createOutput() {
+	const output = new PassThrough();
+	const chunks: Buffer[] = [];
+	output.on('data', (chunk: Buffer) => {
+		chunks.push(chunk);
+	});
+	return { output, read: () => Buffer.concat(chunks).toString() };
+}
+
+async function prepareResponse(storage: FileSystemStorage, path: string, acceptEncoding = 'gzip, br') {
+	const response = await storage.prepareResponse(path, { ':method': 'GET', 'accept-encoding': acceptEncoding });
+	response.stream.destroy();
+	return response;
+}
+
+describe('precompress', () => {
+	let root: string;
+	let rootIndex = 0;
+
+	beforeEach(async () => {
+		rootIndex++;
+		root = await fs.promises.mkdtemp(join(tmpdir(), `send-stream-precompress-${ rootIndex }-`));
+		await fs.promises.mkdir(join(root, 'sub'));
+		await fs.promises.mkdir(join(root, '.hidden'));
+		await fs.promises.writeFile(join(root, 'index.html'), content);
+		await fs.promises.writeFile(join(root, 'sub', 'style.css'), content);
+		await fs.promises.writeFile(join(root, '.hidden', 'ignored.css'), content);
+		await fs.promises.writeFile(join(root, 'small.js'), 'small');
+		await fs.promises.writeFile(join(root, 'image.png'), content);
+		await fs.promises.symlink(join(root, 'index.html'), join(root, 'link.html'));
+	});
+
+	afterEach(async () => {
+		await fs.promises.rmdir(root, { recursive: true });
+	});
+
+	it('should write pre-compressed files of compressible files', async () => {
+		const { files, contentEncodingMappings } = await precompress(root, { encodings: ['br', 'gzip'] });
+		assert.deepStrictEqual(
+			files.map(({ compressedPath, encoding, status }) => [compressedPath, encoding, status]),
+			[
+				[join(root, 'index.html.br'), 'br', 'compressed'],
+				[join(root, 'index.html.gz'), 'gzip', 'compressed'],
+				[join(root, 'sub', 'style.css.br'), 'br', 'compressed'],
+				[join(root, 'sub', 'style.css.gz'), 'gzip', 'compressed'],
+			],
+		);
+		for (const { compressedPath, size, compressedSize } of files) {
+			// eslint-disable-next-line no-await-in-loop
+			const compressed = await fs.promises.readFile(compressedPath);
+			assert.strictEqual(compressed.byteLength, compressedSize);
+			assert.strictEqual(size, content.length);
+			const decompressed = compressedPath.endsWith('.br')
+				? brotliDecompressSync(compressed)
+				: gunzipSync(compressed);
+			assert.strictEqual(decompressed.toString(), content);
+		}
+		assert.deepStrictEqual(await fs.promises.readdir(join(root, '.hidden')), ['ignored.css']);
+		assert.deepStrictEqual(
+			(await fs.promises.readdir(join(root, 'sub'))).sort((a, b) => a.localeCompare(b)),
+			['style.css', 'style.css.br', 'style.css.gz'],
+		);
+		assert.deepStrictEqual(contentEncodingMappings, [
+			{
+				matcher: /^(?<path>.+\.(?:css|html))$/u,
+				encodings: [{ name: 'br', path: '$<path>.br' }, { name: 'gzip', path: '$<path>.gz' }],
+			},
+		]);
+	});
+
+	it('should pre-compress with zstd by default when zstd compression is available', async () => {
+		const { files } = await precompress(root);
+		assert.deepStrictEqual(
+			[...new Set(files.map(({ encoding }) => encoding))],
+			new FileSystemStorage(root).zstdCompress ? ['zstd', 'br', 'gzip'] : ['br', 'gzip'],
+		);
+	});
+
+	it('should serve pre-compressed files with the content encoding mappings', async () => {
+		const { contentEncodingMappings } = await precompress(root);
+		const storage = new FileSystemStorage(root, { contentEncodingMappings });
+		const response = await storage.prepareResponse('/index.html', { ':method': 'GET', 'accept-encoding': 'gzip' });
+		response.stream.destroy();
+		assert.strictEqual(response.headers['Content-Encoding'], 'gzip');
+		assert.strictEqual(
+			response.headers['Content-Length'],
+			String((await fs.promises.stat(join(root, 'index.html.gz'))).size),
+		);
+	});
+
+	it('should skip up to date pre-compressed files', async () => {
+		const encodings = ['br', 'gzip'];
+		await precompress(root, { encodings });
+		const { files } = await precompress(root, { encodings });
+		assert.deepStrictEqual(new Set(files.map(({ status }) => status)), new Set(['up-to-date']));
+		await fs.promises.writeFile(join(root, 'index.html'), content.toUpperCase());
+		await fs.promises.utimes(join(root, 'index.html'), new Date(), new Date(Date.now() + 10_000));
+		const { files: updatedFiles } = await precompress(root, { encodings });
+		assert.deepStrictEqual(
+			updatedFiles.map(({ compressedPath, status }) => [compressedPath, status]),
+			[
+				[join(root, 'index.html.br'), 'compressed'],
+				[join(root, 'index.html.gz'), 'compressed'],
+				[join(root, 'sub', 'style.css.br'), 'up-to-date'],
+				[join(root, 'sub', 'style.css.gz'), 'up-to-date'],
+			],
+		);
+		assert.strictEqual(
+			gunzipSync(await fs.promises.readFile(join(root, 'index.html.gz'))).toString(),
+			content.toUpperCase(),
+		);
+	});
+
+	it('should not keep pre-compressed files bigger than the file', async () => {
+		const path = join(root, 'random.txt');
+		await fs.promises.writeFile(path, randomBytes(1024));
+		await fs.promises.writeFile(`${ path }.gz`, 'outdated');
+		await fs.promises.utimes(`${ path }.gz`, new Date(0), new Date(0));
+		const { files, contentEncodingMappings } = await precompress(join(root, '.'), {
+			encodings: ['gzip'],
+			ignorePattern: false,
+			dynamicCompressionMinLength: 100,
+		});
+		assert.deepStrictEqual(
+			files.map(({ compressedPath, compressedSize, status }) => [compressedPath, compressedSize, status]),
+			[[join(root, 'random.txt.gz'), undefined, 'not-smaller']],
+		);
+		await assert.rejects(fs.promises.stat(`${ path }.gz`), { code: 'ENOENT' });
+		assert.deepStrictEqual(contentEncodingMappings, []);
+	});
+
+	it('should skip the files hidden by the hidden file rules', async () => {
+		const { files } = await precompress(root, {
+			encodings: ['gzip'],
+			hiddenFiles: [{ matcher: '/.hidden', action: 'allow' }, { matcher: 'sub', action: 'deny' }],
+		});
+		assert.deepStrictEqual(
+			files.map(({ compressedPath }) => compressedPath),
+			[join(root, '.hidden', 'ignored.css.gz'), join(root, 'index.html.gz')],
+		);
+	});
+
+	it('should use dynamic compression options and zstd compression', async () => {
+		await fs.promises.writeFile(join(root, 'README'), content);
+		const { files, contentEncodingMappings } = await precompress(root, {
+			ignorePattern: '^(?:\\.|sub$)',
+			defaultMimeType: 'text/plain',
+			mimeTypeCompressible: mimeType => mimeType === 'text/plain',
+			zstdCompress: createDoubleStream,
+		});
+		assert.deepStrictEqual(
+			files.map(({ compressedPath, status }) => [compressedPath, status]),
+			[
+				[join(root, 'README.zst'), 'not-smaller'],
+				[join(root, 'README.br'), 'compressed'],
+				[join(root, 'README.gz'), 'compressed'],
+			],
+		);
+		assert.deepStrictEqual(contentEncodingMappings, []);
+	});
+
+	it('should escape file extensions in the content encoding mappings matcher', async () => {
+		await fs.promises.writeFile(join(root, 'file.te+xt'), content);
+		const { contentEncodingMappings } = await precompress(root, {
+			encodings: ['gzip'],
+			mimeTypeLookup: () => 'text/plain',
+		});
+		assert.deepStrictEqual(
+			contentEncodingMappings.map(({ matcher }) => matcher),
+			[/^(?<path>.+\.(?:css|html|png|te\+xt))$/u],
+		);
+	});
+
+	it('should fail with unsupported encodings', async () => {
+		await assert.rejects(precompress(root, { encodings: ['deflate'] }), {
+			message: 'deflate is not supported as pre-compression encoding',
+		});
+	});
+
+	it('should fail when pre-compressed files can not be checked', async () => {
+		await fs.promises.writeFile(join(root, `${ 'a'.repeat(250) }.html`), content);
+		await assert.rejects(precompress(root), { code: 'ENAMETOOLONG' });
+	});
+
+	it('should remove the temporary file when a pre-compressed file can not be written', async () => {
+		await fs.promises.mkdir(join(root, 'sub', 'style.css.gz'));
+		await fs.promises.utimes(join(root, 'sub', 'style.css.gz'), new Date(0), new Date(0));
+		await assert.rejects(precompress(root, { encodings: ['gzip'] }), { code: 'EISDIR' });
+		assert.deepStrictEqual(
+			(await fs.promises.readdir(join(root, 'sub'))).sort((a, b) => a.localeCompare(b)),
+			['style.css', 'style.css.gz'],
+		);
+	});
+
+	it('should format content encoding mappings', () => {
+		assert.strictEqual(
+			formatContentEncodingMappings([
+				{ matcher: /^(?<path>.+\.js)$/u, encodings: [{ name: 'br', path: '$<path>.br' }] },
+				{ matcher: '^(.+\\.css)$', encodings: [{ name: 'gzip', path: '$1.gz' }] },
+			]),
+			[
+				'contentEncodingMappings: [',
+				'  {',
+				'    matcher: /^(?<path>.+\\.js)$/u,',
+				'    encodings: [',
+				'      { name: \'br\', path: \'$<path>.br\' },',
+				'    ],',
+				'  },',
+				'  {',
+				'    matcher: "^(.+\\\\.css)$",',
+				'    encodings: [',
+				'      { name: \'gzip\', path: \'$1.gz\' },',
+				'    ],',
+				'  },',
+				'],',
+			].join('\n'),
+		);
+	});
+
+	describe('precompressed option', () => {
+		it('should look up the pre-compressed files by the extension of their encoding', () => {
+			assert.deepStrictEqual(PRECOMPRESSED_EXTENSIONS, { br: '.br', gzip: '.gz', zstd: '.zst' });
+		});
+
+		it('should serve pre-compressed files of compressible files', async () => {
+			await precompress(root, { encodings: ['gzip'] });
+			const storage = new FileSystemStorage(root, { precompressed: ['br', 'gzip'] });
+			const response = await prepareResponse(storage, '/index.html');
+			assert.strictEqual(response.headers['Content-Encoding'], 'gzip');
+			assert.strictEqual(response.headers.Vary, 'Accept-Encoding');
+			assert.strictEqual(response.headers['Content-Type'], 'text/html; charset=UTF-8');
+			assert.strictEqual(
+				response.headers['Content-Length'],
+				String((await fs.promises.stat(join(root, 'index.html.gz'))).size),
+			);
+			const identityResponse = await prepareResponse(storage, '/index.html', 'identity');
+			assert.strictEqual(identityResponse.headers['Content-Encoding'], undefined);
+			assert.strictEqual(identityResponse.headers['Content-Length'], String(content.length));
+		});
+
+		it('should cache missing pre-compressed files', async () => {
+			const storage = new FileSystemStorage(root, { precompressed: ['gzip'] });
+			const response = await prepareResponse(storage, '/index.html');
+			assert.strictEqual(response.headers['Content-Encoding'], undefined);
+			assert.strictEqual(storage.precompressedMissingCache.get(join(root, 'index.html.gz')), true);
+			await precompress(root, { encodings: ['gzip'] });
+			const cachedResponse = await prepareResponse(storage, '/index.html');
+			assert.strictEqual(cachedResponse.headers['Content-Encoding'], undefined);
+			const noCacheStorage = new FileSystemStorage(root, {
+				precompressed: ['gzip'],
+				precompressedMissingCacheSize: 10,
+				precompressedMissingCacheTTL: 0,
+			});
+			await prepareResponse(noCacheStorage, '/small.js');
+			assert.strictEqual(noCacheStorage.precompressedMissingCache.get(join(root, 'small.js.gz')), undefined);
+			const freshResponse = await prepareResponse(noCacheStorage, '/index.html');
+			assert.strictEqual(freshResponse.headers['Content-Encoding'], 'gzip');
+		});
+
+		it('should not look up pre-compressed files of not compressible files', async () => {
+			await fs.promises.writeFile(join(root, 'image.png.gz'), 'not used');
+			await fs.promises.writeFile(join(root, 'unknown'), content);
+			await fs.promises.writeFile(join(root, 'unknown.gz'), 'not used');
+			const storage = new FileSystemStorage(root, { precompressed: ['gzip'] });
+			const response = await prepareResponse(storage, '/image.png');
+			assert.strictEqual(response.headers['Content-Encoding'], undefined);
+			assert.strictEqual(response.headers.Vary, undefined);
+			const unknownResponse = await prepareResponse(storage, '/unknown');
+			assert.strictEqual(unknownResponse.headers['Content-Encoding'], undefined);
+			assert.strictEqual(storage.precompressedMissingCache.length, 0);
+		});
+
+		it('should prefer content encoding mappings', async () => {
+			await precompress(root, { encodings: ['gzip'] });
+			const storage = new FileSystemStorage(root, {
+				precompressed: ['gzip'],
+				contentEncodingMappings: [{ matcher: /\.html$/u, encodings: [] }],
+			});
+			const response = await prepareResponse(storage, '/index.html');
+			assert.strictEqual(response.headers['Content-Encoding'], undefined);
+			const cssResponse = await prepareResponse(storage, '/sub/style.css');
+			assert.strictEqual(cssResponse.headers['Content-Encoding'], 'gzip');
+		});
+
+		it('should ignore pre-compressed directories', async () => {
+			await fs.promises.mkdir(join(root, 'index.html.gz'));
+			const storage = new FileSystemStorage(root, { precompressed: ['gzip'], onDirectory: 'list-files' });
+			const response = await prepareResponse(storage, '/index.html');
+			assert.strictEqual(response.headers['Content-Encoding'], undefined);
+			assert.strictEqual(response.statusCode, 200);
+			const directoryResponse = await prepareResponse(storage, '/sub/');
+			assert.strictEqual(directoryResponse.statusCode, 200);
+			assert.strictEqual(directoryResponse.headers.Vary, undefined);
+		});
+
+		it('should be disabled without encodings', () => {
+			assert.strictEqual(new FileSystemStorage(root, { precompressed: [] }).precompressed, false);
+			assert.strictEqual(new FileSystemStorage(root, { precompressed: false }).precompressed, false);
+		});
+
+		it('should fail with unsupported encodings', () => {
+			assert.throws(() => new FileSystemStorage(root, { precompressed: ['deflate'] }), {
+				message: 'deflate is not supported as pre-compressed encoding',
+			});
+		});
+	});
+
+	describe('command line', () => {
+		it('should pre-compress files and print the configuration', async () => {
+			const stdout = createOutput();
+			const stderr = createOutput();
+			const exitCode = await runCli(
+				['precompress', root, '--encodings', 'gzip, br', '--min-length', '10', '--ignore-pattern', '^sub$'],
+				stdout.output,
+				stderr.output,
+			);
+			assert.strictEqual(stderr.read(), '');
+			assert.strictEqual(exitCode, 0);
+			const output = stdout.read();
+			assert.match(output, /^compressed {2}\.hidden\/ignored\.css\.gz \(65 -> \d+\)$/mu);
+			assert.match(output, /^compressed {2}index\.html\.br \(65 -> \d+\)$/mu);
+			assert.doesNotMatch(output, /style\.css/u);
+			assert.match(output, /matcher: \/\^\(\?<path>\.\+\\\.\(\?:css\|html\)\)\$\/u,/u);
+			assert.match(output, /\{ name: 'gzip', path: '\$<path>\.gz' \},\n {6}\{ name: 'br'/u);
+		});
+
+		it('should print when no file is pre-compressed', async () => {
+			const stdout = createOutput();
+			const exitCode = await runCli(
+				['precompress', '--no-ignore-pattern', '--min-length', '1000', root],
+				stdout.output,
+				stdout.output,
+			);
+			assert.strictEqual(exitCode, 0);
+			assert.strictEqual(stdout.read(), '\nNo pre-compressed files, contentEncodingMappings is not needed\n');
+		});
+
+		it('should print sizes of not kept pre-compressed files', async () => {
+			const stdout = createOutput();
+			await fs.promises.writeFile(join(root, 'random.txt'), randomBytes(1024));
+			const exitCode = await runCli(['precompress', root, '--encodings', 'gzip'], stdout.output, stdout.output);
+			assert.strictEqual(exitCode, 0);
+			assert.match(stdout.read(), /^not-smaller random\.txt\.gz \(1024\)$/mu);
+		});
+
+		it('should print usage', async () => {
+			const stdout = createOutput();
+			const stderr = createOutput();
+			assert.strictEqual(await runCli(['--help'], stdout.output, stderr.output), 0);
+			assert.match(stdout.read(), /^Usage: send-stream precompress <root> \[options\]/u);
+			assert.strictEqual(await runCli(['-h'], stdout.output, stderr.output), 0);
+			assert.strictEqual(await runCli([], stdout.output, stderr.output), 1);
+			assert.match(stderr.read(), /^Usage: send-stream precompress <root> \[options\]/u);
+		});
+
+		it('should fail with invalid arguments', async () => {
+			const invalidArguments = [
+				[['precompress'], 'precompress expects exactly one root folder'],
+				[['precompress', root, root], 'precompress expects exactly one root folder'],
+				[['precompress', root, '--encodings'], 'missing value for --encodings'],
+				[['precompress', root, '--min-length', 'ten'], 'invalid value for --min-length: ten'],
+				[['precompress', root, '--unknown', 'value'], 'unknown option --unknown'],
+				[
+					['precompress', root, '--encodings', 'deflate'],
+					'deflate is not supported as pre-compression encoding',
+				],
+			] as const;
+			for (const [args, message] of invalidArguments) {
+				const stdout = createOutput();
+				const stderr = createOutput();
+				// eslint-disable-next-line no-await-in-loop
+				assert.strictEqual(await runCli(args, stdout.output, stderr.output), 1);
+				assert.strictEqual(stderr.read(), `send-stream: ${ message }\n`);
+				assert.strictEqual(stdout.read(), '');
+			}
+		});
+	});
+});
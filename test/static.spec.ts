@@ -9,16 +9,7 @@ import request from 'supertest';
 import type { FileSystemStorageOptions, PrepareResponseOptions, StreamResponse } from '../src/send-stream';
 import { FileSystemStorage, TrailingSlashError } from '../src/send-stream';
 
-function shouldNotHaveHeader(header: string) {
-	return (res: request.Response) => {
-		const { [header.toLowerCase()]: value } = <Record<string, string>> res.header;
-		assert.strictEqual(
-			value,
-			undefined,
-			`should not have header ${ header } (actual value: "${ value }")`,
-		);
-	};
-}
+import { shouldNotHaveHeader } from './helpers';
 
 describe('static', () => {
 	const fixtures = path.join(__dirname, '/fixtures-static');
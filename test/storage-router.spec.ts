@@ -0,0 +1,349 @@
+/* eslint-env node, mocha */
+
+import * as assert from 'assert';
+import * as http from 'http';
+import { join } from 'path';
+
+import request from 'supertest';
+
+import type { StorageInfo, StreamResponse, StreamRange } from '../src/send-stream';
+import {
+	Storage,
+	BufferStream,
+	FileSystemStorage,
+	CachingStorage,
+	StorageRouter,
+	StorageError,
+} from '../src/send-stream';
+
+const contents = new Map([['a b.txt', 'key content'], ['page.html', '<p>key page</p>']]);
+
+class KeyStorage extends Storage<string, string> {
+	// eslint-disable-next-line @typescript-eslint/require-await,class-methods-use-this
+	async open(key: string): Promise<StorageInfo<string>> {
+		const content = contents.get(key);
+		if (content === undefined) {
+			throw new StorageError(`${ key } does not exist`, key);
+		}
+		return { attachedData: content, fileName: key, size: content.length, mtimeMs: 0 };
+	}
+
+	// eslint-disable-next-line class-methods-use-this
+	createReadableStream(storageInfo: StorageInfo<string>, range: StreamRange | undefined) {
+		const content = Buffer.from(storageInfo.attachedData);
+		return new BufferStream(range ? content.subarray(range.start, range.end + 1) : content);
+	}
+
+	// eslint-disable-next-line class-methods-use-this
+	async close() {
+		// noop
+	}
+}
+
+describe('storage router', () => {
+	const fixtures = join(__dirname, 'fixtures-http');
+	const staticFixtures = join(__dirname, 'fixtures-static');
+	const overlayFixtures = join(__dirname, 'fixtures-overlay');
+
+	let lastResult: StreamResponse<unknown> | true | undefined;
+
+	function createServer(storage: Storage<string, unknown>) {
+		return http.createServer((req, res) => {
+			(async () => {
+				// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+				const response = await storage.prepareResponse(req.url!, req);
+				lastResult = response;
+				if (response.error) {
+					response.headers['X-Send-Stream-Error'] = response.error.name;
+				}
+				await response.send(res);
+			})().catch(err => {
+				res.statusCode = 500;
+				console.error(err);
+				if (!res.writableEnded) {
+					res.end('Internal Error');
+				}
+			});
+		});
+	}
+
+	function createRouter() {
+		return new StorageRouter({
+			'/static/': new FileSystemStorage(staticFixtures, { onDirectory: 'list-files' }),
+			'/static/pets': new FileSystemStorage(overlayFixtures),
+			'/keys': { storage: new KeyStorage(), reference: path => decodeURIComponent(path.slice(1)) },
+		});
+	}
+
+	afterEach('destroy check', () => {
+		assert.notStrictEqual(lastResult, undefined);
+		if (lastResult && lastResult !== true) {
+			assert.strictEqual(lastResult.stream.destroyed, true);
+		}
+		lastResult = undefined;
+	});
+
+	describe('with prefixes', () => {
+		let app: http.Server;
+		before(() => {
+			app = createServer(createRouter());
+		});
+
+		it('should serve files from the storage of the matching prefix', async () => {
+			await request(app)
+				.get('/static/todo.txt')
+				.expect('Content-Type', 'text/plain; charset=UTF-8')
+				.expect(200, '- groceries');
+		});
+
+		it('should close the routed storage information', async () => {
+			await request(app)
+				.head('/static/todo.txt')
+				.expect('Content-Length', '11')
+				.expect(200, undefined);
+		});
+
+		it('should use the longest matching prefix', async () => {
+			await request(app)
+				.get('/static/pets/name.txt')
+				.expect(200, 'overlay');
+			await request(app)
+				.get('/static/pets/names.txt')
+				.expect('X-Send-Stream-Error', 'DoesNotExistError')
+				.expect(404);
+		});
+
+		it('should match url encoded prefixes', async () => {
+			await request(app)
+				.get('/st%61tic/todo.txt')
+				.expect(200, '- groceries');
+		});
+
+		it('should keep the query string', async () => {
+			await request(app)
+				.get('/static/todo.txt?version=1')
+				.expect(200, '- groceries');
+		});
+
+		it('should convert routed paths without the query string to storage references', async () => {
+			await request(app)
+				.get('/keys/a%20b.txt?version=1')
+				.expect(200, 'key content');
+		});
+
+		it('should list directories of the routed storage', async () => {
+			await request(app)
+				.get('/static/')
+				.expect(200)
+				.expect(res => {
+					assert.match(res.text, /<a href="\.\/todo\.txt">todo\.txt<\/a>/u);
+				});
+			await request(app)
+				.get('/static')
+				.expect(200, /todo\.txt/u);
+		});
+
+		it('should convert routed paths to storage references', async () => {
+			await request(app)
+				.get('/keys/a%20b.txt')
+				.expect('Content-Length', '11')
+				.expect(200, 'key content');
+			await request(app)
+				.get('/keys/a%20b.txt')
+				.set('Range', 'bytes=4-6')
+				.expect(206, 'con');
+		});
+
+		it('should 404 when no prefix matches', async () => {
+			await request(app)
+				.get('/staticfiles/todo.txt')
+				.expect('X-Send-Stream-Error', 'NoMatchingRouteError')
+				.expect(404);
+			await request(app)
+				.get('/%E0/todo.txt')
+				.expect('X-Send-Stream-Error', 'NoMatchingRouteError')
+				.expect(404);
+		});
+
+		it('should 404 when the path is not normalized', async () => {
+			await request(app)
+				.get('/keys/%2E%2E/static/todo.txt')
+				.expect('X-Send-Stream-Error', 'StorageRouterError')
+				.expect(404);
+		});
+
+		it('should 404 when the path does not start with /', async () => {
+			const response = await createRouter().prepareResponse('static/todo.txt', { ':method': 'GET' });
+			lastResult = response;
+			response.stream.destroy();
+			assert.strictEqual(response.statusCode, 404);
+			assert.strictEqual(response.error?.name, 'StorageRouterError');
+			assert.strictEqual(
+				response.error.message,
+				'\'static/todo.txt\' is not a valid path (should start with \'/\')',
+			);
+		});
+	});
+
+	describe('with routed storage options', () => {
+		it('should prepare the responses with the options of the routed storages', async () => {
+			const app = createServer(new StorageRouter({
+				'/static': new FileSystemStorage(staticFixtures, { weakEtags: true }),
+				'/': new FileSystemStorage(fixtures),
+			}));
+			await request(app)
+				.get('/static/todo.txt')
+				.expect('ETag', /^W\/"/u)
+				.expect(200, '- groceries');
+			await request(app)
+				.get('/nums.txt')
+				.expect('ETag', /^"/u)
+				.expect(200, '123456789');
+		});
+
+		it('should serve the spaFallback index of the routed storages', async () => {
+			const app = createServer(new StorageRouter({
+				'/app': new FileSystemStorage(staticFixtures, { spaFallback: { index: 'todo.html' } }),
+			}));
+			await request(app)
+				.get('/app/client/route')
+				.expect('Content-Type', 'text/html; charset=UTF-8')
+				.expect(200);
+		});
+
+		it('should create the routing error responses with the router options', async () => {
+			const app = createServer(new StorageRouter(
+				{ '/static': new FileSystemStorage(staticFixtures) },
+				{ problemDetails: true },
+			));
+			await request(app)
+				.get('/staticfiles/todo.txt')
+				.expect('Content-Type', 'application/problem+json; charset=UTF-8')
+				.expect('X-Send-Stream-Error', 'NoMatchingRouteError')
+				.expect(404);
+			await request(app)
+				.get('/static/missing.txt')
+				.expect('Content-Type', 'text/plain; charset=UTF-8')
+				.expect('X-Send-Stream-Error', 'DoesNotExistError')
+				.expect(404);
+		});
+	});
+
+	describe('with preloadAssets', () => {
+		const preloadAssets = {
+			'/static/todo.html': [{ path: '/static/todo.txt', as: 'fetch' }],
+			'/keys/page.html': [{ path: '/keys/a%20b.txt', as: 'fetch' }],
+		};
+
+		it('should get the preloaded assets of the routed storages and push them through the router', async () => {
+			const assets = [{ path: '/static/todo.txt', as: 'fetch' }];
+			const response = await new StorageRouter({
+				'/static': new FileSystemStorage(
+					staticFixtures,
+					{ preloadAssets: { '/todo.html': assets }, pushPreloadAssets: true },
+				),
+			}).prepareResponse('/st%61tic/todo.html', { ':method': 'GET' });
+			response.dispose();
+			assert.deepStrictEqual(response.preloadAssets, assets);
+			assert.ok(response.preparePushResponse);
+			const pushResponse = await response.preparePushResponse(assets[0]);
+			lastResult = pushResponse;
+			assert.strictEqual(pushResponse.statusCode, 200);
+			assert.strictEqual(pushResponse.preloadAssets, undefined);
+			pushResponse.dispose();
+		});
+
+		it('should prepare the pushed responses with the headers of the request objects', async () => {
+			const assets = [{ path: '/static/todo.txt', as: 'fetch' }];
+			const app = createServer(new StorageRouter({
+				'/static': new FileSystemStorage(
+					staticFixtures,
+					{ preloadAssets: { '/todo.html': assets }, pushPreloadAssets: true },
+				),
+			}));
+			await request(app)
+				.get('/static/todo.html')
+				.expect(200);
+			assert.ok(lastResult && lastResult !== true && lastResult.preparePushResponse);
+		});
+
+		it('should get the preloaded assets of the url paths with the route prefix when wrapped', async () => {
+			const response = await new CachingStorage(createRouter(), { preloadAssets })
+				.prepareResponse('/st%61tic/todo.html', { ':method': 'GET' });
+			lastResult = response;
+			response.dispose();
+			assert.deepStrictEqual(response.preloadAssets, preloadAssets['/static/todo.html']);
+		});
+
+		it('should not get the preloaded assets of the manifest from the storages without url paths', async () => {
+			const response = await new CachingStorage(createRouter(), { preloadAssets })
+				.prepareResponse('/keys/page.html', { ':method': 'GET' });
+			lastResult = response;
+			response.dispose();
+			assert.strictEqual(response.statusCode, 200);
+			assert.strictEqual(response.preloadAssets, undefined);
+		});
+	});
+
+	describe('with redirectNotNormalized', () => {
+		it('should redirect to the normalized path with the route prefix', async () => {
+			const app = createServer(new StorageRouter({
+				'/static/': new FileSystemStorage(staticFixtures, { redirectNotNormalized: true }),
+			}));
+			await request(app)
+				.get('/static/%6Eums?query=1')
+				.expect('Location', '/static/nums?query=1')
+				.expect('X-Send-Stream-Error', 'NotNormalizedError')
+				.expect(301);
+			await request(app)
+				.get('/static/nums')
+				.expect(200, '123456789');
+		});
+	});
+
+	describe('with root prefix', () => {
+		it('should serve unmatched paths from the root storage', async () => {
+			const app = createServer(new StorageRouter({
+				'/': new FileSystemStorage(fixtures),
+				'/static': new FileSystemStorage(staticFixtures),
+			}));
+			await request(app)
+				.get('/nums.txt')
+				.expect(200, '123456789');
+			await request(app)
+				.get('/static/nums')
+				.expect(200, '123456789');
+			await request(app)
+				.get('/static/nums.txt')
+				.expect('X-Send-Stream-Error', 'DoesNotExistError')
+				.expect(404);
+		});
+	});
+
+	describe('with content hash etags', () => {
+		it('should cache the content hash by prefix and routed storage key when wrapped', async () => {
+			const storage = new CachingStorage(createRouter(), { etagMode: 'hash' });
+			const app = createServer(storage);
+			await request(app)
+				.get('/static/todo.txt')
+				.expect('ETag', /^"[\w+/]+={0,2}"$/u)
+				.expect(200, '- groceries');
+			assert.deepStrictEqual(
+				[...storage.contentHashCache.keys()],
+				[JSON.stringify(['/static/', join(staticFixtures, 'todo.txt')])],
+			);
+			await request(app)
+				.get('/keys/a%20b.txt')
+				.expect('ETag', /^"[\w+/]+={0,2}"$/u)
+				.expect(200, 'key content');
+			assert.strictEqual(storage.contentHashCache.size, 1);
+		});
+	});
+
+	it('should fail with invalid prefixes', () => {
+		assert.throws(() => new StorageRouter({ static: new KeyStorage() }), {
+			message: '\'static\' is not a valid route prefix (should start with \'/\')',
+		});
+		lastResult = true;
+	});
+});
@@ -0,0 +1,145 @@
+/* eslint-env node, mocha */
+
+import * as assert from 'assert';
+import { promises as fsPromises } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+
+import type { ZipStreamEntry } from '../src/send-stream';
+import { ZipStorage, crc32, createZipStream, readAll } from '../src/send-stream';
+
+const lastModified = 'Thu, 02 Jan 2020 03:04:06 GMT';
+const large = Array.from({ length: 4000 }, (_value, index) => `line ${ String(index).padStart(5, '0') }\n`).join('');
+
+function fileEntry(name: string, content: string): ZipStreamEntry {
+	const buffer = Buffer.from(content);
+	return {
+		name,
+		mtimeMs: Date.parse(lastModified),
+		size: buffer.byteLength,
+		createContent: async () => Promise.resolve(Readable.from([buffer])),
+	};
+}
+
+function directoryEntry(name: string): ZipStreamEntry {
+	return { name, mtimeMs: Date.parse(lastModified), size: 0, createContent: undefined };
+}
+
+async function writeZip(entries: readonly ZipStreamEntry[]) {
+	return readAll(Readable.from(createZipStream(Readable.from(entries))));
+}
+
+async function readZipFile(storage: ZipStorage, path: string) {
+	const response = await storage.prepareResponse(path, { ':method': 'GET' });
+	return { response, content: (await readAll(response.stream)).toString() };
+}
+
+describe('zip stream', () => {
+	describe('crc32', () => {
+		it('should compute crc32 checksums', () => {
+			assert.strictEqual(crc32(Buffer.from('123456789')), 0xCB_F4_39_26);
+			assert.strictEqual(crc32(Buffer.from('56789'), crc32(Buffer.from('1234'))), 0xCB_F4_39_26);
+			assert.strictEqual(crc32(Buffer.alloc(0)), 0);
+		});
+	});
+
+	describe('createZipStream', () => {
+		let root: string;
+		before(async () => {
+			root = await fsPromises.mkdtemp(join(tmpdir(), 'send-stream-'));
+		});
+		after(async () => {
+			for (const file of await fsPromises.readdir(root)) {
+				// eslint-disable-next-line no-await-in-loop
+				await fsPromises.unlink(join(root, file));
+			}
+			await fsPromises.rmdir(root);
+		});
+
+		it('should write zip archives readable by ZipStorage', async () => {
+			const archivePath = join(root, 'written.zip');
+			await fsPromises.writeFile(archivePath, await writeZip([
+				directoryEntry('docs/'),
+				fileEntry('docs/index.html', '<p>documentation</p>'),
+				fileEntry('docs/large.txt', large),
+				fileEntry('docs/empty.txt', ''),
+				fileEntry('docs/éà.txt', 'utf-8'),
+			]));
+			const storage = new ZipStorage(archivePath);
+			assert.deepStrictEqual(
+				[...(await storage.getIndex()).keys()],
+				['/', '/docs', '/docs/index.html', '/docs/large.txt', '/docs/empty.txt', '/docs/éà.txt'],
+			);
+			const { response, content } = await readZipFile(storage, '/docs/index.html');
+			assert.strictEqual(response.headers['Last-Modified'], lastModified);
+			assert.strictEqual(content, '<p>documentation</p>');
+			assert.strictEqual((await readZipFile(storage, '/docs/large.txt')).content, large);
+			assert.strictEqual((await readZipFile(storage, '/docs/empty.txt')).content, '');
+			assert.strictEqual(
+				(await readZipFile(storage, `/docs/${ encodeURIComponent('éà.txt') }`)).content,
+				'utf-8',
+			);
+		});
+
+		it('should write zip64 end of central directory records for many entries', async () => {
+			const entries = Array.from({ length: 0xFF_FF }, (_value, index) => directoryEntry(`${ index }/`));
+			const zip = await writeZip(entries);
+			const eocdOffset = zip.byteLength - 22;
+			assert.strictEqual(zip.readUInt32LE(eocdOffset), 0x06_05_4B_50);
+			assert.strictEqual(zip.readUInt16LE(eocdOffset + 10), 0xFF_FF);
+			const locatorOffset = eocdOffset - 20;
+			assert.strictEqual(zip.readUInt32LE(locatorOffset), 0x07_06_4B_50);
+			const zip64RecordOffset = zip.readUInt32LE(locatorOffset + 8);
+			assert.strictEqual(zip64RecordOffset, locatorOffset - 56);
+			assert.strictEqual(zip.readUInt32LE(zip64RecordOffset), 0x06_06_4B_50);
+			assert.strictEqual(zip.readUInt32LE(zip64RecordOffset + 32), 0xFF_FF);
+		});
+
+		it('should write zip64 headers, data descriptors and offsets for large files', async () => {
+			const size = 0x1_00_00_00_00;
+			// the chunk reports a large size without allocating it
+			const largeChunk = Object.defineProperty(Buffer.alloc(0), 'byteLength', { value: size });
+			const chunks: Buffer[] = [];
+			for await (const chunk of createZipStream(Readable.from([
+				{
+					name: 'large.bin',
+					mtimeMs: Date.parse(lastModified),
+					size,
+					createContent: async () => Promise.resolve(Readable.from([largeChunk])),
+				},
+				fileEntry('small.txt', 'small'),
+			]))) {
+				chunks.push(chunk);
+			}
+			const [largeHeader, , largeDescriptor, smallHeader, , smallDescriptor, largeCentral, smallCentral, end]
+				= chunks;
+			assert.strictEqual(largeHeader.readUInt16LE(4), 45);
+			assert.strictEqual(largeHeader.readUInt32LE(18), 0xFF_FF_FF_FF);
+			assert.strictEqual(largeHeader.readUInt16LE(28), 20);
+			assert.strictEqual(largeDescriptor.byteLength, 24);
+			assert.strictEqual(largeDescriptor.readUInt32LE(8), 0);
+			assert.strictEqual(largeDescriptor.readUInt32LE(12), 1);
+			assert.strictEqual(smallHeader.readUInt16LE(4), 20);
+			assert.strictEqual(smallDescriptor.byteLength, 16);
+			assert.strictEqual(largeCentral.readUInt32LE(24), 0xFF_FF_FF_FF);
+			assert.strictEqual(largeCentral.readUInt16LE(30), 20);
+			assert.strictEqual(largeCentral.readUInt32LE(42), 0);
+			const smallOffset = largeHeader.byteLength + size + largeDescriptor.byteLength;
+			assert.strictEqual(smallCentral.readUInt32LE(42), 0xFF_FF_FF_FF);
+			assert.strictEqual(smallCentral.readUInt16LE(30), 12);
+			const smallExtraFieldOffset = 46 + 'small.txt'.length;
+			assert.strictEqual(smallCentral.readUInt32LE(smallExtraFieldOffset + 4), smallOffset % 0x1_00_00_00_00);
+			assert.strictEqual(smallCentral.readUInt32LE(smallExtraFieldOffset + 8), 1);
+			assert.strictEqual(end.readUInt32LE(0), 0x06_06_4B_50);
+			assert.strictEqual(end.readUInt32LE(end.byteLength - 6), 0xFF_FF_FF_FF);
+		});
+
+		it('should fail when the content does not have the expected size', async () => {
+			await assert.rejects(
+				writeZip([{ ...fileEntry('truncated.txt', 'content'), size: 10 }]),
+				{ message: 'truncated.txt size changed while it was written (7 instead of 10)' },
+			);
+		});
+	});
+});